@@ -1,14 +1,17 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { createQueryClient } from "@/data/queryClient";
 import Index from "./pages/Index";
 import { PublicForm } from "./pages/PublicForm";
+import FormResponses from "./pages/FormResponses";
+import ResponseDetail from "./pages/ResponseDetail";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = createQueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -20,6 +23,9 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/form/:formId" element={<PublicForm />} />
+            <Route path="/form/:formId/edit/:editToken" element={<PublicForm />} />
+            <Route path="/forms/:formId/responses" element={<FormResponses />} />
+            <Route path="/forms/:formId/responses/:responseId" element={<ResponseDetail />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
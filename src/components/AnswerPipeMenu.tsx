@@ -0,0 +1,36 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CornerDownRight } from 'lucide-react';
+import { toPipePlaceholder } from '@/lib/piping';
+import { CandidateQuestion } from './VisibilityRuleEditor';
+
+interface AnswerPipeMenuProps {
+  // Questions whose answers may be recalled, i.e. the ones before this question
+  candidates: CandidateQuestion[];
+  onInsert: (placeholder: string) => void;
+}
+
+export const AnswerPipeMenu = ({ candidates, onInsert }: AnswerPipeMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button type="button" variant="ghost" size="sm" className="h-7 px-2" disabled={candidates.length === 0}>
+        <CornerDownRight className="mr-1 h-3 w-3" />
+        Insert Answer
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="max-w-xs">
+      <DropdownMenuLabel>Recall the answer to</DropdownMenuLabel>
+      {candidates.map((q, index) => (
+        <DropdownMenuItem key={q.id} onClick={() => onInsert(toPipePlaceholder(q.id))}>
+          <span className="truncate">Q{index + 1}. {q.question_text}</span>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
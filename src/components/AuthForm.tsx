@@ -8,7 +8,16 @@ import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
 
-export const AuthForm = () => {
+interface AuthFormProps {
+  description?: string;
+  // Where the sign up confirmation email leads, the home page by default
+  redirectTo?: string;
+}
+
+export const AuthForm = ({
+  description = 'Sign in to create and manage feedback forms',
+  redirectTo,
+}: AuthFormProps) => {
   const { signIn, signUp } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
@@ -49,7 +58,7 @@ export const AuthForm = () => {
     e.preventDefault();
     setLoading(true);
 
-    const { error } = await signUp(signUpData.email, signUpData.password, signUpData.fullName);
+    const { error } = await signUp(signUpData.email, signUpData.password, signUpData.fullName, redirectTo);
 
     if (error) {
       toast({
@@ -72,7 +81,7 @@ export const AuthForm = () => {
         <CardHeader className="text-center">
           <CardTitle className="text-2xl">Feedback Platform</CardTitle>
           <CardDescription>
-            Sign in to create and manage feedback forms
+            {description}
           </CardDescription>
         </CardHeader>
         <CardContent>
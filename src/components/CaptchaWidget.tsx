@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { CaptchaConfig, CaptchaProvider, STUB_PASS_TOKEN } from '@/lib/spamProtection';
+
+// Turnstile and hCaptcha expose the same explicit-render API on window
+interface CaptchaApi {
+  render: (
+    container: HTMLElement,
+    options: {
+      sitekey: string;
+      callback: (token: string) => void;
+      'expired-callback': () => void;
+      'error-callback': () => void;
+    }
+  ) => string;
+  remove: (widgetId: string) => void;
+}
+
+const SCRIPTS: Record<Exclude<CaptchaProvider, 'stub'>, { src: string; global: string }> = {
+  turnstile: { src: 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit', global: 'turnstile' },
+  hcaptcha: { src: 'https://js.hcaptcha.com/1/api.js?render=explicit', global: 'hcaptcha' },
+};
+
+// Each provider's script is loaded once per page
+const loadedScripts = new Map<string, Promise<CaptchaApi>>();
+
+const loadCaptchaApi = (provider: Exclude<CaptchaProvider, 'stub'>) => {
+  const { src, global } = SCRIPTS[provider];
+  if (!loadedScripts.has(src)) {
+    loadedScripts.set(src, new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve((window as unknown as Record<string, CaptchaApi>)[global]);
+      script.onerror = () => {
+        loadedScripts.delete(src);
+        reject(new Error(`Failed to load ${provider}`));
+      };
+      document.head.appendChild(script);
+    }));
+  }
+  return loadedScripts.get(src);
+};
+
+interface CaptchaWidgetProps {
+  config: CaptchaConfig;
+  // Called with the solved token, or null when it expires or fails. Tokens can
+  // only be verified once; give the widget a new key to get a fresh challenge.
+  onChange: (token: string | null) => void;
+}
+
+export const CaptchaWidget = ({ config, onChange }: CaptchaWidgetProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [stubChecked, setStubChecked] = useState(false);
+  // Kept in a ref so re-renders of the parent don't re-render the challenge
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (config.provider === 'stub') return;
+
+    let widgetId: string | null = null;
+    let api: CaptchaApi | null = null;
+    let cancelled = false;
+    loadCaptchaApi(config.provider)
+      .then(loaded => {
+        if (cancelled || !containerRef.current) return;
+        api = loaded;
+        widgetId = loaded.render(containerRef.current, {
+          sitekey: config.siteKey,
+          callback: (token) => onChangeRef.current(token),
+          'expired-callback': () => onChangeRef.current(null),
+          'error-callback': () => onChangeRef.current(null),
+        });
+      })
+      .catch(() => setLoadFailed(true));
+
+    return () => {
+      cancelled = true;
+      if (api && widgetId !== null) api.remove(widgetId);
+    };
+  }, [config.provider, config.siteKey]);
+
+  if (config.provider === 'stub') {
+    return (
+      <div className="flex items-center space-x-2 rounded-md border p-3">
+        <Checkbox
+          id="captcha-stub"
+          checked={stubChecked}
+          onCheckedChange={(checked) => {
+            setStubChecked(checked === true);
+            onChange(checked === true ? STUB_PASS_TOKEN : null);
+          }}
+        />
+        <Label htmlFor="captcha-stub">I'm not a robot</Label>
+      </div>
+    );
+  }
+
+  if (loadFailed) {
+    return (
+      <p className="text-sm text-destructive">
+        The CAPTCHA could not be loaded. Please check your connection and reload the page.
+      </p>
+    );
+  }
+
+  return <div ref={containerRef} />;
+};
@@ -0,0 +1,101 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DEFAULT_CONFIRMATION_MESSAGE,
+  DEFAULT_REDIRECT_DELAY,
+  FormConfirmation,
+  MAX_REDIRECT_DELAY,
+} from '@/lib/confirmation';
+import { appendPlaceholder, describePipes } from '@/lib/piping';
+import { isSection } from '@/lib/questionTypes';
+import { AnswerPipeMenu } from './AnswerPipeMenu';
+import { RichText } from './RichText';
+
+interface ConfirmationEditorProps {
+  // Every question of the form, whose answers the message may recall
+  questions: { id: string; question_text: string; question_type: string }[];
+  confirmation: FormConfirmation;
+  onChange: (confirmation: FormConfirmation) => void;
+}
+
+export const ConfirmationEditor = ({ questions, confirmation, onChange }: ConfirmationEditorProps) => {
+  const update = (changes: FormConfirmation) => onChange({ ...confirmation, ...changes });
+  const message = confirmation.message ?? '';
+  const answerable = questions
+    .filter(q => !isSection(q.question_type))
+    .map(q => ({ ...q, question_text: describePipes(q.question_text, questions) }));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="confirmation-message">Message</Label>
+          <AnswerPipeMenu
+            candidates={answerable}
+            onInsert={(placeholder) => update({ message: appendPlaceholder(message, placeholder) })}
+          />
+        </div>
+        <Textarea
+          id="confirmation-message"
+          rows={4}
+          placeholder={DEFAULT_CONFIRMATION_MESSAGE}
+          value={message}
+          onChange={(e) => update({ message: e.target.value })}
+        />
+        <p className="text-sm text-muted-foreground">
+          Supports **bold**, *italic* and [links](https://example.com). Use Insert Answer to include the
+          respondent's answers, previewed below as the question they come from, e.g. [Q1].
+        </p>
+        <div className="rounded-md border bg-muted/50 p-4 text-sm">
+          <RichText text={describePipes(message.trim() || DEFAULT_CONFIRMATION_MESSAGE, questions)} />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="confirmation-redirect">Redirect to (Optional)</Label>
+          <Input
+            id="confirmation-redirect"
+            type="url"
+            placeholder="https://example.com/thanks"
+            value={confirmation.redirect_url ?? ''}
+            onChange={(e) => update({ redirect_url: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirmation-delay">Redirect after (seconds)</Label>
+          <Input
+            id="confirmation-delay"
+            type="number"
+            min={0}
+            max={MAX_REDIRECT_DELAY}
+            value={confirmation.redirect_delay ?? DEFAULT_REDIRECT_DELAY}
+            onChange={(e) =>
+              update({ redirect_delay: Math.min(MAX_REDIRECT_DELAY, Math.max(0, Math.round(Number(e.target.value)) || 0)) })
+            }
+            disabled={!confirmation.redirect_url}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="confirmation-allow-another"
+          checked={Boolean(confirmation.allow_another)}
+          onCheckedChange={(checked) => update({ allow_another: checked === true })}
+        />
+        <Label htmlFor="confirmation-allow-another">Offer to submit another response</Label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="confirmation-show-answers"
+          checked={Boolean(confirmation.show_answers)}
+          onCheckedChange={(checked) => update({ show_answers: checked === true })}
+        />
+        <Label htmlFor="confirmation-show-answers">Show respondents a copy of their answers</Label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { CheckCircle, Copy, Mail, Pencil, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatAnswer, isSection } from '@/lib/questionTypes';
+import {
+  DEFAULT_CONFIRMATION_MESSAGE,
+  DEFAULT_REDIRECT_DELAY,
+  FormConfirmation,
+  isValidRedirectUrl,
+} from '@/lib/confirmation';
+import { pipeAnswers } from '@/lib/piping';
+import { RichText } from './RichText';
+
+interface ConfirmationScreenProps {
+  confirmation: FormConfirmation | null;
+  // Every question of the form, for recalled answers and the answer copy
+  questions: { id: string; question_text: string; question_type: string }[];
+  // The answers that were submitted
+  answers: Record<string, string>;
+  // Left out on forms that allow one response per person
+  onSubmitAnother?: () => void;
+  // Only on forms that let respondents edit their response
+  onEditResponse?: () => void;
+  // The private link to edit the response later, on forms that allow edits
+  editUrl?: string | null;
+}
+
+export const ConfirmationScreen = ({
+  confirmation,
+  questions,
+  answers,
+  onSubmitAnother,
+  onEditResponse,
+  editUrl,
+}: ConfirmationScreenProps) => {
+  const { toast } = useToast();
+  const redirectUrl = confirmation?.redirect_url && isValidRedirectUrl(confirmation.redirect_url)
+    ? confirmation.redirect_url
+    : null;
+  const [secondsLeft, setSecondsLeft] = useState(confirmation?.redirect_delay ?? DEFAULT_REDIRECT_DELAY);
+
+  useEffect(() => {
+    if (!redirectUrl) return;
+    if (secondsLeft <= 0) {
+      window.location.assign(redirectUrl);
+      return;
+    }
+    const timer = window.setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [redirectUrl, secondsLeft]);
+
+  const message = pipeAnswers(
+    confirmation?.message?.trim() || DEFAULT_CONFIRMATION_MESSAGE,
+    questions,
+    answers
+  );
+  const answered = questions.filter(q => !isSection(q.question_type) && answers[q.id] !== undefined);
+  const allowAnother = Boolean(confirmation?.allow_another && onSubmitAnother);
+
+  const copyEditUrl = () => {
+    navigator.clipboard.writeText(editUrl);
+    toast({
+      title: 'Link copied',
+      description: 'Your edit link has been copied to clipboard',
+    });
+  };
+
+  return (
+    <Card className="max-w-md w-full">
+      <CardHeader className="text-center">
+        <CheckCircle className="mx-auto h-16 w-16 text-green-500 mb-4" />
+        <RichText text={message} className="text-muted-foreground [&_strong]:text-foreground" />
+      </CardHeader>
+      {(redirectUrl || allowAnother || onEditResponse || editUrl || confirmation?.show_answers) && (
+        <CardContent className="space-y-4">
+          {redirectUrl && (
+            <p className="text-center text-sm text-muted-foreground">
+              Redirecting in {secondsLeft} second{secondsLeft === 1 ? '' : 's'}...{' '}
+              <a href={redirectUrl} className="underline underline-offset-4">
+                Continue now
+              </a>
+            </p>
+          )}
+          {confirmation?.show_answers && answered.length > 0 && (
+            <div className="space-y-3">
+              <Separator />
+              <h3 className="font-medium">Your answers</h3>
+              {answered.map(question => (
+                <div key={question.id} className="space-y-1 text-sm">
+                  <p className="font-medium">{pipeAnswers(question.question_text, questions, answers)}</p>
+                  <p className="whitespace-pre-wrap text-muted-foreground">
+                    {formatAnswer(question.question_type, answers[question.id])}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+          {editUrl && (
+            <div className="space-y-2">
+              <Separator />
+              <p className="text-sm text-muted-foreground">
+                Need to change something later? Use this link while the form is open. Anyone with the link
+                can change your answers, so keep it private.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={editUrl} onFocus={(e) => e.target.select()} aria-label="Edit link" />
+                <Button variant="outline" onClick={copyEditUrl}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+              <Button variant="link" className="h-auto p-0" asChild>
+                <a href={`mailto:?subject=${encodeURIComponent('Link to edit your response')}&body=${encodeURIComponent(editUrl)}`}>
+                  <Mail className="mr-2 h-4 w-4" />
+                  Email this link to myself
+                </a>
+              </Button>
+            </div>
+          )}
+          {allowAnother && (
+            <Button variant="outline" className="w-full" onClick={onSubmitAnother}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Submit Another Response
+            </Button>
+          )}
+          {onEditResponse && (
+            <Button variant="outline" className="w-full" onClick={onEditResponse}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit Your Response
+            </Button>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
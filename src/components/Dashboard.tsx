@@ -1,74 +1,122 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
-import { Plus, BarChart3, FileText, Users, LogOut } from 'lucide-react';
+import {
+  Plus,
+  BarChart3,
+  FileText,
+  Users,
+  LogOut,
+  Pencil,
+  MoreVertical,
+  Copy,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  CalendarClock,
+  Gauge,
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useResponseFeed } from '@/hooks/useResponseFeed';
+import { formKeys } from '@/data/keys';
+import { FormOverview } from '@/data/types';
+import { useDeleteForm, useDuplicateForm, useForms, useUpdateForm } from '@/data/forms';
 import { FormBuilder } from './FormBuilder';
-import { FormResponsesView } from './FormResponsesView';
 
-interface Form {
-  id: string;
-  title: string;
-  description: string;
-  is_active: boolean;
-  created_at: string;
-  response_count?: number;
-}
+type Form = FormOverview;
+
+// Summary of the availability window shown on each form card, if it has one
+const describeSchedule = (form: Form) => {
+  const now = new Date();
+  if (form.opens_at && new Date(form.opens_at) > now) {
+    return `Opens ${new Date(form.opens_at).toLocaleString()}`;
+  }
+  if (form.closes_at) {
+    return new Date(form.closes_at) > now
+      ? `Closes ${new Date(form.closes_at).toLocaleString()}`
+      : `Closed ${new Date(form.closes_at).toLocaleString()}`;
+  }
+  return null;
+};
+
+const sumCounts = (counts: number[]) => counts.reduce((sum, count) => sum + count, 0);
+
+// One bar per day, scaled to the busiest day of the week
+const TrendBars = ({ counts }: { counts: number[] }) => {
+  const max = Math.max(1, ...counts);
+  return (
+    <div className="flex h-8 items-end gap-0.5" aria-hidden="true">
+      {counts.map((count, index) => (
+        <div
+          key={index}
+          className={count > 0 ? 'w-2 rounded-sm bg-primary' : 'w-2 rounded-sm bg-muted'}
+          style={{ height: `${Math.max(2, (count / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+};
 
 export const Dashboard = () => {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
-  const [forms, setForms] = useState<Form[]>([]);
-  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
   const [showFormBuilder, setShowFormBuilder] = useState(false);
-  const [selectedFormId, setSelectedFormId] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchForms();
-  }, []);
-
-  const fetchForms = async () => {
-    try {
-      // Fetch forms with response counts
-      const { data: formsData, error: formsError } = await supabase
-        .from('forms')
-        .select(`
-          id,
-          title,
-          description,
-          is_active,
-          created_at
-        `)
-        .order('created_at', { ascending: false });
-
-      if (formsError) throw formsError;
-
-      // Get response counts for each form
-      const formsWithCounts = await Promise.all(
-        formsData.map(async (form) => {
-          const { count } = await supabase
-            .from('form_responses')
-            .select('*', { count: 'exact', head: true })
-            .eq('form_id', form.id);
-          
-          return { ...form, response_count: count || 0 };
-        })
-      );
-
-      setForms(formsWithCounts);
-    } catch (error: any) {
-      toast({
-        title: 'Error',
-        description: 'Failed to fetch forms',
-        variant: 'destructive',
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const [editingFormId, setEditingFormId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [formToDelete, setFormToDelete] = useState<Form | null>(null);
+
+  const queryClient = useQueryClient();
+  const { data: forms = [], isLoading: loading } = useForms();
+  const updateForm = useUpdateForm();
+  const deleteFormMutation = useDeleteForm();
+  const duplicateFormMutation = useDuplicateForm();
+
+  // Count new submissions as they arrive instead of waiting for a reload
+  useResponseFeed(null, (response) => {
+    const form = forms.find(f => f.id === response.form_id);
+    if (!form) return;
+
+    queryClient.setQueryData<Form[]>(formKeys.overview(), current =>
+      current?.map(f =>
+        f.id === response.form_id
+          ? {
+              ...f,
+              response_count: f.response_count + 1,
+              spots_taken: f.spots_taken + (response.is_spam ? 0 : 1),
+              last_response_at: response.submitted_at,
+              daily_counts: [...f.daily_counts.slice(0, -1), (f.daily_counts[f.daily_counts.length - 1] ?? 0) + 1],
+            }
+          : f
+      )
+    );
+    toast({
+      title: 'New response',
+      description: `"${form.title}" just received a response`,
+    });
+  });
 
   const handleSignOut = async () => {
     await signOut();
@@ -87,51 +135,93 @@ export const Dashboard = () => {
     });
   };
 
-  const toggleFormStatus = async (formId: string, currentStatus: boolean) => {
-    try {
-      const { error } = await supabase
-        .from('forms')
-        .update({ is_active: !currentStatus })
-        .eq('id', formId);
-
-      if (error) throw error;
-
-      setForms(forms.map(form => 
-        form.id === formId 
-          ? { ...form, is_active: !currentStatus }
-          : form
-      ));
-
-      toast({
-        title: 'Form updated',
-        description: `Form ${!currentStatus ? 'activated' : 'deactivated'} successfully`,
-      });
-    } catch (error: any) {
-      toast({
-        title: 'Error',
-        description: 'Failed to update form status',
-        variant: 'destructive',
-      });
-    }
+  const toggleFormStatus = (form: Form) => {
+    const isActive = !form.is_active;
+    updateForm.mutate(
+      { formId: form.id, changes: { is_active: isActive } },
+      {
+        onSuccess: () => {
+          toast({
+            title: 'Form updated',
+            description: `Form ${isActive ? 'activated' : 'deactivated'} successfully`,
+          });
+        },
+        onError: () => {
+          toast({
+            title: 'Error',
+            description: 'Failed to update form status',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
   };
 
-  if (showFormBuilder) {
-    return (
-      <FormBuilder
-        onClose={() => setShowFormBuilder(false)}
-        onFormCreated={() => {
-          fetchForms();
-          setShowFormBuilder(false);
-        }}
-      />
+  const deleteForm = (form: Form) => {
+    deleteFormMutation.mutate(form.id, {
+      onSuccess: () => {
+        toast({
+          title: 'Form deleted',
+          description: `"${form.title}" has been deleted`,
+        });
+      },
+      onSettled: () => setFormToDelete(null),
+    });
+  };
+
+  const duplicateForm = (form: Form) => {
+    duplicateFormMutation.mutate(form.id, {
+      onSuccess: (copy) => {
+        toast({
+          title: 'Form duplicated',
+          description: `Created "${copy.title}"`,
+        });
+      },
+    });
+  };
+
+  const setFormArchived = (form: Form, archived: boolean) => {
+    // Archived forms stop accepting responses; unarchiving leaves them inactive
+    const changes = archived
+      ? { archived_at: new Date().toISOString(), is_active: false }
+      : { archived_at: null };
+
+    updateForm.mutate(
+      { formId: form.id, changes },
+      {
+        onSuccess: () => {
+          toast({
+            title: archived ? 'Form archived' : 'Form restored',
+            description: archived
+              ? `"${form.title}" has been moved to the archive`
+              : `"${form.title}" is back in your forms list`,
+          });
+        },
+        onError: () => {
+          toast({
+            title: 'Error',
+            description: archived ? 'Failed to archive form' : 'Failed to restore form',
+            variant: 'destructive',
+          });
+        },
+      }
     );
-  }
+  };
+
+  const visibleForms = forms.filter(form => Boolean(form.archived_at) === showArchived);
+  const archivedCount = forms.filter(form => form.archived_at).length;
+
+  if (showFormBuilder || editingFormId) {
+    const closeFormBuilder = () => {
+      setShowFormBuilder(false);
+      setEditingFormId(null);
+    };
 
-  if (selectedFormId) {
     return (
-      <FormResponsesView
-        formId={selectedFormId}
-        onBack={() => setSelectedFormId(null)}
+      <FormBuilder
+        formId={editingFormId ?? undefined}
+        onClose={closeFormBuilder}
+        onFormSaved={closeFormBuilder}
       />
     );
   }
@@ -154,20 +244,39 @@ export const Dashboard = () => {
       <main className="container mx-auto px-4 py-8">
         <div className="flex justify-between items-center mb-8">
           <div>
-            <h2 className="text-3xl font-bold">Your Forms</h2>
-            <p className="text-muted-foreground">Create and manage your feedback forms</p>
+            <h2 className="text-3xl font-bold">{showArchived ? 'Archived Forms' : 'Your Forms'}</h2>
+            <p className="text-muted-foreground">
+              {showArchived
+                ? 'Archived forms keep their responses but no longer accept new ones'
+                : 'Create and manage your feedback forms'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {(showArchived || archivedCount > 0) && (
+              <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+                <Archive className="mr-2 h-4 w-4" />
+                {showArchived ? 'Back to Forms' : `Archived (${archivedCount})`}
+              </Button>
+            )}
+            <Button onClick={() => setShowFormBuilder(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create New Form
+            </Button>
           </div>
-          <Button onClick={() => setShowFormBuilder(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Create New Form
-          </Button>
         </div>
 
         {loading ? (
           <div className="text-center py-8">
             <p>Loading forms...</p>
           </div>
-        ) : forms.length === 0 ? (
+        ) : showArchived && visibleForms.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <Archive className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <CardTitle className="mb-2">No archived forms</CardTitle>
+            </CardContent>
+          </Card>
+        ) : visibleForms.length === 0 ? (
           <Card className="text-center py-12">
             <CardContent>
               <FileText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -183,14 +292,18 @@ export const Dashboard = () => {
           </Card>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {forms.map((form) => (
+            {visibleForms.map((form) => (
               <Card key={form.id} className="hover:shadow-lg transition-shadow">
                 <CardHeader>
                   <div className="flex justify-between items-start">
                     <CardTitle className="text-lg">{form.title}</CardTitle>
-                    <Badge variant={form.is_active ? 'default' : 'secondary'}>
-                      {form.is_active ? 'Active' : 'Inactive'}
-                    </Badge>
+                    {form.archived_at ? (
+                      <Badge variant="outline">Archived</Badge>
+                    ) : (
+                      <Badge variant={form.is_active ? 'default' : 'secondary'}>
+                        {form.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    )}
                   </div>
                   {form.description && (
                     <CardDescription>{form.description}</CardDescription>
@@ -207,6 +320,37 @@ export const Dashboard = () => {
                       {new Date(form.created_at).toLocaleDateString()}
                     </div>
                   </div>
+
+                  <div className="flex items-end justify-between gap-4 text-sm text-muted-foreground mb-4">
+                    <div>
+                      <p>{sumCounts(form.daily_counts)} in the last 7 days</p>
+                      <p>
+                        {form.last_response_at
+                          ? `Last response ${formatDistanceToNow(new Date(form.last_response_at), { addSuffix: true })}`
+                          : 'No responses yet'}
+                      </p>
+                    </div>
+                    <TrendBars counts={form.daily_counts} />
+                  </div>
+
+                  {(describeSchedule(form) || form.max_responses) && (
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mb-4">
+                      {describeSchedule(form) && (
+                        <div className="flex items-center gap-1">
+                          <CalendarClock className="h-4 w-4" />
+                          {describeSchedule(form)}
+                        </div>
+                      )}
+                      {form.max_responses && (
+                        <div className="flex items-center gap-1">
+                          <Gauge className="h-4 w-4" />
+                          {form.spots_taken >= form.max_responses
+                            ? `Full (${form.max_responses} responses)`
+                            : `${form.max_responses - form.spots_taken} of ${form.max_responses} spots left`}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   
                   <div className="flex gap-2">
                     <Button
@@ -220,17 +364,56 @@ export const Dashboard = () => {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setSelectedFormId(form.id)}
+                      onClick={() => setEditingFormId(form.id)}
                     >
-                      <BarChart3 className="h-4 w-4" />
+                      <Pencil className="h-4 w-4" />
                     </Button>
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => toggleFormStatus(form.id, form.is_active)}
+                      onClick={() => navigate(`/forms/${form.id}/responses`)}
                     >
-                      {form.is_active ? 'Deactivate' : 'Activate'}
+                      <BarChart3 className="h-4 w-4" />
                     </Button>
+                    {!form.archived_at && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleFormStatus(form)}
+                        disabled={updateForm.isPending}
+                      >
+                        {form.is_active ? 'Deactivate' : 'Activate'}
+                      </Button>
+                    )}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => duplicateForm(form)}>
+                          <Copy className="mr-2 h-4 w-4" />
+                          Duplicate
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setFormArchived(form, !form.archived_at)}>
+                          {form.archived_at ? (
+                            <ArchiveRestore className="mr-2 h-4 w-4" />
+                          ) : (
+                            <Archive className="mr-2 h-4 w-4" />
+                          )}
+                          {form.archived_at ? 'Unarchive' : 'Archive'}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          className="text-destructive focus:text-destructive"
+                          onClick={() => setFormToDelete(form)}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </CardContent>
               </Card>
@@ -238,6 +421,30 @@ export const Dashboard = () => {
           </div>
         )}
       </main>
+
+      <AlertDialog open={Boolean(formToDelete)} onOpenChange={(open) => !open && setFormToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{formToDelete?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the form, its questions and{' '}
+              {formToDelete?.response_count === 1
+                ? '1 response'
+                : `${formToDelete?.response_count ?? 0} responses`}
+              . This cannot be undone. Archive the form instead to keep its responses.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => formToDelete && deleteForm(formToDelete)}
+            >
+              Delete Form
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
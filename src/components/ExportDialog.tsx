@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ResponseQuery, hasActiveFilters } from '@/lib/responseQuery';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions, MultiSelectMode, exportResponses } from '@/lib/responseExport';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  form: { id: string; title: string };
+  questions: { id: string; question_text: string; question_type: string; options?: string[] | null }[];
+  query: ResponseQuery;
+  // Number of responses matching the current filters
+  matchCount: number;
+}
+
+export const ExportDialog = ({ open, onOpenChange, form, questions, query, matchCount }: ExportDialogProps) => {
+  const { toast } = useToast();
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'csv',
+    includeResponseId: false,
+    includeMetadata: false,
+    multiSelect: 'joined',
+  });
+  const [progress, setProgress] = useState<{ exported: number; total: number } | null>(null);
+
+  const format = EXPORT_FORMATS.find(f => f.value === options.format);
+  const hasCheckboxes = questions.some(q => q.question_type === 'checkboxes');
+
+  const handleExport = async () => {
+    setProgress({ exported: 0, total: matchCount });
+    try {
+      const exported = await exportResponses({
+        form,
+        questions,
+        query,
+        options,
+        onProgress: (exported, total) => setProgress({ exported, total }),
+      });
+
+      toast({
+        title: 'Export completed',
+        description: `${exported} response${exported === 1 ? '' : 's'} exported as ${format.label}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to export responses',
+        variant: 'destructive',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !progress && onOpenChange(value)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Responses</DialogTitle>
+          <DialogDescription>
+            {hasActiveFilters(query)
+              ? `Exports the ${matchCount} response${matchCount === 1 ? '' : 's'} matching the current filters.`
+              : `Exports all ${matchCount} response${matchCount === 1 ? '' : 's'}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value: ExportFormat) => setOptions({ ...options, format: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map(f => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="export-response-id"
+              checked={options.includeResponseId}
+              onCheckedChange={(checked) => setOptions({ ...options, includeResponseId: checked === true })}
+            />
+            <Label htmlFor="export-response-id">Include response IDs</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="export-metadata"
+              checked={options.includeMetadata}
+              onCheckedChange={(checked) => setOptions({ ...options, includeMetadata: checked === true })}
+            />
+            <Label htmlFor="export-metadata">Include form details, status, spam flag and answer counts</Label>
+          </div>
+
+          {format.tabular && hasCheckboxes && (
+            <div className="space-y-2">
+              <Label>Checkbox questions</Label>
+              <RadioGroup
+                value={options.multiSelect}
+                onValueChange={(value: MultiSelectMode) => setOptions({ ...options, multiSelect: value })}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="joined" id="multi-joined" />
+                  <Label htmlFor="multi-joined">One column, selected options joined with "; "</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="columns" id="multi-columns" />
+                  <Label htmlFor="multi-columns">One TRUE/FALSE column per option</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.exported / progress.total) * 100 : 0} />
+              <p className="text-sm text-muted-foreground">
+                Exported {progress.exported} of {progress.total}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={Boolean(progress)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={Boolean(progress) || matchCount === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            {progress ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,81 @@
+import { Button } from '@/components/ui/button';
+import { Download, FileText } from 'lucide-react';
+import { UploadedFile } from '@/lib/questionTypes';
+import { formatFileSize } from '@/lib/fileUploads';
+import { SignedFileUrl } from '@/data/types';
+
+interface FileAnswerProps {
+  files: UploadedFile[];
+  // Signed links keyed by path; files without one are shown by name only
+  urls: Record<string, SignedFileUrl>;
+  // A comma-separated list of links, for table cells
+  compact?: boolean;
+}
+
+export const FileAnswer = ({ files, urls, compact }: FileAnswerProps) => {
+  if (compact) {
+    return (
+      <span>
+        {files.map((file, index) => (
+          <span key={file.path}>
+            {index > 0 && ', '}
+            {urls[file.path] ? (
+              <a
+                href={urls[file.path].view}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline underline-offset-4"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {file.name}
+              </a>
+            ) : (
+              file.name
+            )}
+          </span>
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {files.map(file => {
+        const url = urls[file.path];
+        return (
+          <li key={file.path} className="space-y-2 rounded-md border p-3">
+            {url && file.type.startsWith('image/') && (
+              <a href={url.view} target="_blank" rel="noopener noreferrer">
+                <img src={url.view} alt={file.name} className="max-h-48 rounded object-contain" />
+              </a>
+            )}
+            <div className="flex items-center gap-3 text-sm">
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              {url ? (
+                <a
+                  href={url.view}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-1 truncate underline underline-offset-4"
+                >
+                  {file.name}
+                </a>
+              ) : (
+                <span className="flex-1 truncate">{file.name}</span>
+              )}
+              <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+              {url && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={url.download}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download
+                  </a>
+                </Button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,77 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DEFAULT_FILE_LIMITS,
+  FILE_TYPE_GROUPS,
+  FileLimits,
+  MAX_FILES,
+  MAX_FILE_SIZE_MB,
+} from '@/lib/fileUploads';
+
+interface FileLimitsEditorProps {
+  limits: FileLimits;
+  onChange: (limits: FileLimits) => void;
+}
+
+const clamp = (value: string, max: number) => Math.min(max, Math.max(1, Math.round(Number(value)) || 1));
+
+export const FileLimitsEditor = ({ limits, onChange }: FileLimitsEditorProps) => {
+  const allowedTypes = limits.allowed_types ?? [];
+
+  const toggleGroup = (types: string[], checked: boolean) =>
+    onChange({
+      ...limits,
+      allowed_types: checked
+        ? [...allowedTypes, ...types.filter(t => !allowedTypes.includes(t))]
+        : allowedTypes.filter(t => !types.includes(t)),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="file-max-files">Maximum files</Label>
+          <Input
+            id="file-max-files"
+            type="number"
+            min={1}
+            max={MAX_FILES}
+            value={limits.max_files ?? DEFAULT_FILE_LIMITS.max_files}
+            onChange={(e) => onChange({ ...limits, max_files: clamp(e.target.value, MAX_FILES) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="file-max-size">Maximum size per file (MB)</Label>
+          <Input
+            id="file-max-size"
+            type="number"
+            min={1}
+            max={MAX_FILE_SIZE_MB}
+            value={limits.max_size_mb ?? DEFAULT_FILE_LIMITS.max_size_mb}
+            onChange={(e) => onChange({ ...limits, max_size_mb: clamp(e.target.value, MAX_FILE_SIZE_MB) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Allowed file types</Label>
+        <div className="grid gap-2 md:grid-cols-2">
+          {FILE_TYPE_GROUPS.map(group => (
+            <div key={group.value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`file-type-${group.value}`}
+                checked={group.types.every(t => allowedTypes.includes(t))}
+                onCheckedChange={(checked) => toggleGroup(group.types, checked === true)}
+              />
+              <Label htmlFor={`file-type-${group.value}`} className="font-normal">
+                {group.label} <span className="text-muted-foreground">({group.extensions})</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-muted-foreground">Leave all unchecked to accept any type of file.</p>
+      </div>
+    </div>
+  );
+};
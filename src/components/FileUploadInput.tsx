@@ -0,0 +1,142 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileText, Loader2, Upload, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { UploadedFile, encodeFileAnswer, parseFileAnswer } from '@/lib/questionTypes';
+import { FileLimits, checkFile, describeAllowedTypes, formatFileSize, getFileLimits } from '@/lib/fileUploads';
+import { useRemoveResponseFile, useUploadResponseFile } from '@/data/storage';
+
+export interface UploadTarget {
+  formId: string;
+  // The id the response will be submitted with; files are stored under it
+  responseId: string;
+}
+
+interface FileUploadInputProps {
+  question: { id: string; file_limits?: FileLimits | null };
+  value: string;
+  onChange: (value: string) => void;
+  invalid?: boolean;
+  target: UploadTarget;
+}
+
+// Files are uploaded as soon as they are picked, so submitting only has to
+// send their references.
+export const FileUploadInput = ({ question, value, onChange, invalid, target }: FileUploadInputProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const uploadFile = useUploadResponseFile();
+  const removeFile = useRemoveResponseFile();
+  // Names of the files being uploaded. Picking and removing files is disabled
+  // meanwhile so the answer can't change underneath the uploads.
+  const [uploading, setUploading] = useState<string[]>([]);
+
+  const files = parseFileAnswer(value);
+  const limits = getFileLimits(question.file_limits);
+  const room = limits.max_files - files.length;
+
+  const addFiles = async (picked: File[]) => {
+    const problems = picked.map(file => checkFile(file, limits)).filter(Boolean);
+    const accepted = picked.filter(file => !checkFile(file, limits)).slice(0, room);
+    if (picked.length - problems.length > room) {
+      problems.push(`You can upload at most ${limits.max_files} file${limits.max_files === 1 ? '' : 's'}`);
+    }
+    if (problems.length > 0) {
+      toast({
+        title: 'Error',
+        description: problems[0],
+        variant: 'destructive',
+      });
+    }
+    if (accepted.length === 0) return;
+
+    setUploading(accepted.map(file => file.name));
+    const results = await Promise.allSettled(
+      accepted.map(file => uploadFile.mutateAsync({ ...target, questionId: question.id, file }))
+    );
+    setUploading([]);
+
+    const uploaded = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failed = accepted.filter((_, index) => results[index].status === 'rejected');
+    if (failed.length > 0) {
+      toast({
+        title: 'Error',
+        description: `Failed to upload ${failed.map(file => file.name).join(', ')}`,
+        variant: 'destructive',
+      });
+    }
+    if (uploaded.length > 0) {
+      onChange(encodeFileAnswer([...files, ...uploaded]));
+    }
+  };
+
+  const remove = (file: UploadedFile) => {
+    onChange(encodeFileAnswer(files.filter(f => f.path !== file.path)));
+    // Best effort: a file left behind is never part of the response
+    removeFile.mutate(file.path);
+  };
+
+  return (
+    <div className="space-y-3">
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map(file => (
+            <li key={file.path} className="flex items-center gap-3 rounded-md border px-3 py-2 text-sm">
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate">{file.name}</span>
+              <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => remove(file)}
+                disabled={uploading.length > 0}
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {uploading.length > 0 && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Uploading {uploading.join(', ')}...
+        </p>
+      )}
+
+      {room > 0 && (
+        <Button
+          type="button"
+          variant="outline"
+          className={cn(invalid && 'border-destructive')}
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading.length > 0}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {files.length > 0 ? 'Add Another File' : limits.max_files > 1 ? 'Upload Files' : 'Upload File'}
+        </Button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        multiple={limits.max_files > 1}
+        accept={limits.allowed_types.join(',') || undefined}
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files ?? []));
+          // Let the same file be picked again after it was removed
+          e.target.value = '';
+        }}
+      />
+      <p className="text-sm text-muted-foreground">
+        {describeAllowedTypes(limits.allowed_types)}, up to {limits.max_size_mb} MB each
+        {limits.max_files > 1 && ` (${limits.max_files} files at most)`}
+      </p>
+    </div>
+  );
+};
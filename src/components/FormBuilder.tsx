@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -7,72 +7,291 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Plus, Trash2, GripVertical } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, Plus, Trash2, GripVertical, Pencil, ArrowUp, ArrowDown } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { cn } from '@/lib/utils';
+import {
+  QUESTION_TYPES,
+  QuestionType,
+  SCALE_RANGES,
+  getQuestionTypeLabel,
+  hasOptions,
+  isFileUpload,
+  isSection,
+} from '@/lib/questionTypes';
+import {
+  VisibilityRule,
+  findRuleProblems,
+  getQuestionLabels,
+  hasConditions,
+  removeConditionsOn,
+} from '@/lib/formRules';
+import { useForm, useFormQuestions, useSaveForm } from '@/data/forms';
+import { QuestionFields } from '@/data/types';
+import { FormTheme, normalizeTheme } from '@/lib/formTheme';
+import { FormConfirmation, findConfirmationProblems, normalizeConfirmation } from '@/lib/confirmation';
+import { appendPlaceholder, describePipes, findPipeProblems, getPipedQuestionIds } from '@/lib/piping';
+import { DEFAULT_DRAFT_EXPIRY_DAYS, MAX_DRAFT_EXPIRY_DAYS } from '@/lib/drafts';
+import { FileLimits, describeAllowedTypes, getFileLimits, normalizeFileLimits } from '@/lib/fileUploads';
+import { getCaptchaConfig } from '@/lib/spamProtection';
+import { RESPONDENT_MODES, RespondentMode, canEditResponses } from '@/lib/respondents';
+import { NOTIFICATION_FREQUENCIES, NotificationFrequency } from '@/lib/notifications';
+import { VisibilityRuleEditor } from './VisibilityRuleEditor';
+import { AnswerPipeMenu } from './AnswerPipeMenu';
+import { FileLimitsEditor } from './FileLimitsEditor';
+import { FormThemeEditor } from './FormThemeEditor';
+import { ConfirmationEditor } from './ConfirmationEditor';
 
-interface Question {
-  id: string;
-  question_text: string;
-  question_type: 'text' | 'multiple_choice';
-  options?: string[];
-  is_required: boolean;
-  order_index: number;
-}
+type Question = QuestionFields;
 
 interface FormBuilderProps {
+  formId?: string;
   onClose: () => void;
-  onFormCreated: () => void;
+  onFormSaved: () => void;
 }
 
-export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
+// <input type="datetime-local"> works in local time without a zone
+const toLocalDateTimeInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const fromLocalDateTimeInput = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+// Forms can only require a CAPTCHA when the app is built with a provider
+const captchaConfig = getCaptchaConfig();
+
+// Radix selects cannot have an empty value, so "any number of responses" gets its own
+const UNLIMITED_RESPONSES = 'unlimited';
+
+const emptyQuestion = {
+  question_text: '',
+  question_type: 'short_text' as QuestionType,
+  description: '',
+  options: [''],
+  is_required: false,
+  visibility: null as VisibilityRule | null,
+  file_limits: {} as FileLimits,
+};
+
+export const FormBuilder = ({ formId, onClose, onFormSaved }: FormBuilderProps) => {
   const { toast } = useToast();
-  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+  const isEditing = Boolean(formId);
+  const { data: form, isError: formError } = useForm(formId);
+  const { data: questionsData, isError: questionsError } = useFormQuestions(formId);
+  const saveFormMutation = useSaveForm();
+  // Saved data is copied into local state once; refetches must not overwrite edits
+  const [initialized, setInitialized] = useState(!isEditing);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
+    opens_at: '',
+    closes_at: '',
+    max_responses: '',
+    allow_drafts: false,
+    draft_expiry_days: String(DEFAULT_DRAFT_EXPIRY_DAYS),
+    captcha_required: false,
+    one_response_per: null as RespondentMode | null,
+    allow_response_edits: false,
+    notify_on_response: 'off' as NotificationFrequency,
   });
+  const [theme, setTheme] = useState<FormTheme>({});
+  const [confirmation, setConfirmation] = useState<FormConfirmation>({});
   
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [newQuestion, setNewQuestion] = useState({
-    question_text: '',
-    question_type: 'text' as 'text' | 'multiple_choice',
-    options: [''],
-    is_required: false,
-  });
+  // Ids of questions that already exist in form_questions. Anything not in this
+  // set is new and gets inserted on save; anything in it that is no longer in
+  // `questions` gets deleted.
+  const [persistedIds, setPersistedIds] = useState<string[]>([]);
+  const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [newQuestion, setNewQuestion] = useState(emptyQuestion);
+
+  useEffect(() => {
+    if (initialized || !form || !questionsData) return;
+
+    setFormData({
+      title: form.title,
+      description: form.description || '',
+      opens_at: toLocalDateTimeInput(form.opens_at),
+      closes_at: toLocalDateTimeInput(form.closes_at),
+      max_responses: form.max_responses ? String(form.max_responses) : '',
+      allow_drafts: form.draft_expiry_days !== null,
+      draft_expiry_days: String(form.draft_expiry_days ?? DEFAULT_DRAFT_EXPIRY_DAYS),
+      captcha_required: form.captcha_required,
+      one_response_per: form.one_response_per,
+      allow_response_edits: form.allow_response_edits,
+      notify_on_response: form.notify_on_response,
+    });
+    setTheme(form.theme ?? {});
+    setConfirmation(form.confirmation ?? {});
+    setQuestions(questionsData.map(({ form_id, created_at, ...question }) => question));
+    setPersistedIds(questionsData.map(q => q.id));
+    setInitialized(true);
+  }, [initialized, form, questionsData]);
 
   const addQuestion = () => {
     if (!newQuestion.question_text.trim()) {
       toast({
         title: 'Error',
-        description: 'Question text is required',
+        description: isSection(newQuestion.question_type)
+          ? 'Section title is required'
+          : 'Question text is required',
         variant: 'destructive',
       });
       return;
     }
 
-    const question: Question = {
-      id: Math.random().toString(36).substr(2, 9),
+    if (
+      hasOptions(newQuestion.question_type) &&
+      newQuestion.options.filter(opt => opt.trim()).length === 0
+    ) {
+      toast({
+        title: 'Error',
+        description: 'Add at least one option',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const fields = {
       question_text: newQuestion.question_text,
       question_type: newQuestion.question_type,
-      options: newQuestion.question_type === 'multiple_choice' 
+      description: newQuestion.description.trim() || null,
+      options: hasOptions(newQuestion.question_type) 
         ? newQuestion.options.filter(opt => opt.trim()) 
-        : undefined,
-      is_required: newQuestion.is_required,
-      order_index: questions.length,
+        : null,
+      is_required: isSection(newQuestion.question_type) ? false : newQuestion.is_required,
+      visibility: hasConditions(newQuestion.visibility) ? newQuestion.visibility : null,
+      file_limits: isFileUpload(newQuestion.question_type) ? normalizeFileLimits(newQuestion.file_limits) : null,
     };
 
-    setQuestions([...questions, question]);
+    if (editingQuestionId) {
+      setQuestions(questions.map(q => 
+        q.id === editingQuestionId ? { ...q, ...fields } : q
+      ));
+    } else {
+      setQuestions([
+        ...questions,
+        {
+          ...fields,
+          // Real UUIDs so display logic can reference questions before they are saved
+          id: crypto.randomUUID(),
+          order_index: questions.length,
+        },
+      ]);
+    }
+
+    setEditingQuestionId(null);
+    setNewQuestion(emptyQuestion);
+  };
+
+  const editQuestion = (question: Question) => {
+    setEditingQuestionId(question.id);
     setNewQuestion({
-      question_text: '',
-      question_type: 'text',
-      options: [''],
-      is_required: false,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      description: question.description ?? '',
+      options: question.options?.length ? question.options : [''],
+      is_required: question.is_required,
+      visibility: question.visibility ?? null,
+      file_limits: question.file_limits ?? {},
     });
   };
 
+  const cancelEdit = () => {
+    setEditingQuestionId(null);
+    setNewQuestion(emptyQuestion);
+  };
+
   const removeQuestion = (id: string) => {
-    setQuestions(questions.filter(q => q.id !== id));
+    if (
+      persistedIds.includes(id) &&
+      !window.confirm('Deleting this question will also delete the answers already collected for it. Continue?')
+    ) {
+      return;
+    }
+
+    const dependents = questions.filter(q =>
+      q.visibility?.groups.some(group => group.conditions.some(c => c.question_id === id))
+    );
+    const recallers = questions.filter(q =>
+      [...getPipedQuestionIds(q.question_text), ...getPipedQuestionIds(q.description)].includes(id)
+    );
+
+    setQuestions(questions
+      .filter(q => q.id !== id)
+      .map((q, index) => ({
+        ...q,
+        order_index: index,
+        visibility: removeConditionsOn(q.visibility, id),
+      }))
+    );
+    if (dependents.length > 0) {
+      toast({
+        title: 'Display logic updated',
+        description: `Removed conditions on the deleted question from ${dependents.length} other question(s)`,
+      });
+    }
+    if (recallers.length > 0) {
+      toast({
+        title: 'Answer recall needs attention',
+        description: `${recallers.length} other question(s) recall the deleted question's answer. Edit them before saving.`,
+      });
+    }
+    if (editingQuestionId === id) {
+      cancelEdit();
+    }
+  };
+
+  // Moves the question at `from` to position `to` and rewrites order_index for
+  // the whole list so it always matches the on-screen order.
+  const reorderQuestions = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= questions.length) return;
+
+    const reordered = [...questions];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setQuestions(reordered.map((q, i) => ({ ...q, order_index: i })));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    reorderQuestions(index, index + direction);
+  };
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    setDragIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+
+    reorderQuestions(dragIndex, index);
+    setDragIndex(index);
+  };
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+  };
+
+  const handleGripKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const target = e.key === 'ArrowUp' ? index - 1 : index + 1;
+      moveQuestion(index, e.key === 'ArrowUp' ? -1 : 1);
+      // Keep focus on the handle of the moved question so repeated key presses
+      // keep moving the same item.
+      requestAnimationFrame(() => {
+        document.getElementById(`question-handle-${target}`)?.focus();
+      });
+    }
   };
 
   const addOption = () => {
@@ -101,7 +320,7 @@ export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
     }
   };
 
-  const saveForm = async () => {
+  const saveForm = () => {
     if (!formData.title.trim()) {
       toast({
         title: 'Error',
@@ -111,63 +330,148 @@ export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
       return;
     }
 
-    if (questions.length === 0) {
+    if (
+      formData.opens_at &&
+      formData.closes_at &&
+      new Date(formData.closes_at) <= new Date(formData.opens_at)
+    ) {
       toast({
         title: 'Error',
-        description: 'At least one question is required',
+        description: 'The closing time must be after the opening time',
         variant: 'destructive',
       });
       return;
     }
 
-    setLoading(true);
-    try {
-      // Create the form
-      const { data: formData_result, error: formError } = await supabase
-        .from('forms')
-        .insert({
-          title: formData.title,
-          description: formData.description,
-          creator_id: (await supabase.auth.getUser()).data.user?.id,
-        })
-        .select()
-        .single();
-
-      if (formError) throw formError;
+    if (
+      formData.max_responses &&
+      !(Number.isInteger(Number(formData.max_responses)) && Number(formData.max_responses) > 0)
+    ) {
+      toast({
+        title: 'Error',
+        description: 'Maximum responses must be a positive whole number',
+        variant: 'destructive',
+      });
+      return;
+    }
 
-      // Create the questions
-      const questionsToInsert = questions.map(question => ({
-        form_id: formData_result.id,
-        question_text: question.question_text,
-        question_type: question.question_type,
-        options: question.options,
-        is_required: question.is_required,
-        order_index: question.order_index,
-      }));
+    const draftExpiryDays = Number(formData.draft_expiry_days);
+    if (
+      formData.allow_drafts &&
+      !(Number.isInteger(draftExpiryDays) && draftExpiryDays >= 1 && draftExpiryDays <= MAX_DRAFT_EXPIRY_DAYS)
+    ) {
+      toast({
+        title: 'Error',
+        description: `Saved answers must be kept for 1 to ${MAX_DRAFT_EXPIRY_DAYS} days`,
+        variant: 'destructive',
+      });
+      return;
+    }
 
-      const { error: questionsError } = await supabase
-        .from('form_questions')
-        .insert(questionsToInsert);
+    if (questions.every(q => isSection(q.question_type))) {
+      toast({
+        title: 'Error',
+        description: 'At least one question is required',
+        variant: 'destructive',
+      });
+      return;
+    }
 
-      if (questionsError) throw questionsError;
+    const confirmationProblems = findConfirmationProblems(confirmation, questions);
+    if (confirmationProblems.length > 0) {
+      toast({
+        title: 'Error',
+        description: confirmationProblems[0],
+        variant: 'destructive',
+      });
+      return;
+    }
 
+    const ruleProblems = findRuleProblems(questions);
+    if (ruleProblems.length > 0) {
       toast({
-        title: 'Success',
-        description: 'Form created successfully!',
+        title: 'Error',
+        description: ruleProblems[0],
+        variant: 'destructive',
       });
+      return;
+    }
 
-      onFormCreated();
-    } catch (error: any) {
+    const pipeProblems = findPipeProblems(questions);
+    if (pipeProblems.length > 0) {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to create form',
+        description: pipeProblems[0],
         variant: 'destructive',
       });
-    } finally {
-      setLoading(false);
+      return;
     }
+
+    saveFormMutation.mutate(
+      {
+        formId,
+        settings: {
+          title: formData.title,
+          description: formData.description,
+          opens_at: fromLocalDateTimeInput(formData.opens_at),
+          closes_at: fromLocalDateTimeInput(formData.closes_at),
+          max_responses: formData.max_responses ? Number(formData.max_responses) : null,
+          draft_expiry_days: formData.allow_drafts ? draftExpiryDays : null,
+          captcha_required: formData.captcha_required,
+          one_response_per: formData.one_response_per,
+          allow_response_edits: formData.allow_response_edits,
+          notify_on_response: formData.notify_on_response,
+          theme: normalizeTheme(theme),
+          confirmation: normalizeConfirmation(confirmation),
+        },
+        questions,
+      },
+      {
+        onSuccess: () => {
+          setPersistedIds(questions.map(q => q.id));
+          toast({
+            title: 'Success',
+            description: isEditing ? 'Form updated successfully!' : 'Form created successfully!',
+          });
+          onFormSaved();
+        },
+        onError: (error) => {
+          toast({
+            title: 'Error',
+            description: error.message || (isEditing ? 'Failed to update form' : 'Failed to create form'),
+            variant: 'destructive',
+          });
+        },
+      }
+    );
   };
 
+  const questionLabels = getQuestionLabels(questions);
+  // Answers are stored in a format that depends on the type, so a saved
+  // question can't switch to another one
+  const typeLocked = Boolean(editingQuestionId) && persistedIds.includes(editingQuestionId);
+  // Questions the one being edited may depend on or recall answers from
+  const earlierQuestions = (editingQuestionId
+    ? questions.slice(0, questions.findIndex(q => q.id === editingQuestionId))
+    : questions
+  )
+    .filter(q => !isSection(q.question_type))
+    .map(q => ({ ...q, question_text: describePipes(q.question_text, questions) }));
+
+  if (!initialized) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p>
+          {formError || questionsError
+            ? 'Failed to load form'
+            : form === null
+              ? 'Form not found'
+              : 'Loading form...'}
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
@@ -178,7 +482,9 @@ export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
             </Button>
             <div>
               <h1 className="text-2xl font-bold">Form Builder</h1>
-              <p className="text-muted-foreground">Create a new feedback form</p>
+              <p className="text-muted-foreground">
+                {isEditing ? 'Edit your feedback form' : 'Create a new feedback form'}
+              </p>
             </div>
           </div>
         </div>
@@ -214,42 +520,309 @@ export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
             </CardContent>
           </Card>
 
+          {/* Availability */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Availability</CardTitle>
+              <CardDescription>
+                Optionally limit when the form accepts responses and how many it accepts
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="form-opens-at">Opens (Optional)</Label>
+                <Input
+                  id="form-opens-at"
+                  type="datetime-local"
+                  value={formData.opens_at}
+                  onChange={(e) => setFormData({ ...formData, opens_at: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="form-closes-at">Closes (Optional)</Label>
+                <Input
+                  id="form-closes-at"
+                  type="datetime-local"
+                  value={formData.closes_at}
+                  onChange={(e) => setFormData({ ...formData, closes_at: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="form-max-responses">Maximum Responses (Optional)</Label>
+                <Input
+                  id="form-max-responses"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={formData.max_responses}
+                  onChange={(e) => setFormData({ ...formData, max_responses: e.target.value })}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 md:col-span-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="form-allow-drafts"
+                    checked={formData.allow_drafts}
+                    onCheckedChange={(checked) => setFormData({ ...formData, allow_drafts: checked === true })}
+                  />
+                  <Label htmlFor="form-allow-drafts">Let respondents save and continue later</Label>
+                </div>
+                {formData.allow_drafts && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="form-draft-expiry-days" className="font-normal text-muted-foreground">
+                      Keep saved answers for
+                    </Label>
+                    <Input
+                      id="form-draft-expiry-days"
+                      type="number"
+                      min={1}
+                      max={MAX_DRAFT_EXPIRY_DAYS}
+                      className="w-20"
+                      value={formData.draft_expiry_days}
+                      onChange={(e) => setFormData({ ...formData, draft_expiry_days: e.target.value })}
+                    />
+                    <span className="text-sm text-muted-foreground">days</span>
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2 md:col-span-3">
+                <Label>Responses per person</Label>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                  <Select
+                    value={formData.one_response_per ?? UNLIMITED_RESPONSES}
+                    onValueChange={(value) =>
+                      setFormData({
+                        ...formData,
+                        one_response_per: value === UNLIMITED_RESPONSES ? null : (value as RespondentMode),
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNLIMITED_RESPONSES}>Any number</SelectItem>
+                      {RESPONDENT_MODES.map(mode => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.one_response_per && (
+                  <p className="text-sm text-muted-foreground">
+                    {RESPONDENT_MODES.find(mode => mode.value === formData.one_response_per)?.description}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-1 md:col-span-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="form-allow-response-edits"
+                    checked={formData.allow_response_edits}
+                    onCheckedChange={(checked) => setFormData({ ...formData, allow_response_edits: checked === true })}
+                  />
+                  <Label htmlFor="form-allow-response-edits">Let respondents edit their response</Label>
+                </div>
+                {formData.allow_response_edits && (
+                  <p className="text-sm text-muted-foreground">
+                    {canEditResponses(formData.one_response_per, formData.allow_response_edits)
+                      ? 'While the form is open, respondents can change their answers by coming back to the form or through a private link shown after submitting.'
+                      : 'While the form is open, respondents can change their answers through a private link shown after submitting.'}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-1 md:col-span-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="form-captcha-required"
+                    checked={formData.captcha_required}
+                    disabled={!captchaConfig && !formData.captcha_required}
+                    onCheckedChange={(checked) => setFormData({ ...formData, captcha_required: checked === true })}
+                  />
+                  <Label htmlFor="form-captcha-required">Require a CAPTCHA before submitting</Label>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {captchaConfig
+                    ? 'Responses are always rate-limited per network and checked for signs of spam.'
+                    : 'No CAPTCHA provider is set up for this site. Responses are still rate-limited per network and checked for signs of spam.'}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Notifications */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Notifications</CardTitle>
+              <CardDescription>
+                Emails about new responses, sent to {user?.email ?? "your account's email address"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label>Email me</Label>
+              <Select
+                value={formData.notify_on_response}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, notify_on_response: value as NotificationFrequency })
+                }
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTIFICATION_FREQUENCIES.map(frequency => (
+                    <SelectItem key={frequency.value} value={frequency.value}>
+                      {frequency.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {NOTIFICATION_FREQUENCIES.find(frequency => frequency.value === formData.notify_on_response)?.description}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Appearance */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Appearance</CardTitle>
+              <CardDescription>
+                Colors, font, images and button labels respondents see on the public form
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FormThemeEditor
+                theme={theme}
+                onChange={setTheme}
+                title={formData.title}
+                description={formData.description}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Confirmation */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Confirmation</CardTitle>
+              <CardDescription>What respondents see after they submit the form</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConfirmationEditor questions={questions} confirmation={confirmation} onChange={setConfirmation} />
+            </CardContent>
+          </Card>
+
           {/* Add Question */}
           <Card>
             <CardHeader>
-              <CardTitle>Add Question</CardTitle>
-              <CardDescription>Create questions for your feedback form</CardDescription>
+              <CardTitle>{editingQuestionId ? 'Edit Question' : 'Add Question'}</CardTitle>
+              <CardDescription>
+                {editingQuestionId
+                  ? 'Update the selected question'
+                  : 'Create questions for your feedback form'}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="question-text">Question Text</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="question-text">
+                    {isSection(newQuestion.question_type) ? 'Section Title' : 'Question Text'}
+                  </Label>
+                  <AnswerPipeMenu
+                    candidates={earlierQuestions}
+                    onInsert={(placeholder) =>
+                      setNewQuestion({
+                        ...newQuestion,
+                        question_text: appendPlaceholder(newQuestion.question_text, placeholder),
+                      })
+                    }
+                  />
+                </div>
                 <Input
                   id="question-text"
-                  placeholder="Enter your question"
+                  placeholder={isSection(newQuestion.question_type) ? 'Enter section title' : 'Enter your question'}
                   value={newQuestion.question_text}
                   onChange={(e) => setNewQuestion({ ...newQuestion, question_text: e.target.value })}
                 />
+                {getPipedQuestionIds(newQuestion.question_text).length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Shown as: {describePipes(newQuestion.question_text, questions)}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="question-description">Description (Optional)</Label>
+                  <AnswerPipeMenu
+                    candidates={earlierQuestions}
+                    onInsert={(placeholder) =>
+                      setNewQuestion({
+                        ...newQuestion,
+                        description: appendPlaceholder(newQuestion.description, placeholder),
+                      })
+                    }
+                  />
+                </div>
+                <Textarea
+                  id="question-description"
+                  placeholder={
+                    isSection(newQuestion.question_type)
+                      ? 'Shown at the top of this page'
+                      : 'Help text shown below the question'
+                  }
+                  value={newQuestion.description}
+                  onChange={(e) => setNewQuestion({ ...newQuestion, description: e.target.value })}
+                />
+                {getPipedQuestionIds(newQuestion.description).length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Shown as: {describePipes(newQuestion.description, questions)}
+                  </p>
+                )}
               </div>
               
               <div className="space-y-2">
                 <Label>Question Type</Label>
                 <Select
                   value={newQuestion.question_type}
-                  onValueChange={(value: 'text' | 'multiple_choice') => 
+                  onValueChange={(value: QuestionType) => 
                     setNewQuestion({ ...newQuestion, question_type: value })
                   }
+                  disabled={typeLocked}
                 >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="text">Text Input</SelectItem>
-                    <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
+                    {QUESTION_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                {typeLocked && (
+                  <p className="text-sm text-muted-foreground">
+                    Saved questions keep their type, as answers already collected may not fit another one. Add a
+                    new question to ask it differently.
+                  </p>
+                )}
+                {isSection(newQuestion.question_type) && (
+                  <p className="text-sm text-muted-foreground">
+                    Starts a new page. Questions after it are shown on that page until the next section.
+                  </p>
+                )}
+                {SCALE_RANGES[newQuestion.question_type] && (
+                  <p className="text-sm text-muted-foreground">
+                    Respondents pick a value from {SCALE_RANGES[newQuestion.question_type].min} to{' '}
+                    {SCALE_RANGES[newQuestion.question_type].max}.
+                  </p>
+                )}
               </div>
 
-              {newQuestion.question_type === 'multiple_choice' && (
+              {hasOptions(newQuestion.question_type) && (
                 <div className="space-y-2">
                   <Label>Options</Label>
                   {newQuestion.options.map((option, index) => (
@@ -277,21 +850,51 @@ export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
                 </div>
               )}
 
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="required"
-                  checked={newQuestion.is_required}
-                  onCheckedChange={(checked) => 
-                    setNewQuestion({ ...newQuestion, is_required: checked as boolean })
-                  }
+              {isFileUpload(newQuestion.question_type) && (
+                <FileLimitsEditor
+                  limits={newQuestion.file_limits}
+                  onChange={(file_limits) => setNewQuestion({ ...newQuestion, file_limits })}
+                />
+              )}
+
+              {!isSection(newQuestion.question_type) && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="required"
+                    checked={newQuestion.is_required}
+                    onCheckedChange={(checked) => 
+                      setNewQuestion({ ...newQuestion, is_required: checked as boolean })
+                    }
+                  />
+                  <Label htmlFor="required">Required question</Label>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Display Logic</Label>
+                <VisibilityRuleEditor
+                  subject={isSection(newQuestion.question_type) ? 'section' : 'question'}
+                  rule={newQuestion.visibility}
+                  onChange={(visibility) => setNewQuestion({ ...newQuestion, visibility })}
+                  candidates={earlierQuestions}
                 />
-                <Label htmlFor="required">Required question</Label>
               </div>
 
-              <Button onClick={addQuestion}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Question
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={addQuestion}>
+                  {editingQuestionId ? (
+                    <Pencil className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  {editingQuestionId ? 'Update Question' : 'Add Question'}
+                </Button>
+                {editingQuestionId && (
+                  <Button variant="outline" onClick={cancelEdit}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
             </CardContent>
           </Card>
 
@@ -300,36 +903,103 @@ export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
             <Card>
               <CardHeader>
                 <CardTitle>Questions ({questions.length})</CardTitle>
-                <CardDescription>Preview of your form questions</CardDescription>
+                <CardDescription>
+                  Drag questions by the handle to reorder them, or focus the handle and use the arrow keys
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
                   {questions.map((question, index) => (
-                    <div key={question.id} className="flex items-start gap-4 p-4 border rounded-lg">
-                      <GripVertical className="h-5 w-5 text-muted-foreground mt-1" />
+                    <div
+                      key={question.id}
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, index)}
+                      onDragOver={(e) => handleDragOver(e, index)}
+                      onDrop={(e) => e.preventDefault()}
+                      onDragEnd={handleDragEnd}
+                      className={cn(
+                        'flex items-start gap-4 p-4 border rounded-lg bg-card',
+                        isSection(question.question_type) && 'bg-muted',
+                        editingQuestionId === question.id && 'border-primary',
+                        dragIndex === index && 'opacity-50'
+                      )}
+                    >
+                      <button
+                        type="button"
+                        id={`question-handle-${index}`}
+                        aria-label={`Reorder question ${index + 1}. Use the up and down arrow keys to move it.`}
+                        onKeyDown={(e) => handleGripKeyDown(e, index)}
+                        className="mt-1 cursor-grab rounded text-muted-foreground focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      >
+                        <GripVertical className="h-5 w-5" />
+                      </button>
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
-                          <span className="font-medium">Q{index + 1}. {question.question_text}</span>
+                          <span className="font-medium">
+                            {isSection(question.question_type)
+                              ? describePipes(question.question_text, questions)
+                              : `${questionLabels[index]}. ${describePipes(question.question_text, questions)}`}
+                          </span>
                           {question.is_required && (
                             <Badge variant="destructive" className="text-xs">Required</Badge>
                           )}
                           <Badge variant="secondary" className="text-xs">
-                            {question.question_type === 'text' ? 'Text' : 'Multiple Choice'}
+                            {getQuestionTypeLabel(question.question_type)}
                           </Badge>
+                          {hasConditions(question.visibility) && (
+                            <Badge variant="outline" className="text-xs">Conditional</Badge>
+                          )}
                         </div>
-                        {question.options && (
+                        {question.description && (
+                          <div className="text-sm text-muted-foreground mb-1">
+                            {describePipes(question.description, questions)}
+                          </div>
+                        )}
+                        {hasOptions(question.question_type) && question.options && (
                           <div className="text-sm text-muted-foreground">
                             Options: {question.options.join(', ')}
                           </div>
                         )}
+                        {isFileUpload(question.question_type) && (
+                          <div className="text-sm text-muted-foreground">
+                            Up to {getFileLimits(question.file_limits).max_files} file(s),{' '}
+                            {getFileLimits(question.file_limits).max_size_mb} MB each:{' '}
+                            {describeAllowedTypes(getFileLimits(question.file_limits).allowed_types)}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveQuestion(index, -1)}
+                          disabled={index === 0}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveQuestion(index, 1)}
+                          disabled={index === questions.length - 1}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => editQuestion(question)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeQuestion(question.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeQuestion(question.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
                     </div>
                   ))}
                 </div>
@@ -342,8 +1012,8 @@ export const FormBuilder = ({ onClose, onFormCreated }: FormBuilderProps) => {
             <Button variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button onClick={saveForm} disabled={loading}>
-              {loading ? 'Saving...' : 'Save Form'}
+            <Button onClick={saveForm} disabled={saveFormMutation.isPending}>
+              {saveFormMutation.isPending ? 'Saving...' : 'Save Form'}
             </Button>
           </div>
         </div>
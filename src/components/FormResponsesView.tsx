@@ -1,30 +1,55 @@
-import { useEffect, useState } from 'react';
+import { MouseEvent, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Download, BarChart3 } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { ArrowLeft, Download, BarChart3, AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface Form {
-  id: string;
-  title: string;
-  description: string;
-}
-
-interface Question {
-  id: string;
-  question_text: string;
-  question_type: string;
-  order_index: number;
-}
-
-interface Response {
-  id: string;
-  submitted_at: string;
-  answers: Record<string, string>;
-}
+import { useResponseFeed } from '@/hooks/useResponseFeed';
+import { formatAnswer, isFileUpload, isSection, parseFileAnswer } from '@/lib/questionTypes';
+import { describePipes } from '@/lib/piping';
+import {
+  RESPONSES_PAGE_SIZE,
+  ResponseQuery,
+  SORT_BY_SUBMITTED,
+  getPageWindow,
+  getStatusLabel,
+  hasActiveFilters,
+  parseResponseQuery,
+  toSearchArgs,
+  toSearchParams,
+} from '@/lib/responseQuery';
+import { ResponseSummary } from '@/components/ResponseSummary';
+import { ResponseFilters } from '@/components/ResponseFilters';
+import { ExportDialog } from '@/components/ExportDialog';
+import { FileAnswer } from '@/components/FileAnswer';
+import { ResponseEditHistory } from '@/components/ResponseEditHistory';
+import { useForm, useFormQuestions } from '@/data/forms';
+import {
+  fetchResponse,
+  useDeleteEmptyResponses,
+  useFormResponses,
+  useResponseEdits,
+  useResponseSummary,
+  useResponseStats,
+} from '@/data/responses';
+import { useSignedFileUrls } from '@/data/storage';
+import { responseKeys } from '@/data/keys';
+import { FormResponse, ResponseStats } from '@/data/types';
 
 interface FormResponsesViewProps {
   formId: string;
@@ -33,119 +58,150 @@ interface FormResponsesViewProps {
 
 export const FormResponsesView = ({ formId, onBack }: FormResponsesViewProps) => {
   const { toast } = useToast();
-  const [form, setForm] = useState<Form | null>(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [responses, setResponses] = useState<Response[]>([]);
-  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryClient = useQueryClient();
+  const [exportOpen, setExportOpen] = useState(false);
+  // The response whose edit history is open
+  const [historyResponse, setHistoryResponse] = useState<FormResponse | null>(null);
 
-  useEffect(() => {
-    fetchFormData();
-  }, [formId]);
-
-  const fetchFormData = async () => {
-    try {
-      // Fetch form details
-      const { data: formData, error: formError } = await supabase
-        .from('forms')
-        .select('id, title, description')
-        .eq('id', formId)
-        .single();
+  const query = useMemo(() => parseResponseQuery(searchParams), [searchParams]);
+  // The summary charts are aggregated on the server, the table shows one page
+  const tab = searchParams.get('tab') === 'responses' ? 'responses' : 'summary';
+  const paged = tab === 'responses';
 
-      if (formError) throw formError;
-      setForm(formData);
+  const { data: form, isLoading: loadingForm } = useForm(formId);
+  const { data: allQuestions = [], isLoading: loadingQuestions } = useFormQuestions(formId);
+  // Recalled answers differ per response, so headings show "[Q2]" in their place
+  const questions = useMemo(
+    () => allQuestions
+      .filter(q => !isSection(q.question_type))
+      .map(q => ({ ...q, question_text: describePipes(q.question_text, allQuestions) })),
+    [allQuestions]
+  );
+  const { data: stats = { total: 0, empty: 0, latest: null } } = useResponseStats(formId);
+  const { data: page, isFetching: loadingResponses, isPlaceholderData: stalePage } = useFormResponses(
+    formId, query, { enabled: paged }
+  );
+  const { data: summary, isFetching: loadingSummary } = useResponseSummary(formId, query, { enabled: !paged });
+  const deleteEmpty = useDeleteEmptyResponses(formId);
+  const responses = (paged && page?.responses) || [];
+  // Links to the files shown on the current page of the table, signed in one go
+  const fileQuestions = questions.filter(q => isFileUpload(q.question_type));
+  const { data: fileUrls = {} } = useSignedFileUrls(
+    responses.flatMap(r => fileQuestions.flatMap(q => parseFileAnswer(r.answers[q.id])))
+  );
+  const { data: edits = {} } = useResponseEdits(formId, responses.map(r => r.id));
+  const matchCount = (paged ? page?.total : summary?.total) ?? 0;
+  const loading = loadingForm || loadingQuestions;
+  const pageCount = Math.max(1, Math.ceil(matchCount / RESPONSES_PAGE_SIZE));
 
-      // Fetch questions
-      const { data: questionsData, error: questionsError } = await supabase
-        .from('form_questions')
-        .select('id, question_text, question_type, order_index')
-        .eq('form_id', formId)
-        .order('order_index');
+  // A page past the end, e.g. from an old link; start over from the first
+  const pastLastPage = Boolean(page) && !stalePage && page.responses.length === 0 && query.page > 1;
+  useEffect(() => {
+    if (pastLastPage) {
+      setSearchParams(toSearchParams({ ...query, page: 1 }, searchParams));
+    }
+  }, [pastLastPage, query, searchParams, setSearchParams]);
 
-      if (questionsError) throw questionsError;
-      setQuestions(questionsData);
+  // New submissions appear without a reload. When the table shows the newest
+  // responses first and nothing is filtered out they are simply prepended;
+  // otherwise the list or summary is fetched again, since only the server
+  // knows where the new response belongs.
+  useResponseFeed(formId, (inserted) => {
+    queryClient.setQueryData<ResponseStats>(responseKeys.stats(formId), current =>
+      current && { ...current, total: current.total + 1, latest: inserted.submitted_at }
+    );
+    toast({
+      title: 'New response',
+      description: `"${form?.title}" just received a response`,
+    });
 
-      // Fetch responses with answers
-      const { data: responsesData, error: responsesError } = await supabase
-        .from('form_responses')
-        .select(`
-          id,
-          submitted_at,
-          question_responses!inner(
-            question_id,
-            answer_text
-          )
-        `)
-        .eq('form_id', formId)
-        .order('submitted_at', { ascending: false });
+    const newestFirst = paged
+      && query.page === 1 && query.sort === SORT_BY_SUBMITTED && query.dir === 'desc';
+    if (newestFirst && !hasActiveFilters(query)) {
+      prependResponse(inserted.id);
+    } else {
+      queryClient.invalidateQueries({ queryKey: responseKeys.lists(formId) });
+    }
+  });
 
-      if (responsesError) throw responsesError;
+  const prependResponse = async (responseId: string) => {
+    // Not fatal: the response shows up with the next fetch
+    const response = await fetchResponse(formId, responseId).catch(() => null);
+    if (!response) return;
 
-      // Transform responses data
-      const transformedResponses = responsesData.map(response => {
-        const answers: Record<string, string> = {};
-        response.question_responses.forEach((qr: any) => {
-          answers[qr.question_id] = qr.answer_text || '';
-        });
+    queryClient.setQueryData<typeof page>(responseKeys.list(formId, query), current => {
+      if (!current) return current;
+      const updated = [response, ...current.responses.filter(r => r.id !== response.id)];
+      return {
+        responses: updated.slice(0, RESPONSES_PAGE_SIZE),
+        total: current.total + 1,
+      };
+    });
+  };
 
-        return {
-          id: response.id,
-          submitted_at: response.submitted_at,
-          answers,
-        };
-      });
+  // Changing anything but the page goes back to the first page
+  const updateQuery = (changes: Partial<ResponseQuery>) => {
+    setSearchParams(toSearchParams({ ...query, page: 1, ...changes }, searchParams));
+  };
 
-      setResponses(transformedResponses);
-    } catch (error: any) {
-      toast({
-        title: 'Error',
-        description: 'Failed to fetch form data',
-        variant: 'destructive',
-      });
-    } finally {
-      setLoading(false);
+  const changeTab = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value === 'responses') {
+      params.set('tab', value);
+    } else {
+      params.delete('tab');
     }
+    setSearchParams(params);
   };
 
-  const exportToCSV = () => {
-    if (responses.length === 0) {
-      toast({
-        title: 'No data',
-        description: 'No responses to export',
-        variant: 'destructive',
-      });
-      return;
+  const toggleSort = (column: string) => {
+    if (query.sort === column) {
+      updateQuery({ dir: query.dir === 'asc' ? 'desc' : 'asc' });
+    } else {
+      // Newest first for dates, A-Z / low-high for answers
+      updateQuery({ sort: column, dir: column === SORT_BY_SUBMITTED ? 'desc' : 'asc' });
     }
+  };
 
-    // Create CSV headers
-    const headers = ['Submission Date', ...questions.map(q => q.question_text)];
-    
-    // Create CSV rows
-    const rows = responses.map(response => [
-      new Date(response.submitted_at).toLocaleString(),
-      ...questions.map(q => response.answers[q.id] || '')
-    ]);
+  // The detail page keeps the list's parameters for prev/next and the way back
+  const openResponse = (responseId: string) => {
+    navigate(`/forms/${formId}/responses/${responseId}?${searchParams}`);
+  };
 
-    // Combine headers and rows
-    const csvContent = [headers, ...rows]
-      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
-      .join('\n');
+  const pageHref = (page: number) => `?${toSearchParams({ ...query, page }, searchParams)}`;
 
-    // Download CSV
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${form?.title}-responses.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const goToPage = (page: number) => (e: MouseEvent) => {
+    e.preventDefault();
+    if (page >= 1 && page <= pageCount && page !== query.page) {
+      updateQuery({ page });
+    }
+  };
 
-    toast({
-      title: 'Export completed',
-      description: 'CSV file has been downloaded',
+  const deleteEmptyResponses = () => {
+    deleteEmpty.mutate(undefined, {
+      onSuccess: (deleted) => {
+        toast({
+          title: 'Cleanup completed',
+          description: `Removed ${deleted} empty response${deleted === 1 ? '' : 's'}`,
+        });
+      },
     });
   };
 
+  const renderSortableHead = (column: string, label: string, className?: string) => {
+    const SortIcon = query.sort !== column ? ArrowUpDown : query.dir === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead key={column} className={className}>
+        <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(column)}>
+          {label}
+          <SortIcon className="ml-2 h-4 w-4" />
+        </Button>
+      </TableHead>
+    );
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -162,6 +218,9 @@ export const FormResponsesView = ({ formId, onBack }: FormResponsesViewProps) =>
     );
   }
 
+  const firstShown = (query.page - 1) * RESPONSES_PAGE_SIZE + 1;
+  const lastShown = firstShown + responses.length - 1;
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
@@ -175,9 +234,9 @@ export const FormResponsesView = ({ formId, onBack }: FormResponsesViewProps) =>
               <p className="text-muted-foreground">Form Responses</p>
             </div>
             <div className="flex gap-2">
-              <Button variant="outline" onClick={exportToCSV} disabled={responses.length === 0}>
+              <Button variant="outline" onClick={() => setExportOpen(true)} disabled={matchCount === 0}>
                 <Download className="mr-2 h-4 w-4" />
-                Export CSV
+                Export
               </Button>
             </div>
           </div>
@@ -193,7 +252,12 @@ export const FormResponsesView = ({ formId, onBack }: FormResponsesViewProps) =>
               <BarChart3 className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{responses.length}</div>
+              <div className="text-2xl font-bold">{stats.total}</div>
+              {hasActiveFilters(query) && (
+                <p className="text-xs text-muted-foreground">
+                  {matchCount} match{matchCount === 1 ? 'es' : ''} the current filters
+                </p>
+              )}
             </CardContent>
           </Card>
           
@@ -214,8 +278,8 @@ export const FormResponsesView = ({ formId, onBack }: FormResponsesViewProps) =>
             </CardHeader>
             <CardContent>
               <div className="text-sm">
-                {responses.length > 0 
-                  ? new Date(responses[0].submitted_at).toLocaleDateString()
+                {stats.latest
+                  ? new Date(stats.latest).toLocaleDateString()
                   : 'No responses yet'
                 }
               </div>
@@ -223,55 +287,207 @@ export const FormResponsesView = ({ formId, onBack }: FormResponsesViewProps) =>
           </Card>
         </div>
 
-        {/* Responses Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle>All Responses</CardTitle>
-            <CardDescription>
-              Detailed view of all form submissions
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {responses.length === 0 ? (
-              <div className="text-center py-8">
-                <p className="text-muted-foreground">No responses yet</p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Share your form link to start collecting feedback
-                </p>
+        {stats.empty > 0 && (
+          <Alert className="mb-8">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {stats.empty} response{stats.empty === 1 ? ' has' : 's have'} no answers
+            </AlertTitle>
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-4">
+              <span>
+                This happens when every question a respondent answered has since been deleted.
+                Removing them keeps response counts accurate.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={deleteEmptyResponses}
+                disabled={deleteEmpty.isPending}
+              >
+                {deleteEmpty.isPending ? 'Removing...' : 'Remove Empty Responses'}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="mb-8">
+          <ResponseFilters questions={questions} query={query} onApply={updateQuery} />
+        </div>
+
+        <Tabs value={tab} onValueChange={changeTab}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="summary">Summary</TabsTrigger>
+            <TabsTrigger value="responses">Responses</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="summary">
+            {summary ? (
+              <div className={loadingSummary ? 'opacity-60' : undefined}>
+                <ResponseSummary questions={questions} summary={summary} />
               </div>
             ) : (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Submitted</TableHead>
-                      {questions.map((question) => (
-                        <TableHead key={question.id} className="min-w-[200px]">
-                          {question.question_text}
-                        </TableHead>
-                      ))}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {responses.map((response) => (
-                      <TableRow key={response.id}>
-                        <TableCell className="font-medium">
-                          {new Date(response.submitted_at).toLocaleString()}
-                        </TableCell>
-                        {questions.map((question) => (
-                          <TableCell key={question.id}>
-                            {response.answers[question.id] || '-'}
-                          </TableCell>
-                        ))}
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
+              <p className="text-center text-muted-foreground py-8">Loading summary...</p>
             )}
-          </CardContent>
-        </Card>
+          </TabsContent>
+
+          <TabsContent value="responses">
+            {/* Responses Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{hasActiveFilters(query) ? 'Matching Responses' : 'All Responses'}</CardTitle>
+                <CardDescription>
+                  {matchCount > 0
+                    ? `Showing ${firstShown}-${lastShown} of ${matchCount}`
+                    : 'Detailed view of all form submissions'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {matchCount === 0 && !loadingResponses ? (
+                  <div className="text-center py-8">
+                    {stats.total === 0 ? (
+                      <>
+                        <p className="text-muted-foreground">No responses yet</p>
+                        <p className="text-sm text-muted-foreground mt-2">
+                          Share your form link to start collecting feedback
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground">No responses match the current filters</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className={loadingResponses ? 'opacity-60' : undefined}>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            {renderSortableHead(SORT_BY_SUBMITTED, 'Submitted')}
+                            <TableHead>Status</TableHead>
+                            {questions.map((question) =>
+                              renderSortableHead(question.id, question.question_text, 'min-w-[200px]')
+                            )}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {responses.map((response) => (
+                            <TableRow
+                              key={response.id}
+                              className="cursor-pointer"
+                              onClick={() => openResponse(response.id)}
+                            >
+                              <TableCell className="font-medium">
+                                {new Date(response.submitted_at).toLocaleString()}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                  <Badge variant={response.status === 'new' ? 'default' : 'secondary'}>
+                                    {getStatusLabel(response.status)}
+                                  </Badge>
+                                  {response.is_spam && (
+                                    <Badge variant="destructive" className="whitespace-nowrap">Suspected spam</Badge>
+                                  )}
+                                  {edits[response.id] && (
+                                    <Badge
+                                      variant="outline"
+                                      className="cursor-pointer whitespace-nowrap"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setHistoryResponse(response);
+                                      }}
+                                    >
+                                      Edited{edits[response.id].length > 1 && ` ${edits[response.id].length}×`}
+                                    </Badge>
+                                  )}
+                                </div>
+                              </TableCell>
+                              {questions.map((question) => (
+                                <TableCell key={question.id}>
+                                  {isFileUpload(question.question_type) && response.answers[question.id] ? (
+                                    <FileAnswer
+                                      files={parseFileAnswer(response.answers[question.id])}
+                                      urls={fileUrls}
+                                      compact
+                                    />
+                                  ) : (
+                                    formatAnswer(question.question_type, response.answers[question.id]) || '-'
+                                  )}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+
+                    {pageCount > 1 && (
+                      <Pagination className="mt-4">
+                        <PaginationContent>
+                          <PaginationItem>
+                            <PaginationPrevious
+                              href={pageHref(Math.max(1, query.page - 1))}
+                              onClick={goToPage(query.page - 1)}
+                              aria-disabled={query.page === 1}
+                            />
+                          </PaginationItem>
+                          {getPageWindow(query.page, pageCount).map((page, index) => (
+                            <PaginationItem key={page ?? `gap-${index}`}>
+                              {page === null ? (
+                                <PaginationEllipsis />
+                              ) : (
+                                <PaginationLink
+                                  href={pageHref(page)}
+                                  onClick={goToPage(page)}
+                                  isActive={page === query.page}
+                                >
+                                  {page}
+                                </PaginationLink>
+                              )}
+                            </PaginationItem>
+                          ))}
+                          <PaginationItem>
+                            <PaginationNext
+                              href={pageHref(Math.min(pageCount, query.page + 1))}
+                              onClick={goToPage(query.page + 1)}
+                              aria-disabled={query.page === pageCount}
+                            />
+                          </PaginationItem>
+                        </PaginationContent>
+                      </Pagination>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </main>
+
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        form={form}
+        questions={questions}
+        query={query}
+        matchCount={matchCount}
+      />
+
+      <Dialog open={Boolean(historyResponse)} onOpenChange={(open) => !open && setHistoryResponse(null)}>
+        <DialogContent className="max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit History</DialogTitle>
+            <DialogDescription>
+              {historyResponse && `Response submitted ${new Date(historyResponse.submitted_at).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+          {historyResponse && (
+            <ResponseEditHistory
+              questions={questions}
+              edits={edits[historyResponse.id] ?? []}
+              answers={historyResponse.answers}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
-};
\ No newline at end of file
+};
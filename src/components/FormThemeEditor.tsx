@@ -0,0 +1,228 @@
+import { ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ChevronLeft, ChevronRight, Upload, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUploadFormAsset } from '@/data/storage';
+import {
+  DEFAULT_BUTTON_LABELS,
+  FormTheme,
+  THEME_FONTS,
+  ThemeFont,
+  ThemeMode,
+  getButtonLabels,
+} from '@/lib/formTheme';
+import { ThemedFormHeader, ThemedFormLayout } from './ThemedForm';
+
+interface FormThemeEditorProps {
+  theme: FormTheme;
+  onChange: (theme: FormTheme) => void;
+  // Shown in the preview
+  title: string;
+  description: string;
+}
+
+type ColorField = 'primary_color' | 'accent_color' | 'background_color';
+type ImageField = 'logo_url' | 'header_image_url' | 'background_image_url';
+
+const COLOR_FIELDS: { field: ColorField; label: string; fallback: string }[] = [
+  { field: 'primary_color', label: 'Primary color', fallback: '#0f172a' },
+  { field: 'accent_color', label: 'Accent color', fallback: '#f1f5f9' },
+  { field: 'background_color', label: 'Background color', fallback: '#ffffff' },
+];
+
+const IMAGE_FIELDS: { field: ImageField; label: string }[] = [
+  { field: 'logo_url', label: 'Logo' },
+  { field: 'header_image_url', label: 'Header image' },
+  { field: 'background_image_url', label: 'Background image' },
+];
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const FormThemeEditor = ({ theme, onChange, title, description }: FormThemeEditorProps) => {
+  const { toast } = useToast();
+  const uploadAsset = useUploadFormAsset();
+  const labels = getButtonLabels(theme);
+
+  const update = (changes: FormTheme) => onChange({ ...theme, ...changes });
+
+  const uploadImage = (field: ImageField) => (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/') || file.size > MAX_IMAGE_BYTES) {
+      toast({
+        title: 'Error',
+        description: 'Images must be PNG, JPEG, GIF, WebP or SVG files of up to 5 MB',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    uploadAsset.mutate(file, {
+      onSuccess: (url) => update({ [field]: url }),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Mode</Label>
+            <RadioGroup
+              value={theme.mode ?? 'light'}
+              onValueChange={(mode: ThemeMode) => update({ mode })}
+              className="flex gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="light" id="theme-light" />
+                <Label htmlFor="theme-light">Light</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="dark" id="theme-dark" />
+                <Label htmlFor="theme-dark">Dark</Label>
+              </div>
+            </RadioGroup>
+          </div>
+          <div className="space-y-2">
+            <Label>Font</Label>
+            <Select value={theme.font ?? 'sans'} onValueChange={(font: ThemeFont) => update({ font })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {THEME_FONTS.map(font => (
+                  <SelectItem key={font.value} value={font.value} style={{ fontFamily: font.stack }}>
+                    {font.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          {COLOR_FIELDS.map(({ field, label, fallback }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`theme-${field}`}>{label}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id={`theme-${field}`}
+                  type="color"
+                  className="h-10 w-16 p-1"
+                  value={theme[field] ?? fallback}
+                  onChange={(e) => update({ [field]: e.target.value })}
+                />
+                {theme[field] && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => update({ [field]: undefined })}>
+                    Reset
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          {IMAGE_FIELDS.map(({ field, label }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`theme-${field}`}>{label}</Label>
+              {theme[field] ? (
+                <div className="flex items-center gap-2">
+                  <img src={theme[field]} alt="" className="h-10 w-16 rounded border object-cover" />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => update({ [field]: null })}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button type="button" variant="outline" size="sm" asChild disabled={uploadAsset.isPending}>
+                  <label htmlFor={`theme-${field}`} className="cursor-pointer">
+                    <Upload className="mr-2 h-4 w-4" />
+                    {uploadAsset.isPending ? 'Uploading...' : 'Upload'}
+                    <input
+                      id={`theme-${field}`}
+                      type="file"
+                      accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+                      className="sr-only"
+                      onChange={uploadImage(field)}
+                      disabled={uploadAsset.isPending}
+                    />
+                  </label>
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="theme-submit-label">Submit button</Label>
+            <Input
+              id="theme-submit-label"
+              placeholder={DEFAULT_BUTTON_LABELS.submit}
+              value={theme.submit_label ?? ''}
+              onChange={(e) => update({ submit_label: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="theme-next-label">Next button</Label>
+            <Input
+              id="theme-next-label"
+              placeholder={DEFAULT_BUTTON_LABELS.next}
+              value={theme.next_label ?? ''}
+              onChange={(e) => update({ next_label: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="theme-back-label">Back button</Label>
+            <Input
+              id="theme-back-label"
+              placeholder={DEFAULT_BUTTON_LABELS.back}
+              value={theme.back_label ?? ''}
+              onChange={(e) => update({ back_label: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Preview</Label>
+        <ThemedFormLayout theme={theme} className="rounded-lg border p-4">
+          <Card>
+            <ThemedFormHeader
+              theme={theme}
+              title={title.trim() || 'Untitled form'}
+              description={description}
+            />
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>1. How did we do?</Label>
+                <Input placeholder="Your answer" readOnly />
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm">
+                  <ChevronLeft className="mr-2 h-4 w-4" />
+                  {labels.back}
+                </Button>
+                <Button type="button" size="sm" className="flex-1">
+                  {labels.next}
+                  <ChevronRight className="ml-2 h-4 w-4" />
+                </Button>
+                <Button type="button" size="sm" className="flex-1">
+                  {labels.submit}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </ThemedFormLayout>
+      </div>
+    </div>
+  );
+};
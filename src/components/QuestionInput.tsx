@@ -0,0 +1,244 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  QuestionType,
+  SCALE_RANGES,
+  encodeMultiAnswer,
+  parseMultiAnswer,
+} from '@/lib/questionTypes';
+import { FileLimits } from '@/lib/fileUploads';
+import { FileUploadInput, UploadTarget } from './FileUploadInput';
+
+interface QuestionInputProps {
+  question: {
+    id: string;
+    question_type: QuestionType;
+    options?: string[];
+    file_limits?: FileLimits | null;
+  };
+  value: string;
+  onChange: (value: string) => void;
+  invalid?: boolean;
+  // Where file upload questions store their files
+  uploadTarget?: UploadTarget;
+}
+
+const range = (min: number, max: number) =>
+  Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+export const QuestionInput = ({ question, value, onChange, invalid, uploadTarget }: QuestionInputProps) => {
+  const inputClassName = cn(invalid && 'border-destructive');
+
+  switch (question.question_type) {
+    case 'short_text':
+      return (
+        <Input
+          placeholder="Enter your answer..."
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      );
+
+    case 'number':
+    case 'email':
+    case 'url':
+    case 'phone':
+    case 'date':
+    case 'time': {
+      const inputTypes: Record<string, string> = {
+        number: 'number',
+        email: 'email',
+        url: 'url',
+        phone: 'tel',
+        date: 'date',
+        time: 'time',
+      };
+      const placeholders: Record<string, string> = {
+        number: 'Enter a number',
+        email: 'name@example.com',
+        url: 'https://example.com',
+        phone: '+1 555 123 4567',
+      };
+      return (
+        <Input
+          type={inputTypes[question.question_type]}
+          placeholder={placeholders[question.question_type]}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn('max-w-sm', inputClassName)}
+        />
+      );
+    }
+
+    case 'multiple_choice':
+      return (
+        <RadioGroup value={value} onValueChange={onChange}>
+          {question.options?.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center space-x-2">
+              <RadioGroupItem value={option} id={`${question.id}-${optionIndex}`} />
+              <Label
+                htmlFor={`${question.id}-${optionIndex}`}
+                className="font-normal cursor-pointer"
+              >
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case 'checkboxes': {
+      const selected = parseMultiAnswer(value);
+      const toggle = (option: string, checked: boolean) => {
+        const next = checked
+          ? [...selected, option]
+          : selected.filter(v => v !== option);
+        // Keep answers in option order regardless of click order
+        onChange(encodeMultiAnswer(question.options?.filter(o => next.includes(o)) ?? next));
+      };
+      return (
+        <div className="grid gap-2">
+          {question.options?.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${question.id}-${optionIndex}`}
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) => toggle(option, checked === true)}
+              />
+              <Label
+                htmlFor={`${question.id}-${optionIndex}`}
+                className="font-normal cursor-pointer"
+              >
+                {option}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'dropdown':
+      return (
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger className={cn('max-w-sm', inputClassName)}>
+            <SelectValue placeholder="Select an option" />
+          </SelectTrigger>
+          <SelectContent>
+            {question.options?.map((option, optionIndex) => (
+              <SelectItem key={optionIndex} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'linear_scale':
+    case 'nps': {
+      const { min, max } = SCALE_RANGES[question.question_type];
+      return (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2" role="radiogroup">
+            {range(min, max).map((n) => (
+              <Button
+                key={n}
+                type="button"
+                role="radio"
+                aria-checked={value === String(n)}
+                variant={value === String(n) ? 'default' : 'outline'}
+                size="sm"
+                className="w-10"
+                onClick={() => onChange(String(n))}
+              >
+                {n}
+              </Button>
+            ))}
+          </div>
+          {question.question_type === 'nps' && (
+            <div className="flex justify-between text-xs text-muted-foreground max-w-[32rem]">
+              <span>Not at all likely</span>
+              <span>Extremely likely</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case 'rating': {
+      const { min, max } = SCALE_RANGES.rating;
+      const current = Number(value) || 0;
+      return (
+        <div className="flex gap-1" role="radiogroup">
+          {range(min, max).map((n) => (
+            <button
+              key={n}
+              type="button"
+              role="radio"
+              aria-checked={current === n}
+              aria-label={`${n} star${n === 1 ? '' : 's'}`}
+              onClick={() => onChange(String(n))}
+              className="rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <Star
+                className={cn(
+                  'h-8 w-8',
+                  n <= current ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+                )}
+              />
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    case 'yes_no':
+      return (
+        <RadioGroup value={value} onValueChange={onChange} className="flex gap-6">
+          {[
+            { value: 'yes', label: 'Yes' },
+            { value: 'no', label: 'No' },
+          ].map((option) => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.value} id={`${question.id}-${option.value}`} />
+              <Label
+                htmlFor={`${question.id}-${option.value}`}
+                className="font-normal cursor-pointer"
+              >
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case 'file_upload':
+      return (
+        <FileUploadInput
+          question={question}
+          value={value}
+          onChange={onChange}
+          invalid={invalid}
+          target={uploadTarget}
+        />
+      );
+
+    case 'text':
+    default:
+      return (
+        <Textarea
+          placeholder="Enter your answer..."
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn('min-h-[100px]', inputClassName)}
+        />
+      );
+  }
+};
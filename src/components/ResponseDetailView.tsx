@@ -0,0 +1,384 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ChevronLeft, ChevronRight, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatAnswer, isFileUpload, isSection, parseFileAnswer } from '@/lib/questionTypes';
+import { pipeAnswers } from '@/lib/piping';
+import { RESPONSE_STATUSES, ResponseStatus, parseResponseQuery } from '@/lib/responseQuery';
+import { getSpamReasonLabel } from '@/lib/spamProtection';
+import { useForm, useFormQuestions } from '@/data/forms';
+import { useSignedFileUrls } from '@/data/storage';
+import {
+  useDeleteResponse,
+  useResponse,
+  useResponseEdits,
+  useResponseNeighbors,
+  useUpdateResponse,
+} from '@/data/responses';
+import { FileAnswer } from './FileAnswer';
+import { ResponseEditHistory } from './ResponseEditHistory';
+
+interface ResponseDetailViewProps {
+  formId: string;
+  responseId: string;
+}
+
+// One response in full. The responses list passes its search parameters along,
+// so prev/next walk the list in the order and with the filters it showed.
+export const ResponseDetailView = ({ formId, responseId }: ResponseDetailViewProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [notes, setNotes] = useState('');
+
+  const query = useMemo(() => parseResponseQuery(searchParams), [searchParams]);
+  const { data: form } = useForm(formId);
+  const { data: questions = [] } = useFormQuestions(formId);
+  const { data: response, isLoading: loading } = useResponse(formId, responseId);
+  const { data: neighbors } = useResponseNeighbors(formId, responseId, query);
+  const { data: edits = {} } = useResponseEdits(formId, [responseId]);
+  const { data: fileUrls = {} } = useSignedFileUrls(
+    response
+      ? questions.filter(q => isFileUpload(q.question_type)).flatMap(q => parseFileAnswer(response.answers[q.id]))
+      : []
+  );
+  const updateStatusMutation = useUpdateResponse(formId);
+  const saveNotesMutation = useUpdateResponse(formId);
+  const markSpamMutation = useUpdateResponse(formId);
+  const deleteResponseMutation = useDeleteResponse(formId);
+
+  useEffect(() => {
+    setNotes(response?.notes ?? '');
+  }, [responseId, response?.notes]);
+
+  const listUrl = `/forms/${formId}/responses?${searchParams}`;
+  const responseUrl = (id: string) => `/forms/${formId}/responses/${id}?${searchParams}`;
+
+  const updateStatus = (status: ResponseStatus) => {
+    updateStatusMutation.mutate(
+      { responseId, changes: { status } },
+      {
+        onError: () => {
+          toast({
+            title: 'Error',
+            description: 'Failed to update status',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  const saveNotes = () => {
+    saveNotesMutation.mutate(
+      { responseId, changes: { notes: notes.trim() || null } },
+      {
+        onSuccess: () => {
+          toast({
+            title: 'Notes saved',
+          });
+        },
+        onError: () => {
+          toast({
+            title: 'Error',
+            description: 'Failed to save notes',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  const markSpam = (isSpam: boolean) => {
+    markSpamMutation.mutate(
+      { responseId, changes: { is_spam: isSpam } },
+      {
+        onError: () => {
+          toast({
+            title: 'Error',
+            description: 'Failed to update spam flag',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  const deleteResponse = () => {
+    deleteResponseMutation.mutate(responseId, {
+      onSuccess: () => {
+        toast({
+          title: 'Response deleted',
+          description: 'The response and its answers have been removed',
+        });
+
+        const nextId = neighbors?.next_id ?? neighbors?.previous_id;
+        navigate(nextId ? responseUrl(nextId) : listUrl, { replace: true });
+      },
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p>Loading response...</p>
+      </div>
+    );
+  }
+
+  if (!response) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p>Response not found</p>
+        <Button variant="outline" onClick={() => navigate(listUrl)}>
+          Back to Responses
+        </Button>
+      </div>
+    );
+  }
+
+  let questionNumber = 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(listUrl)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold">{form?.title}</h1>
+              <p className="text-muted-foreground">
+                Response submitted {new Date(response.submitted_at).toLocaleString()}
+                {response.edited_at && `, last edited ${new Date(response.edited_at).toLocaleString()}`}
+              </p>
+            </div>
+            {neighbors && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {neighbors.position} of {neighbors.total_count}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!neighbors.previous_id}
+                  onClick={() => navigate(responseUrl(neighbors.previous_id))}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!neighbors.next_id}
+                  onClick={() => navigate(responseUrl(neighbors.next_id))}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="grid gap-6 md:grid-cols-3">
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle>Answers</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {questions.map((question) => {
+                if (isSection(question.question_type)) {
+                  return (
+                    <div key={question.id} className="space-y-1 pt-2">
+                      <h3 className="text-lg font-semibold">
+                        {pipeAnswers(question.question_text, questions, response.answers)}
+                      </h3>
+                      {question.description && (
+                        <p className="text-sm text-muted-foreground">
+                          {pipeAnswers(question.description, questions, response.answers)}
+                        </p>
+                      )}
+                      <Separator />
+                    </div>
+                  );
+                }
+
+                const answer = formatAnswer(question.question_type, response.answers[question.id]);
+                return (
+                  <div key={question.id} className="space-y-1">
+                    <p className="font-medium">
+                      Q{++questionNumber}. {pipeAnswers(question.question_text, questions, response.answers)}
+                    </p>
+                    {answer && isFileUpload(question.question_type) ? (
+                      <FileAnswer files={parseFileAnswer(response.answers[question.id])} urls={fileUrls} />
+                    ) : answer ? (
+                      <p className="whitespace-pre-wrap">{answer}</p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Not answered</p>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Review</CardTitle>
+                <CardDescription>Only visible to you</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={response.status} onValueChange={updateStatus}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESPONSE_STATUSES.map(status => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="response-notes">Internal notes</Label>
+                  <Textarea
+                    id="response-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Add a note about this response"
+                    rows={5}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={saveNotes}
+                    disabled={saveNotesMutation.isPending || notes.trim() === (response.notes ?? '')}
+                  >
+                    {saveNotesMutation.isPending ? 'Saving...' : 'Save Notes'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Submission
+                  {response.is_spam && <Badge variant="destructive">Suspected spam</Badge>}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                {response.spam_reasons.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-medium">Flagged when submitted</p>
+                    <ul className="list-disc pl-5 text-muted-foreground">
+                      {response.spam_reasons.map(reason => (
+                        <li key={reason}>{getSpamReasonLabel(reason)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <p className="font-medium">IP address</p>
+                  <p className="text-muted-foreground">{response.ip_address ?? 'Not recorded'}</p>
+                </div>
+                <div className="space-y-1">
+                  <p className="font-medium">Browser</p>
+                  <p className="break-words text-muted-foreground">{response.user_agent ?? 'Not recorded'}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => markSpam(!response.is_spam)}
+                  disabled={markSpamMutation.isPending}
+                >
+                  {response.is_spam ? (
+                    <>
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                      Not Spam
+                    </>
+                  ) : (
+                    <>
+                      <ShieldAlert className="mr-2 h-4 w-4" />
+                      Mark as Spam
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {edits[responseId] && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Edit History</CardTitle>
+                  <CardDescription>Changes the respondent made after submitting</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponseEditHistory
+                    questions={questions
+                      .filter(q => !isSection(q.question_type))
+                      .map(q => ({ ...q, question_text: pipeAnswers(q.question_text, questions, response.answers) }))}
+                    edits={edits[responseId]}
+                    answers={response.answers}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="w-full text-destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete Response
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete this response?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This permanently deletes the response and all of its answers. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    onClick={deleteResponse}
+                  >
+                    Delete Response
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { formatAnswer } from '@/lib/questionTypes';
+import { ResponseEdit } from '@/data/types';
+
+interface ResponseEditHistoryProps {
+  // The form's questions, without sections
+  questions: { id: string; question_text: string; question_type: string }[];
+  // Oldest first
+  edits: ResponseEdit[];
+  // The response's answers now, i.e. after the last edit
+  answers: Record<string, string>;
+}
+
+// What each of a respondent's edits changed, newest first. An edit stores the
+// answers it replaced, so what it changed them to is what the next edit
+// replaced, or the current answers for the last one.
+export const ResponseEditHistory = ({ questions, edits, answers }: ResponseEditHistoryProps) => {
+  const changes = edits.map((edit, index) => {
+    const before = edit.previous_answers;
+    const after = edits[index + 1]?.previous_answers ?? answers;
+    return {
+      edit,
+      changed: questions
+        .filter(q => (before[q.id] ?? '') !== (after[q.id] ?? ''))
+        .map(q => ({
+          question: q,
+          before: formatAnswer(q.question_type, before[q.id]),
+          after: formatAnswer(q.question_type, after[q.id]),
+        })),
+    };
+  }).reverse();
+
+  return (
+    <div className="space-y-4 text-sm">
+      {changes.map(({ edit, changed }) => (
+        <div key={edit.id} className="space-y-2">
+          <p className="font-medium">Edited {new Date(edit.edited_at).toLocaleString()}</p>
+          {changed.length === 0 ? (
+            <p className="text-muted-foreground">No answers changed</p>
+          ) : (
+            <ul className="space-y-2">
+              {changed.map(({ question, before, after }) => (
+                <li key={question.id} className="space-y-0.5">
+                  <p>{question.question_text}</p>
+                  <p className="whitespace-pre-wrap text-muted-foreground line-through">{before || 'Not answered'}</p>
+                  <p className="whitespace-pre-wrap">{after || 'Not answered'}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Filter, Plus, Search, Trash2, X } from 'lucide-react';
+import { CandidateQuestion, ConditionValueInput } from '@/components/VisibilityRuleEditor';
+import { ConditionOperator, RuleCondition, getDefaultOperator, getOperatorsForType } from '@/lib/formRules';
+import {
+  RESPONSE_STATUSES,
+  ResponseQuery,
+  ResponseStatus,
+  SPAM_FILTERS,
+  SpamFilter,
+  hasActiveFilters,
+} from '@/lib/responseQuery';
+
+interface ResponseFiltersProps {
+  questions: CandidateQuestion[];
+  query: ResponseQuery;
+  onApply: (changes: FilterDraft) => void;
+}
+
+type FilterDraft = Pick<ResponseQuery, 'search' | 'from' | 'to' | 'status' | 'spam' | 'filters'>;
+
+const EMPTY_DRAFT: FilterDraft = { search: '', from: '', to: '', status: '', spam: '', filters: [] };
+
+// Radix selects cannot have an empty value, so "any status" and "including
+// spam" get their own
+const ANY_STATUS = 'any';
+const INCLUDE_SPAM = 'include';
+
+// Edits are kept as a draft and only applied, and written to the URL, when the
+// form is submitted, so typing does not refetch on every keystroke.
+export const ResponseFilters = ({ questions, query, onApply }: ResponseFiltersProps) => {
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_DRAFT);
+
+  useEffect(() => {
+    setDraft({
+      search: query.search,
+      from: query.from,
+      to: query.to,
+      status: query.status,
+      spam: query.spam,
+      filters: query.filters,
+    });
+  }, [query.search, query.from, query.to, query.status, query.spam, query.filters]);
+
+  const updateFilter = (index: number, filter: RuleCondition | null) => {
+    setDraft({
+      ...draft,
+      filters: filter
+        ? draft.filters.map((f, i) => (i === index ? filter : f))
+        : draft.filters.filter((_, i) => i !== index),
+    });
+  };
+
+  const addFilter = () => {
+    setDraft({
+      ...draft,
+      filters: [
+        ...draft.filters,
+        { question_id: questions[0].id, operator: getDefaultOperator(questions[0].question_type), value: '' },
+      ],
+    });
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onApply(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border bg-card p-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex-1 min-w-[14rem] space-y-2">
+          <Label htmlFor="response-search">Search answers</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="response-search"
+              className="pl-9"
+              placeholder="Words to look for"
+              value={draft.search}
+              onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="response-from">Submitted from</Label>
+          <Input
+            id="response-from"
+            type="date"
+            value={draft.from}
+            max={draft.to || undefined}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="response-to">Submitted to</Label>
+          <Input
+            id="response-to"
+            type="date"
+            value={draft.to}
+            min={draft.from || undefined}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={draft.status || ANY_STATUS}
+            onValueChange={(value) =>
+              setDraft({ ...draft, status: value === ANY_STATUS ? '' : (value as ResponseStatus) })
+            }
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_STATUS}>Any status</SelectItem>
+              {RESPONSE_STATUSES.map(status => (
+                <SelectItem key={status.value} value={status.value}>
+                  {status.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Spam</Label>
+          <Select
+            value={draft.spam || INCLUDE_SPAM}
+            onValueChange={(value) =>
+              setDraft({ ...draft, spam: value === INCLUDE_SPAM ? '' : (value as SpamFilter) })
+            }
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INCLUDE_SPAM}>Include suspected spam</SelectItem>
+              {SPAM_FILTERS.map(filter => (
+                <SelectItem key={filter.value} value={filter.value}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {draft.filters.map((filter, index) => {
+        const target = questions.find(q => q.id === filter.question_id);
+        const operators = getOperatorsForType(target?.question_type ?? 'text');
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select
+              value={filter.question_id}
+              onValueChange={(questionId) =>
+                updateFilter(index, {
+                  question_id: questionId,
+                  operator: getDefaultOperator(questions.find(q => q.id === questionId)?.question_type ?? 'text'),
+                  value: '',
+                })
+              }
+            >
+              <SelectTrigger className="h-8 w-56">
+                <SelectValue placeholder="Question" />
+              </SelectTrigger>
+              <SelectContent>
+                {questions.map((q, i) => (
+                  <SelectItem key={q.id} value={q.id}>
+                    Q{i + 1}. {q.question_text}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filter.operator}
+              onValueChange={(operator: ConditionOperator) => updateFilter(index, { ...filter, operator })}
+            >
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {operators.map(op => (
+                  <SelectItem key={op.value} value={op.value}>
+                    {op.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ConditionValueInput
+              condition={filter}
+              target={target}
+              onChange={(value) => updateFilter(index, { ...filter, value })}
+            />
+            <Button type="button" variant="ghost" size="sm" onClick={() => updateFilter(index, null)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="submit" size="sm">
+          <Filter className="mr-2 h-4 w-4" />
+          Apply Filters
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addFilter}
+          disabled={questions.length === 0}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Answer Filter
+        </Button>
+        {hasActiveFilters(query) && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onApply(EMPTY_DRAFT)}>
+            <X className="mr-2 h-4 w-4" />
+            Clear Filters
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,206 @@
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { formatAnswer, getQuestionTypeLabel } from '@/lib/questionTypes';
+import { CountDatum, countChoices, fillSubmissionDays, getSummaryKind, numericDistribution } from '@/lib/responseStats';
+import { QuestionAggregates, ResponseAggregates } from '@/data/types';
+
+interface SummaryQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options?: string[] | null;
+}
+
+interface ResponseSummaryProps {
+  questions: SummaryQuestion[];
+  summary: ResponseAggregates;
+}
+
+const chartConfig = {
+  count: {
+    label: 'Responses',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const PIE_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--muted-foreground))',
+  'hsl(var(--destructive))',
+  'hsl(var(--accent-foreground))',
+];
+
+const formatNumber = (value: number | null) =>
+  value === null ? '-' : Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const CountBarChart = ({ data, vertical = false }: { data: CountDatum[]; vertical?: boolean }) => (
+  <ChartContainer
+    config={chartConfig}
+    className="w-full"
+    style={{ height: vertical ? Math.max(160, data.length * 36) : 240 }}
+  >
+    {vertical ? (
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} />
+        <YAxis type="category" dataKey="label" width={140} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+      </BarChart>
+    ) : (
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis allowDecimals={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+      </BarChart>
+    )}
+  </ChartContainer>
+);
+
+const RecentSamples = ({ samples }: { samples: string[] }) => (
+  <div className="space-y-2">
+    <p className="text-sm font-medium">Recent answers</p>
+    <ul className="space-y-2">
+      {samples.map((sample, index) => (
+        <li key={index} className="rounded-md bg-muted p-3 text-sm whitespace-pre-wrap">
+          {sample}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const QuestionSummary = ({ question, aggregates }: { question: SummaryQuestion; aggregates: QuestionAggregates }) => {
+  if (aggregates.answered === 0) {
+    return <p className="text-sm text-muted-foreground">No answers yet</p>;
+  }
+
+  switch (getSummaryKind(question.question_type)) {
+    case 'choice': {
+      const data = countChoices(question, aggregates.counts);
+      if (question.question_type === 'yes_no') {
+        return (
+          <ChartContainer config={chartConfig} className="mx-auto h-[240px] w-full max-w-sm">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent nameKey="label" hideLabel />} />
+              <Pie data={data} dataKey="count" nameKey="label" label={({ label, count }) => `${label}: ${count}`}>
+                {data.map((_, index) => (
+                  <Cell key={index} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                ))}
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+        );
+      }
+      return <CountBarChart data={data} vertical />;
+    }
+
+    case 'numeric': {
+      return (
+        <div className="space-y-4">
+          <div className="flex gap-8 text-sm">
+            <div>
+              <p className="text-muted-foreground">Mean</p>
+              <p className="text-2xl font-bold">{formatNumber(aggregates.mean)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Median</p>
+              <p className="text-2xl font-bold">{formatNumber(aggregates.median)}</p>
+            </div>
+          </div>
+          <CountBarChart data={numericDistribution(question.question_type, aggregates.counts, aggregates)} />
+        </div>
+      );
+    }
+
+    case 'text': {
+      const words = aggregates.words;
+      return (
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Most common words</p>
+            {words.length > 0 ? (
+              <CountBarChart data={words} vertical />
+            ) : (
+              <p className="text-sm text-muted-foreground">Not enough text to analyse</p>
+            )}
+          </div>
+          <RecentSamples samples={aggregates.recent} />
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <RecentSamples
+          samples={aggregates.recent.map(a => formatAnswer(question.question_type, a))}
+        />
+      );
+  }
+};
+
+// Questions added after the summary was loaded have no aggregates yet
+const NO_ANSWERS: QuestionAggregates = {
+  answered: 0,
+  counts: [],
+  binned: false,
+  min: null,
+  max: null,
+  mean: null,
+  median: null,
+  words: [],
+  recent: [],
+};
+
+export const ResponseSummary = ({ questions, summary }: ResponseSummaryProps) => {
+  const submissionsByDay = fillSubmissionDays(summary.by_day);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Submissions Over Time</CardTitle>
+          <CardDescription>Responses received per day (UTC)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {submissionsByDay.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No responses yet</p>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-[240px] w-full">
+              <LineChart data={submissionsByDay}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="count" type="monotone" stroke="var(--color-count)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {questions.map((question, index) => {
+        const aggregates = summary.questions[question.id] ?? NO_ANSWERS;
+        return (
+          <Card key={question.id}>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                Q{index + 1}. {question.question_text}
+              </CardTitle>
+              <CardDescription>
+                {getQuestionTypeLabel(question.question_type)} · {aggregates.answered} of {summary.total}{' '}
+                responded
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QuestionSummary question={question} aggregates={aggregates} />
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface ResumeLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The "save and continue later" link and when it stops working
+  link: string;
+  expiresAt: string;
+}
+
+export const ResumeLinkDialog = ({ open, onOpenChange, link, expiresAt }: ResumeLinkDialogProps) => {
+  const { toast } = useToast();
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(link);
+    toast({
+      title: 'Link copied',
+      description: 'Your resume link has been copied to clipboard',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Your answers are saved</DialogTitle>
+          <DialogDescription>
+            Use this link to continue where you left off, on this or any other device, until{' '}
+            {new Date(expiresAt).toLocaleString()}. Anyone with the link can see your answers, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input readOnly value={link} onFocus={(e) => e.target.select()} aria-label="Resume link" />
+          <Button variant="outline" onClick={copyLink}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Keep Going</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,60 @@
+import { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+// A small, safe subset of Markdown for creator-written messages: paragraphs
+// separated by blank lines, line breaks, **bold**, *italic* and
+// [links](https://example.com). Everything is rendered as React elements, so
+// no HTML from the message ever reaches the page.
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, bold, italic, linkText, href] = match;
+    const key = `${keyPrefix}-${match.index}`;
+    nodes.push(text.slice(last, match.index));
+    if (bold !== undefined) {
+      nodes.push(<strong key={key}>{bold}</strong>);
+    } else if (italic !== undefined) {
+      nodes.push(<em key={key}>{italic}</em>);
+    } else if (SAFE_LINK.test(href)) {
+      nodes.push(
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-4">
+          {linkText}
+        </a>
+      );
+    } else {
+      nodes.push(linkText);
+    }
+    last = match.index + whole.length;
+  }
+  nodes.push(text.slice(last));
+  return nodes;
+};
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+export const RichText = ({ text, className }: RichTextProps) => (
+  <div className={cn('space-y-3', className)}>
+    {text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .map((paragraph, index) => (
+        <p key={index}>
+          {paragraph.split('\n').map((line, lineIndex) => (
+            <span key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderInline(line, `${index}-${lineIndex}`)}
+            </span>
+          ))}
+        </p>
+      ))}
+  </div>
+);
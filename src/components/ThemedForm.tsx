@@ -0,0 +1,52 @@
+import { ReactNode } from 'react';
+import { CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { FormTheme, getThemeMode, getThemeStyle } from '@/lib/formTheme';
+
+interface ThemedFormLayoutProps {
+  theme: FormTheme | null;
+  className?: string;
+  children: ReactNode;
+}
+
+// Applies a form's theme to everything inside it. Dark mode is scoped with the
+// `dark` class so the builder's preview can show it without switching the
+// whole app; the public form additionally sets it on the document for popovers.
+export const ThemedFormLayout = ({ theme, className, children }: ThemedFormLayoutProps) => (
+  <div
+    className={cn(getThemeMode(theme) === 'dark' && 'dark', 'bg-background text-foreground', className)}
+    style={getThemeStyle(theme)}
+  >
+    {children}
+  </div>
+);
+
+interface ThemedFormHeaderProps {
+  theme: FormTheme | null;
+  title: string;
+  description?: string | null;
+}
+
+/** The header image, logo, title and description at the top of a form's card. */
+export const ThemedFormHeader = ({ theme, title, description }: ThemedFormHeaderProps) => (
+  <>
+    {theme?.header_image_url && (
+      <img
+        src={theme.header_image_url}
+        alt=""
+        className="h-40 w-full rounded-t-lg object-cover"
+      />
+    )}
+    <CardHeader>
+      {theme?.logo_url && (
+        <img src={theme.logo_url} alt="" className="mb-2 h-12 w-auto self-start object-contain" />
+      )}
+      <CardTitle className="text-2xl">{title}</CardTitle>
+      {description && (
+        <CardDescription className="text-base">
+          {description}
+        </CardDescription>
+      )}
+    </CardHeader>
+  </>
+);
@@ -0,0 +1,267 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitBranch, Plus, Trash2 } from 'lucide-react';
+import { hasOptions } from '@/lib/questionTypes';
+import {
+  ConditionOperator,
+  RuleCondition,
+  RuleGroup,
+  RuleMatch,
+  VisibilityRule,
+  getDefaultOperator,
+  getOperatorsForType,
+  operatorNeedsValue,
+} from '@/lib/formRules';
+
+export interface CandidateQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options?: string[];
+}
+
+interface VisibilityRuleEditorProps {
+  subject?: 'question' | 'section';
+  rule: VisibilityRule | null;
+  onChange: (rule: VisibilityRule | null) => void;
+  // Questions the rule may depend on, i.e. the ones before this question
+  candidates: CandidateQuestion[];
+}
+
+const MatchSelect = ({ value, onChange }: { value: RuleMatch; onChange: (value: RuleMatch) => void }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="w-24 h-8">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="all">all</SelectItem>
+      <SelectItem value="any">any</SelectItem>
+    </SelectContent>
+  </Select>
+);
+
+// Value picker for a condition: a select for questions with fixed answers,
+// free text otherwise. Nothing is rendered for operators that take no value.
+export const ConditionValueInput = ({
+  condition,
+  target,
+  onChange,
+}: {
+  condition: RuleCondition;
+  target?: CandidateQuestion;
+  onChange: (value: string) => void;
+}) => {
+  if (!operatorNeedsValue(condition.operator)) return null;
+
+  const choices = target?.question_type === 'yes_no'
+    ? [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }]
+    : target && hasOptions(target.question_type)
+      ? (target.options ?? []).map(option => ({ value: option, label: option }))
+      : null;
+
+  if (choices) {
+    return (
+      <Select value={condition.value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="h-8 flex-1 min-w-[8rem]">
+          <SelectValue placeholder="Choose a value" />
+        </SelectTrigger>
+        <SelectContent>
+          {choices.map(choice => (
+            <SelectItem key={choice.value} value={choice.value}>
+              {choice.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      className="h-8 flex-1 min-w-[8rem]"
+      placeholder="Value"
+      value={condition.value ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+};
+
+export const VisibilityRuleEditor = ({
+  subject = 'question',
+  rule,
+  onChange,
+  candidates,
+}: VisibilityRuleEditorProps) => {
+  if (candidates.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Display logic can only refer to earlier questions. Add another question first to use it.
+      </p>
+    );
+  }
+
+  const newCondition = (): RuleCondition => ({
+    question_id: candidates[0].id,
+    operator: getDefaultOperator(candidates[0].question_type),
+    value: '',
+  });
+
+  if (!rule) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => onChange({ match: 'all', groups: [{ match: 'all', conditions: [newCondition()] }] })}
+      >
+        <GitBranch className="mr-2 h-4 w-4" />
+        Add Display Logic
+      </Button>
+    );
+  }
+
+  const updateGroup = (groupIndex: number, group: RuleGroup | null) => {
+    const groups = group
+      ? rule.groups.map((g, i) => (i === groupIndex ? group : g))
+      : rule.groups.filter((_, i) => i !== groupIndex);
+    onChange(groups.length > 0 ? { ...rule, groups } : null);
+  };
+
+  const updateCondition = (groupIndex: number, conditionIndex: number, condition: RuleCondition | null) => {
+    const group = rule.groups[groupIndex];
+    const conditions = condition
+      ? group.conditions.map((c, i) => (i === conditionIndex ? condition : c))
+      : group.conditions.filter((_, i) => i !== conditionIndex);
+    updateGroup(groupIndex, conditions.length > 0 ? { ...group, conditions } : null);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <GitBranch className="h-4 w-4 text-muted-foreground" />
+        <span>Show this {subject} only when</span>
+        <MatchSelect value={rule.match} onChange={(match) => onChange({ ...rule, match })} />
+        <span>of these groups match</span>
+      </div>
+      {subject === 'section' && (
+        <p className="text-sm text-muted-foreground">
+          When the section is hidden, its whole page is skipped.
+        </p>
+      )}
+
+      {rule.groups.map((group, groupIndex) => (
+        <div key={groupIndex} className="space-y-2 rounded-md bg-muted/50 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Label>Group {groupIndex + 1}: match</Label>
+              <MatchSelect
+                value={group.match}
+                onChange={(match) => updateGroup(groupIndex, { ...group, match })}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updateGroup(groupIndex, null)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {group.conditions.map((condition, conditionIndex) => {
+            const target = candidates.find(q => q.id === condition.question_id);
+            const operators = getOperatorsForType(target?.question_type ?? 'text');
+            return (
+              <div key={conditionIndex} className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={condition.question_id}
+                  onValueChange={(questionId) =>
+                    updateCondition(groupIndex, conditionIndex, {
+                      question_id: questionId,
+                      operator: getDefaultOperator(
+                        candidates.find(q => q.id === questionId)?.question_type ?? 'text'
+                      ),
+                      value: '',
+                    })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-48">
+                    <SelectValue placeholder="Question" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((q, index) => (
+                      <SelectItem key={q.id} value={q.id}>
+                        Q{index + 1}. {q.question_text}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(operator: ConditionOperator) =>
+                    updateCondition(groupIndex, conditionIndex, { ...condition, operator })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map(op => (
+                      <SelectItem key={op.value} value={op.value}>
+                        {op.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ConditionValueInput
+                  condition={condition}
+                  target={target}
+                  onChange={(value) => updateCondition(groupIndex, conditionIndex, { ...condition, value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateCondition(groupIndex, conditionIndex, null)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              updateGroup(groupIndex, { ...group, conditions: [...group.conditions, newCondition()] })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Condition
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({ ...rule, groups: [...rule.groups, { match: 'all', conditions: [newCondition()] }] })
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Group
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+          Remove Logic
+        </Button>
+      </div>
+    </div>
+  );
+};
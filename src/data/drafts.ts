@@ -0,0 +1,65 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { draftKeys } from './keys';
+import { FormDraft } from './types';
+
+// "Save and continue later" drafts on the server, for forms that allow them.
+// Respondents hold a secret token; the functions behind these hooks only ever
+// look drafts up by it.
+
+/** The draft `token` refers to, or null if it does not exist or has expired. */
+export const useFormDraft = (formId: string | undefined, token: string | null) =>
+  useQuery({
+    queryKey: draftKeys.detail(formId, token),
+    queryFn: async (): Promise<FormDraft | null> => {
+      const { data, error } = await supabase.rpc('get_form_draft', {
+        _form_id: formId,
+        _token: token,
+      });
+
+      if (error) throw error;
+      const [draft] = data;
+      return draft ? { ...draft, answers: draft.answers as Record<string, string> } : null;
+    },
+    enabled: Boolean(formId && token),
+    // Only read once to restore answers; later edits are the respondent's own
+    staleTime: Infinity,
+    meta: { errorMessage: 'Failed to load your saved answers' },
+  });
+
+interface SaveDraftInput {
+  formId: string;
+  answers: Record<string, string>;
+  currentPage: number;
+  // The draft to update, if this respondent saved one before
+  token: string | null;
+}
+
+/** Saves the answers so far, resolving to the token for the resume link. */
+export const useSaveDraft = () =>
+  useMutation({
+    mutationFn: async ({ formId, answers, currentPage, token }: SaveDraftInput) => {
+      const { data, error } = await supabase.rpc('save_form_draft', {
+        _form_id: formId,
+        _answers: answers,
+        _current_page: currentPage,
+        _token: token ?? undefined,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+/** Deletes a draft once its response has been submitted, so its link stops working. */
+export const useDeleteDraft = () =>
+  useMutation({
+    mutationFn: async ({ formId, token }: { formId: string; token: string }) => {
+      const { error } = await supabase.rpc('delete_form_draft', {
+        _form_id: formId,
+        _token: token,
+      });
+
+      if (error) throw error;
+    },
+  });
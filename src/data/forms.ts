@@ -0,0 +1,268 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { remapRuleQuestionIds } from '@/lib/formRules';
+import { remapPipedQuestionIds } from '@/lib/piping';
+import { FormTheme } from '@/lib/formTheme';
+import { FormConfirmation, remapConfirmationQuestionIds } from '@/lib/confirmation';
+import { RespondentMode } from '@/lib/respondents';
+import { NotificationFrequency } from '@/lib/notifications';
+import { formKeys } from './keys';
+import { removeResponseFiles } from './storage';
+import { FormOverview, QuestionFields, toQuestion } from './types';
+
+/** The caller's forms with response counts and recent activity, newest first. */
+export const useForms = () =>
+  useQuery({
+    queryKey: formKeys.overview(),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_form_overview');
+
+      if (error) throw error;
+      return data;
+    },
+    meta: { errorMessage: 'Failed to fetch forms' },
+  });
+
+// Everything the builder and responses views use. Only the form's creator can
+// read forms; respondents get the few settings they need from usePublicForm.
+const FORM_COLUMNS = 'id, title, description, is_active, archived_at, opens_at, closes_at, max_responses, draft_expiry_days, captcha_required, one_response_per, allow_response_edits, notify_on_response, theme, confirmation, created_at';
+
+/** A form's settings, or null if it does not exist or is not the caller's. */
+export const useForm = (formId: string | undefined) =>
+  useQuery({
+    queryKey: formKeys.detail(formId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('forms')
+        .select(FORM_COLUMNS)
+        .eq('id', formId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data && {
+        ...data,
+        one_response_per: data.one_response_per as RespondentMode | null,
+        notify_on_response: data.notify_on_response as NotificationFrequency,
+        theme: data.theme as FormTheme | null,
+        confirmation: data.confirmation as FormConfirmation | null,
+      };
+    },
+    enabled: Boolean(formId),
+    meta: { errorMessage: 'Failed to load form' },
+  });
+
+/** What the public form page needs of an active form, or null if there is none. */
+export const usePublicForm = (formId: string | undefined) =>
+  useQuery({
+    queryKey: formKeys.public(formId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_public_form', { _form_id: formId });
+
+      if (error) throw error;
+      const [form] = data;
+      if (!form) return null;
+      return {
+        ...form,
+        one_response_per: form.one_response_per as RespondentMode | null,
+        theme: form.theme as FormTheme | null,
+        confirmation: form.confirmation as FormConfirmation | null,
+      };
+    },
+    enabled: Boolean(formId),
+    meta: { errorMessage: 'Failed to load form' },
+  });
+
+/** Questions and sections of a form in display order. */
+export const useFormQuestions = (formId: string | undefined, { enabled = true } = {}) =>
+  useQuery({
+    queryKey: formKeys.questions(formId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('form_questions')
+        .select('*')
+        .eq('form_id', formId)
+        .order('order_index');
+
+      if (error) throw error;
+      return data.map(toQuestion);
+    },
+    enabled: Boolean(formId) && enabled,
+    meta: { errorMessage: 'Failed to load questions' },
+  });
+
+// A type alias rather than an interface so it is assignable to `Json`
+export type FormSettings = {
+  title: string;
+  description: string;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_responses: number | null;
+  draft_expiry_days: number | null;
+  captcha_required: boolean;
+  one_response_per: RespondentMode | null;
+  allow_response_edits: boolean;
+  notify_on_response: NotificationFrequency;
+  theme: FormTheme | null;
+  confirmation: FormConfirmation | null;
+};
+
+interface SaveFormInput {
+  // Left out to create a new form
+  formId?: string;
+  settings: FormSettings;
+  // Every question and section in display order. Questions that are no longer
+  // in the list are deleted along with their answers.
+  questions: QuestionFields[];
+}
+
+const toQuestionRow = (question: QuestionFields) => ({
+  id: question.id,
+  question_text: question.question_text,
+  question_type: question.question_type,
+  description: question.description ?? null,
+  options: question.options,
+  is_required: question.is_required,
+  visibility: question.visibility ?? null,
+  file_limits: question.file_limits ?? null,
+});
+
+/** Creates a form or saves an existing one in one transaction; resolves to the form's id. */
+export const useSaveForm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ formId, settings, questions }: SaveFormInput) => {
+      const { data, error } = await supabase.rpc('save_form', {
+        _form_id: formId ?? null,
+        _settings: settings,
+        _questions: questions.map(toQuestionRow),
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: formKeys.all }),
+  });
+};
+interface UpdateFormInput {
+  formId: string;
+  changes: TablesUpdate<'forms'>;
+}
+
+/** Updates form columns such as `is_active` or `archived_at`. */
+export const useUpdateForm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ formId, changes }: UpdateFormInput) => {
+      const { error } = await supabase
+        .from('forms')
+        .update(changes)
+        .eq('id', formId);
+
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: formKeys.all }),
+  });
+};
+
+export const useDeleteForm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (formId: string) => {
+      // Uploaded files have to go first: storage policies only let the creator
+      // delete them while the form exists. Questions and responses are then
+      // removed by ON DELETE CASCADE.
+      await removeResponseFiles(formId);
+
+      const { error } = await supabase
+        .from('forms')
+        .delete()
+        .eq('id', formId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, formId) => {
+      queryClient.setQueryData<FormOverview[]>(formKeys.overview(), forms =>
+        forms?.filter(f => f.id !== formId)
+      );
+      return queryClient.invalidateQueries({ queryKey: formKeys.all });
+    },
+    meta: { errorMessage: 'Failed to delete form' },
+  });
+};
+
+/**
+ * Copies a form and its questions, resolving to the copy's id and title.
+ * Copies start out inactive so they can be reviewed before sharing.
+ */
+export const useDuplicateForm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (formId: string) => {
+      let copyId: string | null = null;
+      try {
+        const { data: source, error: sourceError } = await supabase
+          .from('forms')
+          .select('title, description, opens_at, closes_at, max_responses, draft_expiry_days, captcha_required, one_response_per, allow_response_edits, notify_on_response, theme, confirmation')
+          .eq('id', formId)
+          .single();
+
+        if (sourceError) throw sourceError;
+
+        const { data: questionsData, error: questionsError } = await supabase
+          .from('form_questions')
+          .select('*')
+          .eq('form_id', formId)
+          .order('order_index');
+
+        if (questionsError) throw questionsError;
+
+        // New question ids, with display logic and recalled answers rewritten to
+        // point at the copies
+        const idMap = new Map(questionsData.map(q => [q.id, crypto.randomUUID()]));
+
+        const { data: copy, error: copyError } = await supabase
+          .from('forms')
+          .insert({
+            ...source,
+            title: `Copy of ${source.title}`,
+            confirmation: remapConfirmationQuestionIds(source.confirmation as FormConfirmation | null, idMap),
+            creator_id: (await supabase.auth.getUser()).data.user?.id,
+            is_active: false,
+          })
+          .select('id, title')
+          .single();
+
+        if (copyError) throw copyError;
+        copyId = copy.id;
+
+        const questionsToInsert = questionsData.map(toQuestion).map(({ created_at, ...question }) => ({
+          ...question,
+          id: idMap.get(question.id),
+          form_id: copy.id,
+          question_text: remapPipedQuestionIds(question.question_text, idMap),
+          description: remapPipedQuestionIds(question.description, idMap),
+          visibility: remapRuleQuestionIds(question.visibility, idMap),
+        }));
+
+        if (questionsToInsert.length > 0) {
+          const { error: insertError } = await supabase
+            .from('form_questions')
+            .insert(questionsToInsert);
+
+          if (insertError) throw insertError;
+        }
+
+        return copy;
+      } catch (error) {
+        // Don't leave a half-copied form behind
+        if (copyId) {
+          await supabase.from('forms').delete().eq('id', copyId);
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: formKeys.all }),
+    meta: { errorMessage: 'Failed to duplicate form' },
+  });
+};
@@ -0,0 +1,43 @@
+import { ResponseQuery } from '@/lib/responseQuery';
+
+// Query keys for everything cached by the data layer. Keys are nested so a
+// whole branch can be invalidated at once, e.g. `responseKeys.lists(id)` after a
+// response is deleted refreshes every page and filter of that form's list.
+
+export const formKeys = {
+  all: ['forms'] as const,
+  overview: () => [...formKeys.all, 'overview'] as const,
+  detail: (formId: string) => [...formKeys.all, 'detail', formId] as const,
+  public: (formId: string) => [...formKeys.all, 'public', formId] as const,
+  questions: (formId: string) => [...formKeys.all, 'questions', formId] as const,
+  availability: (formId: string) => [...formKeys.all, 'availability', formId] as const,
+  previousResponses: (formId: string) => [...formKeys.all, 'previous-response', formId] as const,
+  // Per signed-in user too, as forms limited to one response per user tell them apart
+  previousResponse: (formId: string, userId: string | null) =>
+    [...formKeys.previousResponses(formId), userId] as const,
+  editableResponse: (formId: string, token: string) => [...formKeys.all, 'editable-response', formId, token] as const,
+};
+
+export const fileKeys = {
+  all: ['files'] as const,
+  signed: (paths: string[]) => [...fileKeys.all, 'signed', paths] as const,
+};
+
+export const draftKeys = {
+  all: ['drafts'] as const,
+  detail: (formId: string, token: string) => [...draftKeys.all, formId, token] as const,
+};
+
+export const responseKeys = {
+  all: ['responses'] as const,
+  form: (formId: string) => [...responseKeys.all, formId] as const,
+  lists: (formId: string) => [...responseKeys.form(formId), 'list'] as const,
+  list: (formId: string, query: ResponseQuery) => [...responseKeys.lists(formId), query] as const,
+  // Under lists, so whatever refreshes the lists refreshes the summary too
+  summary: (formId: string, query: ResponseQuery) => [...responseKeys.lists(formId), 'summary', query] as const,
+  stats: (formId: string) => [...responseKeys.form(formId), 'stats'] as const,
+  detail: (formId: string, responseId: string) => [...responseKeys.form(formId), 'detail', responseId] as const,
+  edits: (formId: string, responseIds: string[]) => [...responseKeys.form(formId), 'edits', responseIds] as const,
+  neighbors: (formId: string, responseId: string, query: ResponseQuery) =>
+    [...responseKeys.form(formId), 'neighbors', responseId, query] as const,
+};
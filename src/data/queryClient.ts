@@ -0,0 +1,43 @@
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    // `errorMessage` is shown in an error toast when the query or mutation
+    // fails. Leave it out to handle the error at the call site instead.
+    queryMeta: { errorMessage?: string };
+    mutationMeta: { errorMessage?: string };
+  }
+}
+
+const MAX_RETRIES = 2;
+
+// PostgREST and Postgres errors carry a code and fail the same way every time
+// (RLS, constraint violations, missing rows). Only errors without one, such as
+// network failures, are worth retrying.
+const isRetryable = (error: Error) => !('code' in error) || !error.code;
+
+const showError = (error: Error, errorMessage: string | undefined) => {
+  if (!errorMessage) return;
+  toast({
+    title: 'Error',
+    description: errorMessage,
+    variant: 'destructive',
+  });
+};
+
+export const createQueryClient = () =>
+  new QueryClient({
+    queryCache: new QueryCache({
+      onError: (error, query) => showError(error, query.meta?.errorMessage),
+    }),
+    mutationCache: new MutationCache({
+      onError: (error, _variables, _context, mutation) => showError(error, mutation.meta?.errorMessage),
+    }),
+    defaultOptions: {
+      queries: {
+        retry: (failureCount, error) => failureCount < MAX_RETRIES && isRetryable(error),
+        staleTime: 30 * 1000,
+      },
+    },
+  });
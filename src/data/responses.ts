@@ -0,0 +1,261 @@
+import { QueryClient, keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { ResponseQuery, toNeighborArgs, toFilterArgs, toSearchArgs } from '@/lib/responseQuery';
+import { formKeys, responseKeys } from './keys';
+import { removeResponseFiles } from './storage';
+import { FormResponse, ResponseDetail, ResponseEdit, ResponseStats } from './types';
+
+interface ResponsePage {
+  responses: FormResponse[];
+  // Number of responses matching the query, across all pages
+  total: number;
+}
+
+/**
+ * The page of responses matching `query`. The previous page stays on screen
+ * while the next one loads.
+ */
+export const useFormResponses = (formId: string, query: ResponseQuery, { enabled = true } = {}) =>
+  useQuery({
+    queryKey: responseKeys.list(formId, query),
+    queryFn: async (): Promise<ResponsePage> => {
+      const { data, error } = await supabase.rpc('search_form_responses', toSearchArgs(formId, query));
+
+      if (error) throw error;
+      return {
+        responses: data.map(row => ({
+          id: row.id,
+          submitted_at: row.submitted_at,
+          status: row.status,
+          is_spam: row.is_spam,
+          answers: row.answers as Record<string, string>,
+        })),
+        total: data[0]?.total_count ?? 0,
+      };
+    },
+    placeholderData: keepPreviousData,
+    enabled,
+    meta: { errorMessage: 'Failed to fetch responses' },
+  });
+
+/** Per-question aggregates of every response matching `query`, for the summary charts. */
+export const useResponseSummary = (formId: string, query: ResponseQuery, { enabled = true } = {}) =>
+  useQuery({
+    queryKey: responseKeys.summary(formId, query),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_response_summary', toFilterArgs(formId, query));
+
+      if (error) throw error;
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    enabled,
+    meta: { errorMessage: 'Failed to fetch response summary' },
+  });
+
+export const useResponseStats = (formId: string) =>
+  useQuery({
+    queryKey: responseKeys.stats(formId),
+    queryFn: async (): Promise<ResponseStats> => {
+      const { data: latest, count: total, error: totalError } = await supabase
+        .from('form_responses')
+        .select('submitted_at', { count: 'exact' })
+        .eq('form_id', formId)
+        .order('submitted_at', { ascending: false })
+        .limit(1);
+
+      if (totalError) throw totalError;
+
+      // Responses with at least one answer left; the rest are empty
+      const { count: answered, error: answeredError } = await supabase
+        .from('form_responses')
+        .select('id, question_responses!inner(id)', { count: 'exact', head: true })
+        .eq('form_id', formId);
+
+      if (answeredError) throw answeredError;
+
+      return {
+        total: total ?? 0,
+        empty: (total ?? 0) - (answered ?? 0),
+        latest: latest[0]?.submitted_at ?? null,
+      };
+    },
+    meta: { errorMessage: 'Failed to fetch response stats' },
+  });
+
+/** One response with its answers and review fields, or null if it does not exist. */
+export const fetchResponse = async (formId: string, responseId: string): Promise<ResponseDetail | null> => {
+  const { data, error } = await supabase
+    .from('form_responses')
+    .select(`
+      id,
+      submitted_at,
+      status,
+      notes,
+      is_spam,
+      spam_reasons,
+      ip_address,
+      user_agent,
+      edited_at,
+      question_responses(
+        question_id,
+        answer_text
+      )
+    `)
+    .eq('id', responseId)
+    .eq('form_id', formId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    submitted_at: data.submitted_at,
+    status: data.status,
+    notes: data.notes,
+    is_spam: data.is_spam,
+    spam_reasons: data.spam_reasons,
+    ip_address: data.ip_address as string | null,
+    user_agent: data.user_agent,
+    edited_at: data.edited_at,
+    answers: Object.fromEntries(
+      data.question_responses.map(qr => [qr.question_id, qr.answer_text || ''])
+    ),
+  };
+};
+
+export const useResponse = (formId: string, responseId: string) =>
+  useQuery({
+    queryKey: responseKeys.detail(formId, responseId),
+    queryFn: () => fetchResponse(formId, responseId),
+    meta: { errorMessage: 'Failed to fetch response' },
+  });
+
+/** Changes respondents made to the given responses, oldest first, keyed by response id. */
+export const useResponseEdits = (formId: string, responseIds: string[]) =>
+  useQuery({
+    queryKey: responseKeys.edits(formId, responseIds),
+    queryFn: async (): Promise<Record<string, ResponseEdit[]>> => {
+      const { data, error } = await supabase
+        .from('response_edits')
+        .select('*')
+        .in('form_response_id', responseIds)
+        .order('edited_at');
+
+      if (error) throw error;
+
+      const edits: Record<string, ResponseEdit[]> = {};
+      for (const row of data) {
+        const edit = { ...row, previous_answers: row.previous_answers as Record<string, string> };
+        edits[row.form_response_id] = [...(edits[row.form_response_id] ?? []), edit];
+      }
+      return edits;
+    },
+    enabled: responseIds.length > 0,
+    meta: { errorMessage: 'Failed to fetch edit history' },
+  });
+
+/**
+ * Where a response sits in the list described by `query`. Not refetched when
+ * responses change, so changing the status of a response does not make it
+ * drop out of its own prev/next sequence.
+ */
+export const useResponseNeighbors = (formId: string, responseId: string, query: ResponseQuery) =>
+  useQuery({
+    queryKey: responseKeys.neighbors(formId, responseId, query),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_response_neighbors', toNeighborArgs(formId, responseId, query));
+
+      if (error) throw error;
+      return data[0] ?? null;
+    },
+    staleTime: Infinity,
+    meta: { errorMessage: 'Failed to fetch response' },
+  });
+
+interface UpdateResponseInput {
+  responseId: string;
+  changes: Pick<TablesUpdate<'form_responses'>, 'status' | 'notes' | 'is_spam'>;
+}
+
+/** Saves review fields of a response, showing the change before the server confirms it. */
+export const useUpdateResponse = (formId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ responseId, changes }: UpdateResponseInput) => {
+      const { error } = await supabase
+        .from('form_responses')
+        .update(changes)
+        .eq('id', responseId);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ responseId, changes }) => {
+      const key = responseKeys.detail(formId, responseId);
+      await queryClient.cancelQueries({ queryKey: key });
+
+      const previous = queryClient.getQueryData<ResponseDetail | null>(key);
+      queryClient.setQueryData<ResponseDetail | null>(key, response => response && { ...response, ...changes });
+      return { previous };
+    },
+    onError: (_, { responseId }, context) => {
+      queryClient.setQueryData(responseKeys.detail(formId, responseId), context?.previous);
+    },
+    onSettled: (_, __, { responseId }) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: responseKeys.detail(formId, responseId) }),
+        queryClient.invalidateQueries({ queryKey: responseKeys.lists(formId) }),
+      ]),
+  });
+};
+
+// Refreshes everything that counts responses after some were removed, in the
+// background so the caller can move on straight away
+const invalidateResponseCounts = (queryClient: QueryClient, formId: string) => {
+  queryClient.invalidateQueries({ queryKey: responseKeys.lists(formId) });
+  queryClient.invalidateQueries({ queryKey: responseKeys.stats(formId) });
+  queryClient.invalidateQueries({ queryKey: formKeys.overview() });
+};
+
+export const useDeleteResponse = (formId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (responseId: string) => {
+      // Files first: once they are gone, a failed delete can simply be retried
+      await removeResponseFiles(formId, responseId);
+
+      const { error } = await supabase
+        .from('form_responses')
+        .delete()
+        .eq('id', responseId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateResponseCounts(queryClient, formId);
+      // Positions cached for other responses now count one too many. Marked
+      // stale only, so the page being left does not refetch them.
+      queryClient.invalidateQueries({ queryKey: [...responseKeys.form(formId), 'neighbors'], refetchType: 'none' });
+    },
+    meta: { errorMessage: 'Failed to delete response' },
+  });
+};
+
+/** Deletes responses left without answers; resolves to how many were removed. */
+export const useDeleteEmptyResponses = (formId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('delete_empty_responses', {
+        _form_id: formId,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => invalidateResponseCounts(queryClient, formId),
+    meta: { errorMessage: 'Failed to remove empty responses' },
+  });
+};
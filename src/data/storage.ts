@@ -0,0 +1,129 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { UploadedFile } from '@/lib/questionTypes';
+import { fileKeys } from './keys';
+import { SignedFileUrl } from './types';
+
+const FORM_ASSETS_BUCKET = 'form-assets';
+
+/**
+ * Uploads an image for a form theme and resolves to its public URL. Files go
+ * into a folder named after the user, which is all storage policies let them
+ * write to, under a random name so a replaced image never serves from cache.
+ */
+export const useUploadFormAsset = () =>
+  useMutation({
+    mutationFn: async (file: File) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const path = `${user?.id}/${crypto.randomUUID()}.${extension}`;
+
+      const { error } = await supabase.storage
+        .from(FORM_ASSETS_BUCKET)
+        .upload(path, file, { contentType: file.type, cacheControl: '31536000' });
+
+      if (error) throw error;
+      return supabase.storage.from(FORM_ASSETS_BUCKET).getPublicUrl(path).data.publicUrl;
+    },
+    meta: { errorMessage: 'Failed to upload image' },
+  });
+
+const RESPONSE_FILES_BUCKET = 'response-files';
+
+// Signed URLs stay valid this long, and are cached for a little less
+const SIGNED_URL_SECONDS = 60 * 60;
+
+interface UploadResponseFileInput {
+  formId: string;
+  // The id the response will be submitted with, see submit_form_response
+  responseId: string;
+  questionId: string;
+  file: File;
+}
+
+/**
+ * Uploads a respondent's file before the response is submitted, resolving to
+ * the reference stored in the answer. Storage policies only accept files for
+ * file upload questions of open forms and responses not submitted yet.
+ */
+export const useUploadResponseFile = () =>
+  useMutation({
+    mutationFn: async ({ formId, responseId, questionId, file }: UploadResponseFileInput): Promise<UploadedFile> => {
+      const extension = file.name.includes('.') ? `.${file.name.split('.').pop()?.toLowerCase()}` : '';
+      const path = `${formId}/${responseId}/${questionId}/${crypto.randomUUID()}${extension}`;
+
+      const { error } = await supabase.storage
+        .from(RESPONSE_FILES_BUCKET)
+        .upload(path, file, { contentType: file.type || 'application/octet-stream' });
+
+      if (error) throw error;
+      return { path, name: file.name, size: file.size, type: file.type };
+    },
+  });
+
+/** Removes a file the respondent took back out of their answer. */
+export const useRemoveResponseFile = () =>
+  useMutation({
+    mutationFn: async (path: string) => {
+      const { error } = await supabase.storage.from(RESPONSE_FILES_BUCKET).remove([path]);
+
+      if (error) throw error;
+    },
+  });
+
+/** Short-lived links to view and download uploaded files, keyed by path. */
+export const useSignedFileUrls = (files: UploadedFile[]) =>
+  useQuery({
+    queryKey: fileKeys.signed(files.map(file => file.path)),
+    queryFn: async (): Promise<Record<string, SignedFileUrl>> => {
+      const { data, error } = await supabase.storage
+        .from(RESPONSE_FILES_BUCKET)
+        .createSignedUrls(files.map(file => file.path), SIGNED_URL_SECONDS);
+
+      if (error) throw error;
+      return Object.fromEntries(
+        data
+          .filter(item => item.path && !item.error)
+          .map(item => {
+            const name = files.find(file => file.path === item.path)?.name ?? '';
+            return [item.path, {
+              view: item.signedUrl,
+              // Storage serves the file as an attachment with this name
+              download: `${item.signedUrl}&download=${encodeURIComponent(name)}`,
+            }];
+          })
+      );
+    },
+    enabled: files.length > 0,
+    staleTime: (SIGNED_URL_SECONDS - 5 * 60) * 1000,
+    meta: { errorMessage: 'Failed to load uploaded files' },
+  });
+
+/**
+ * Deletes the files uploaded to a form, or to one of its responses, from
+ * Storage. Deleting rows does not remove their files, so this runs alongside
+ * response and form deletes.
+ */
+export const removeResponseFiles = async (formId: string, responseId?: string) => {
+  // Listed in full before anything is removed, so removals don't shift the
+  // pages. Each page is as long as the server's row limit allows.
+  let paths: string[] = [];
+  for (;;) {
+    const { data, error } = await supabase
+      .rpc('list_response_files', { _form_id: formId, _response_id: responseId })
+      .range(paths.length, paths.length + 999);
+
+    if (error) throw error;
+    if (data.length === 0) break;
+    paths = [...paths, ...data];
+  }
+
+  // Storage removes at most 1000 objects per request
+  for (let start = 0; start < paths.length; start += 1000) {
+    const { error: removeError } = await supabase.storage
+      .from(RESPONSE_FILES_BUCKET)
+      .remove(paths.slice(start, start + 1000));
+
+    if (removeError) throw removeError;
+  }
+};
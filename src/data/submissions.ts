@@ -0,0 +1,185 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { formKeys } from './keys';
+import { Availability, EditableResponse, PreviousResponse } from './types';
+
+// Data access for the public form, which respondents use without signing in.
+
+/** Whether the form accepts responses right now, see `get_form_availability`. */
+export const useFormAvailability = (formId: string | undefined) =>
+  useQuery({
+    queryKey: formKeys.availability(formId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_form_availability', {
+        _form_id: formId,
+      });
+
+      if (error) throw error;
+      return data as Availability;
+    },
+    enabled: Boolean(formId),
+    meta: { errorMessage: 'Failed to load form' },
+  });
+
+interface PreviousResponseInput {
+  formId: string;
+  // Signed-in respondent, for forms limited to one response per user
+  userId: string | null;
+  // See getRespondentToken in src/lib/respondents.ts
+  browserToken: string | null;
+}
+
+/**
+ * The respondent's earlier response to a form that allows one response per
+ * person, or null when there is none or the form allows any number.
+ */
+export const usePreviousResponse = (
+  { formId, userId, browserToken }: PreviousResponseInput,
+  { enabled = true } = {}
+) =>
+  useQuery({
+    queryKey: formKeys.previousResponse(formId, userId),
+    queryFn: async (): Promise<PreviousResponse | null> => {
+      const { data, error } = await supabase.rpc('get_previous_response', {
+        _form_id: formId,
+        _browser_token: browserToken ?? undefined,
+      });
+
+      if (error) throw error;
+      const [previous] = data;
+      return previous
+        ? { ...previous, answers: previous.answers as Record<string, string> | null }
+        : null;
+    },
+    enabled: Boolean(formId) && enabled,
+    meta: { errorMessage: 'Failed to load form' },
+  });
+
+interface SubmitResponseInput {
+  formId: string;
+  // Answers keyed by question id, only for visible, answered questions
+  answers: Record<string, string>;
+  // Generated up front so files can be uploaded under it before submitting
+  responseId: string;
+  // What the spam checks need, see src/lib/spamProtection.ts
+  honeypot: string;
+  fillSeconds: number;
+  captchaPass?: string;
+  // For forms limited to one response per browser
+  browserToken: string | null;
+}
+
+/**
+ * Submits a response through `submit_form_response`, which validates the
+ * answers again and inserts the whole response atomically. Rejected answers
+ * come back in the result's `errors` rather than as a failed mutation. On forms
+ * that let respondents edit their response, submitting again replaces it.
+ */
+export const useSubmitResponse = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      formId,
+      answers,
+      responseId,
+      honeypot,
+      fillSeconds,
+      captchaPass,
+      browserToken,
+    }: SubmitResponseInput) => {
+      const { data, error } = await supabase.rpc('submit_form_response', {
+        _form_id: formId,
+        _answers: answers,
+        _response_id: responseId,
+        _honeypot: honeypot,
+        _fill_seconds: fillSeconds,
+        _captcha_token: captchaPass,
+        _browser_token: browserToken ?? undefined,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, { formId }) =>
+      queryClient.invalidateQueries({ queryKey: formKeys.previousResponses(formId) }),
+    // The form may have closed or filled up since the page was loaded
+    onError: (_, { formId }) => queryClient.invalidateQueries({ queryKey: formKeys.availability(formId) }),
+  });
+};
+
+/** The response an edit link points to, or null if the link is not valid. */
+export const useEditableResponse = (formId: string, token: string | undefined, { enabled = true } = {}) =>
+  useQuery({
+    queryKey: formKeys.editableResponse(formId, token),
+    queryFn: async (): Promise<EditableResponse | null> => {
+      const { data, error } = await supabase.rpc('get_response_for_edit', {
+        _form_id: formId,
+        _token: token,
+      });
+
+      if (error) throw error;
+      const [response] = data;
+      return response ? { ...response, answers: response.answers as Record<string, string> } : null;
+    },
+    enabled: Boolean(formId) && Boolean(token) && enabled,
+    meta: { errorMessage: 'Failed to load your response' },
+  });
+
+interface EditResponseInput {
+  formId: string;
+  // The token from the edit link
+  token: string;
+  answers: Record<string, string>;
+  // Where files added in this edit were uploaded
+  uploadFolder: string;
+}
+
+/**
+ * Replaces the answers of the response an edit link points to through
+ * `update_form_response`. Like submitting, rejected answers come back in the
+ * result's `errors`.
+ */
+export const useEditResponse = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ formId, token, answers, uploadFolder }: EditResponseInput) => {
+      const { data, error } = await supabase.rpc('update_form_response', {
+        _form_id: formId,
+        _token: token,
+        _answers: answers,
+        _upload_folder: uploadFolder,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, { formId, token }) =>
+      queryClient.invalidateQueries({ queryKey: formKeys.editableResponse(formId, token) }),
+  });
+};
+
+interface VerifyCaptchaInput {
+  formId: string;
+  // The token from the CAPTCHA widget
+  token: string;
+}
+
+/**
+ * Exchanges a solved CAPTCHA for a one-time pass through the verify-captcha
+ * Edge Function. The pass is sent along with the response.
+ */
+export const useVerifyCaptcha = () =>
+  useMutation({
+    mutationFn: async ({ formId, token }: VerifyCaptchaInput) => {
+      const { data, error } = await supabase.functions.invoke<{ pass: string }>('verify-captcha', {
+        body: { form_id: formId, token },
+      });
+
+      if (error) {
+        // The function explains failures in the body of its error responses
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || 'CAPTCHA verification failed, please try again');
+      }
+      return data.pass;
+    },
+  });
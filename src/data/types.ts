@@ -0,0 +1,106 @@
+import { Database, Tables } from '@/integrations/supabase/types';
+import { QuestionType } from '@/lib/questionTypes';
+import { VisibilityRule } from '@/lib/formRules';
+import { FileLimits } from '@/lib/fileUploads';
+
+// Row types as the app uses them. Everything is derived from the generated
+// `Database` types; only JSON columns and free-text enums are narrowed here, in
+// one place, instead of in each component.
+
+type Functions = Database['public']['Functions'];
+
+/** A form on the Dashboard, with its response count and recent activity. */
+export type FormOverview = Functions['get_form_overview']['Returns'][number];
+
+export type Question = Omit<Tables<'form_questions'>, 'question_type' | 'options' | 'visibility' | 'file_limits'> & {
+  question_type: QuestionType;
+  options: string[] | null;
+  visibility: VisibilityRule | null;
+  file_limits: FileLimits | null;
+};
+
+/** The parts of a question the builder edits; new questions have no row yet. */
+export type QuestionFields = Omit<Question, 'form_id' | 'created_at'>;
+
+export type Availability = 'open' | 'not_found' | 'inactive' | 'not_yet_open' | 'closed' | 'full';
+
+/**
+ * What `submit_form_response` and `update_form_response` return: the
+ * response's id, or why it was rejected.
+ */
+export type SubmissionResult = Omit<Functions['submit_form_response']['Returns'], 'edit_token'> & {
+  // Secret token for the new response's edit link, see buildEditUrl. Only
+  // submitting a new response returns one.
+  edit_token?: string | null;
+};
+
+export type SubmissionError = SubmissionResult['errors'][number];
+
+/** The response an edit link points to, see `get_response_for_edit`. */
+export type EditableResponse = Omit<Functions['get_response_for_edit']['Returns'][number], 'answers'> & {
+  answers: Record<string, string>;
+};
+
+/** The caller's earlier response to a form limited to one per person, see `get_previous_response`. */
+export type PreviousResponse = Omit<Functions['get_previous_response']['Returns'][number], 'answers'> & {
+  // Only when the respondent may edit it
+  answers: Record<string, string> | null;
+};
+
+/** A draft saved with "save and continue later", see `get_form_draft`. */
+export type FormDraft = Omit<Functions['get_form_draft']['Returns'][number], 'answers'> & {
+  answers: Record<string, string>;
+};
+
+/** What `save_form_draft` returns: the secret resume token and when it stops working. */
+export type SavedDraft = Functions['save_form_draft']['Returns'];
+
+/** Signed links to an uploaded file: one to open it, one to save it under its original name. */
+export interface SignedFileUrl {
+  view: string;
+  download: string;
+}
+
+/** A response with its answers keyed by question id. */
+export type FormResponse = Pick<Tables<'form_responses'>, 'id' | 'submitted_at' | 'status' | 'is_spam'> & {
+  answers: Record<string, string>;
+};
+
+/** A response with its review fields and what was recorded about the submission. */
+export type ResponseDetail = FormResponse & Pick<
+  Tables<'form_responses'>,
+  'notes' | 'spam_reasons' | 'user_agent' | 'edited_at'
+> & {
+  ip_address: string | null;
+};
+
+/** A change the respondent made to their response, with the answers it replaced. */
+export type ResponseEdit = Omit<Tables<'response_edits'>, 'previous_answers'> & {
+  previous_answers: Record<string, string>;
+};
+
+export type ResponseNeighbors = Functions['get_response_neighbors']['Returns'][number];
+
+/** What the Summary tab shows for the responses matching a query, see `get_response_summary`. */
+export type ResponseAggregates = Functions['get_response_summary']['Returns'];
+
+/**
+ * Aggregates of one question's answers. `counts` are per bin of a number
+ * question rather than per value when `binned`; `recent` is newest first.
+ */
+export type QuestionAggregates = ResponseAggregates['questions'][string];
+
+/** Overall numbers for a form's responses, independent of any filters. */
+export interface ResponseStats {
+  total: number;
+  empty: number;
+  latest: string | null;
+}
+
+export const toQuestion = (row: Tables<'form_questions'>): Question => ({
+  ...row,
+  question_type: row.question_type as QuestionType,
+  options: Array.isArray(row.options) ? row.options.map(String) : null,
+  visibility: (row.visibility as VisibilityRule | null) ?? null,
+  file_limits: (row.file_limits as FileLimits | null) ?? null,
+});
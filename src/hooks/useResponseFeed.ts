@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+type FormResponseRow = Tables<'form_responses'>;
+
+/**
+ * Calls `onResponse` for each response submitted while the calling component
+ * is mounted. With a `formId` only that form's responses are reported,
+ * otherwise every response the user can see, which RLS limits to their own
+ * forms.
+ */
+export const useResponseFeed = (
+  formId: string | null,
+  onResponse: (response: FormResponseRow) => void
+) => {
+  // Keep the latest callback without resubscribing on every render
+  const callback = useRef(onResponse);
+  callback.current = onResponse;
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`form-responses:${formId ?? 'all'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'form_responses',
+          ...(formId ? { filter: `form_id=eq.${formId}` } : {}),
+        },
+        (payload) => callback.current(payload.new as FormResponseRow)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [formId]);
+};
@@ -14,9 +14,84 @@ export type Database = {
   }
   public: {
     Tables: {
+      captcha_passes: {
+        Row: {
+          created_at: string
+          expires_at: string
+          form_id: string
+          id: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string
+          form_id: string
+          id?: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          form_id?: string
+          id?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "captcha_passes_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_drafts: {
+        Row: {
+          answers: Json
+          created_at: string
+          current_page: number
+          expires_at: string
+          form_id: string
+          id: string
+          token_hash: string
+          updated_at: string
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string
+          current_page?: number
+          expires_at: string
+          form_id: string
+          id?: string
+          token_hash: string
+          updated_at?: string
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          current_page?: number
+          expires_at?: string
+          form_id?: string
+          id?: string
+          token_hash?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_drafts_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       form_questions: {
         Row: {
           created_at: string
+          description: string | null
+          file_limits: Json | null
           form_id: string
           id: string
           is_required: boolean
@@ -24,9 +99,12 @@ export type Database = {
           order_index: number
           question_text: string
           question_type: string
+          visibility: Json | null
         }
         Insert: {
           created_at?: string
+          description?: string | null
+          file_limits?: Json | null
           form_id: string
           id?: string
           is_required?: boolean
@@ -34,9 +112,12 @@ export type Database = {
           order_index: number
           question_text: string
           question_type: string
+          visibility?: Json | null
         }
         Update: {
           created_at?: string
+          description?: string | null
+          file_limits?: Json | null
           form_id?: string
           id?: string
           is_required?: boolean
@@ -44,6 +125,7 @@ export type Database = {
           order_index?: number
           question_text?: string
           question_type?: string
+          visibility?: Json | null
         }
         Relationships: [
           {
@@ -57,22 +139,49 @@ export type Database = {
       }
       form_responses: {
         Row: {
+          edit_token_hash: string | null
+          edited_at: string | null
           form_id: string
           id: string
           ip_address: unknown | null
+          is_spam: boolean
+          notes: string | null
+          respondent_key: string | null
+          spam_reasons: string[]
+          status: string
           submitted_at: string
+          upload_folders: string[]
+          user_agent: string | null
         }
         Insert: {
+          edit_token_hash?: string | null
+          edited_at?: string | null
           form_id: string
           id?: string
           ip_address?: unknown | null
+          is_spam?: boolean
+          notes?: string | null
+          respondent_key?: string | null
+          spam_reasons?: string[]
+          status?: string
           submitted_at?: string
+          upload_folders?: string[]
+          user_agent?: string | null
         }
         Update: {
+          edit_token_hash?: string | null
+          edited_at?: string | null
           form_id?: string
           id?: string
           ip_address?: unknown | null
+          is_spam?: boolean
+          notes?: string | null
+          respondent_key?: string | null
+          spam_reasons?: string[]
+          status?: string
           submitted_at?: string
+          upload_folders?: string[]
+          user_agent?: string | null
         }
         Relationships: [
           {
@@ -86,29 +195,62 @@ export type Database = {
       }
       forms: {
         Row: {
+          allow_response_edits: boolean
+          archived_at: string | null
+          captcha_required: boolean
+          closes_at: string | null
+          confirmation: Json | null
           created_at: string
           creator_id: string
           description: string | null
+          draft_expiry_days: number | null
           id: string
           is_active: boolean
+          max_responses: number | null
+          notify_on_response: string
+          one_response_per: string | null
+          opens_at: string | null
+          theme: Json | null
           title: string
           updated_at: string
         }
         Insert: {
+          allow_response_edits?: boolean
+          archived_at?: string | null
+          captcha_required?: boolean
+          closes_at?: string | null
+          confirmation?: Json | null
           created_at?: string
           creator_id: string
           description?: string | null
+          draft_expiry_days?: number | null
           id?: string
           is_active?: boolean
+          max_responses?: number | null
+          notify_on_response?: string
+          one_response_per?: string | null
+          opens_at?: string | null
+          theme?: Json | null
           title: string
           updated_at?: string
         }
         Update: {
+          allow_response_edits?: boolean
+          archived_at?: string | null
+          captcha_required?: boolean
+          closes_at?: string | null
+          confirmation?: Json | null
           created_at?: string
           creator_id?: string
           description?: string | null
+          draft_expiry_days?: number | null
           id?: string
           is_active?: boolean
+          max_responses?: number | null
+          notify_on_response?: string
+          one_response_per?: string | null
+          opens_at?: string | null
+          theme?: Json | null
           title?: string
           updated_at?: string
         }
@@ -180,12 +322,396 @@ export type Database = {
           },
         ]
       }
+      response_edits: {
+        Row: {
+          edited_at: string
+          form_response_id: string
+          id: string
+          previous_answers: Json
+        }
+        Insert: {
+          edited_at?: string
+          form_response_id: string
+          id?: string
+          previous_answers: Json
+        }
+        Update: {
+          edited_at?: string
+          form_response_id?: string
+          id?: string
+          previous_answers?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "response_edits_form_response_id_fkey"
+            columns: ["form_response_id"]
+            isOneToOne: false
+            referencedRelation: "form_responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      response_notifications: {
+        Row: {
+          claim_id: string | null
+          claimed_at: string | null
+          form_id: string
+          form_response_id: string
+          id: string
+          queued_at: string
+          sent_at: string | null
+        }
+        Insert: {
+          claim_id?: string | null
+          claimed_at?: string | null
+          form_id: string
+          form_response_id: string
+          id?: string
+          queued_at?: string
+          sent_at?: string | null
+        }
+        Update: {
+          claim_id?: string | null
+          claimed_at?: string | null
+          form_id?: string
+          form_response_id?: string
+          id?: string
+          queued_at?: string
+          sent_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "response_notifications_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "response_notifications_form_response_id_fkey"
+            columns: ["form_response_id"]
+            isOneToOne: true
+            referencedRelation: "form_responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_due_notifications: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          form_id: string
+          frequency: string
+          claim_id: string
+          response_ids: string[]
+        }[]
+      }
+      client_ip_from_headers: {
+        Args: { _headers: Json }
+        Returns: unknown
+      }
+      delete_empty_responses: {
+        Args: { _form_id: string }
+        Returns: number
+      }
+      delete_form_draft: {
+        Args: { _form_id: string; _token: string }
+        Returns: undefined
+      }
+      evaluate_condition: {
+        Args: { condition: Json; answers: Json; question_types: Json }
+        Returns: boolean
+      }
+      evaluate_visibility: {
+        Args: { rule: Json; answers: Json; question_types: Json }
+        Returns: boolean
+      }
+      export_form_responses: {
+        Args: {
+          _form_id: string
+          _search?: string
+          _submitted_from?: string
+          _submitted_to?: string
+          _filters?: Json
+          _status?: string
+          _spam?: string
+          _after_submitted_at?: string
+          _after_id?: string
+          _limit?: number
+        }
+        Returns: {
+          id: string
+          submitted_at: string
+          status: string
+          is_spam: boolean
+          answers: Json
+        }[]
+      }
+      get_form_availability: {
+        Args: { _form_id: string }
+        Returns: string
+      }
+      get_form_draft: {
+        Args: { _form_id: string; _token: string }
+        Returns: {
+          answers: Json
+          current_page: number
+          expires_at: string
+        }[]
+      }
+      get_form_overview: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          title: string
+          description: string | null
+          is_active: boolean
+          archived_at: string | null
+          opens_at: string | null
+          closes_at: string | null
+          max_responses: number | null
+          created_at: string
+          response_count: number
+          spots_taken: number
+          last_response_at: string | null
+          daily_counts: number[]
+        }[]
+      }
+      get_previous_response: {
+        Args: { _form_id: string; _browser_token?: string }
+        Returns: {
+          response_id: string
+          submitted_at: string
+          can_edit: boolean
+          answers: Json | null
+        }[]
+      }
+      get_public_form: {
+        Args: { _form_id: string }
+        Returns: {
+          id: string
+          title: string
+          description: string | null
+          opens_at: string | null
+          draft_expiry_days: number | null
+          captcha_required: boolean
+          one_response_per: string | null
+          allow_response_edits: boolean
+          theme: Json | null
+          confirmation: Json | null
+        }[]
+      }
+      get_respondent_key: {
+        Args: { _mode: string; _browser_token: string }
+        Returns: string
+      }
+      get_response_for_edit: {
+        Args: { _form_id: string; _token: string }
+        Returns: {
+          response_id: string
+          submitted_at: string
+          edited_at: string | null
+          can_edit: boolean
+          answers: Json
+        }[]
+      }
+      get_response_neighbors: {
+        Args: {
+          _response_id: string
+          _form_id: string
+          _search?: string
+          _submitted_from?: string
+          _submitted_to?: string
+          _filters?: Json
+          _sort_question?: string
+          _sort_desc?: boolean
+          _status?: string
+          _spam?: string
+        }
+        Returns: {
+          previous_id: string | null
+          next_id: string | null
+          position: number
+          total_count: number
+        }[]
+      }
+      get_response_summary: {
+        Args: {
+          _form_id: string
+          _search?: string
+          _submitted_from?: string
+          _submitted_to?: string
+          _filters?: Json
+          _status?: string
+          _spam?: string
+        }
+        Returns: {
+          total: number
+          by_day: { day: string; count: number }[]
+          questions: {
+            [question_id: string]: {
+              answered: number
+              counts: { value: string | number; count: number }[]
+              binned: boolean
+              min: number | null
+              max: number | null
+              mean: number | null
+              median: number | null
+              words: { label: string; count: number }[]
+              recent: string[]
+            }
+          }
+        }
+      }
+      get_request_ip: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      get_request_user_agent: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_any_answer: {
+        Args: { _form_id: string; _answers: Json }
+        Returns: boolean
+      }
+      hash_draft_token: {
+        Args: { _token: string }
+        Returns: string
+      }
+      is_active_form: {
+        Args: { _form_id: string }
+        Returns: boolean
+      }
+      is_available_upload_folder: {
+        Args: { _response_id: string; _folder: string }
+        Returns: boolean
+      }
+      is_pending_response_file: {
+        Args: { _name: string }
+        Returns: boolean
+      }
+      issue_captcha_pass: {
+        Args: { _form_id: string }
+        Returns: string
+      }
+      list_response_files: {
+        Args: { _form_id: string; _response_id?: string }
+        Returns: string[]
+      }
+      list_stale_response_files: {
+        Args: { _older_than?: unknown; _limit?: number }
+        Returns: string[]
+      }
+      mark_notifications_sent: {
+        Args: { _claim_id: string }
+        Returns: undefined
+      }
+      parse_multi_answer: {
+        Args: { _answer: string }
+        Returns: string[]
+      }
+      referenced_file_paths: {
+        Args: { _text: string }
+        Returns: string[]
+      }
+      release_notification_claim: {
+        Args: { _claim_id: string }
+        Returns: undefined
+      }
+      save_form: {
+        Args: { _form_id: string | null; _settings: Json; _questions: Json }
+        Returns: string
+      }
+      save_form_draft: {
+        Args: {
+          _form_id: string
+          _answers: Json
+          _current_page?: number
+          _token?: string
+        }
+        Returns: {
+          token: string
+          expires_at: string
+        }
+      }
+      save_response_edit: {
+        Args: { _response_id: string; _answers: Json; _upload_folder: string }
+        Returns: undefined
+      }
+      search_form_responses: {
+        Args: {
+          _form_id: string
+          _search?: string
+          _submitted_from?: string
+          _submitted_to?: string
+          _filters?: Json
+          _sort_question?: string
+          _sort_desc?: boolean
+          _limit?: number
+          _offset?: number
+          _status?: string
+          _spam?: string
+        }
+        Returns: {
+          id: string
+          submitted_at: string
+          status: string
+          is_spam: boolean
+          answers: Json
+          total_count: number
+        }[]
+      }
+      submit_form_response: {
+        Args: {
+          _form_id: string
+          _answers: Json
+          _response_id?: string
+          _honeypot?: string
+          _fill_seconds?: number
+          _captcha_token?: string
+          _browser_token?: string
+        }
+        Returns: {
+          response_id: string | null
+          edit_token: string | null
+          errors: { question_id: string | null; message: string }[]
+        }
+      }
+      update_form_response: {
+        Args: {
+          _form_id: string
+          _token: string
+          _answers: Json
+          _upload_folder?: string
+        }
+        Returns: {
+          response_id: string | null
+          errors: { question_id: string | null; message: string }[]
+        }
+      }
+      validate_answer: {
+        Args: { question_type: string; options: Json; answer: string }
+        Returns: string
+      }
+      validate_file_answer: {
+        Args: {
+          _form_id: string
+          _folders: string[]
+          _question_id: string
+          _limits: Json
+          _answer: string
+        }
+        Returns: string
+      }
+      validate_form_answers: {
+        Args: { _form_id: string; _answers: Json; _file_folders: string[] }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,81 @@
+import { isSection } from '@/lib/questionTypes';
+import { getQuestionLabels } from '@/lib/formRules';
+import { getPipedQuestionIds, remapPipedQuestionIds } from '@/lib/piping';
+
+// What respondents see after submitting, stored in `forms.confirmation`. NULL
+// means the default thank-you message with no extras. A type alias rather
+// than an interface so it is assignable to the `Json` column type.
+//
+// The message is light Markdown (see RichText) and may recall answers with the
+// same `{{question:<id>}}` placeholders as question text (see piping.ts),
+// which the builder shows as "[Q1]"-style labels.
+
+export type FormConfirmation = {
+  message?: string;
+  redirect_url?: string | null;
+  // Seconds to wait before redirecting, so the message can be read
+  redirect_delay?: number;
+  allow_another?: boolean;
+  show_answers?: boolean;
+};
+
+export const DEFAULT_CONFIRMATION_MESSAGE =
+  '**Thank You!**\n\nYour response has been submitted successfully. We appreciate your feedback.';
+
+export const DEFAULT_REDIRECT_DELAY = 5;
+export const MAX_REDIRECT_DELAY = 60;
+
+/** Only http(s) URLs, so a redirect can't run script or leave the web. */
+export const isValidRedirectUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+/** Problems that would keep the confirmation from working, for the builder. */
+export const findConfirmationProblems = (
+  confirmation: FormConfirmation,
+  questions: { id: string; question_text: string; question_type: string }[]
+) => {
+  const problems: string[] = [];
+  if (confirmation.redirect_url && !isValidRedirectUrl(confirmation.redirect_url)) {
+    problems.push('The redirect URL must start with http:// or https://');
+  }
+  const labels = getQuestionLabels(questions);
+  new Set(getPipedQuestionIds(confirmation.message)).forEach(id => {
+    const index = questions.findIndex(q => q.id === id);
+    if (index < 0) {
+      problems.push('The confirmation message recalls an answer to a question that no longer exists');
+    } else if (isSection(questions[index].question_type)) {
+      problems.push(`The confirmation message recalls ${labels[index]}, which has no answer`);
+    }
+  });
+  return problems;
+};
+
+/** Rewrites the question ids the message recalls, e.g. when a form is duplicated. */
+export const remapConfirmationQuestionIds = (
+  confirmation: FormConfirmation | null,
+  idMap: Map<string, string>
+): FormConfirmation | null =>
+  confirmation?.message
+    ? { ...confirmation, message: remapPipedQuestionIds(confirmation.message, idMap) }
+    : confirmation;
+
+/** Trims the fields and drops empty ones so an untouched confirmation is stored as null. */
+export const normalizeConfirmation = (confirmation: FormConfirmation): FormConfirmation | null => {
+  const message = confirmation.message?.trim();
+  const redirectUrl = confirmation.redirect_url?.trim();
+  const normalized: FormConfirmation = {
+    ...(message ? { message } : {}),
+    ...(redirectUrl
+      ? { redirect_url: redirectUrl, redirect_delay: confirmation.redirect_delay ?? DEFAULT_REDIRECT_DELAY }
+      : {}),
+    ...(confirmation.allow_another ? { allow_another: true } : {}),
+    ...(confirmation.show_answers ? { show_answers: true } : {}),
+  };
+  return Object.keys(normalized).length > 0 ? normalized : null;
+};
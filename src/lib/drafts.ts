@@ -0,0 +1,68 @@
+// Respondents' unfinished answers, kept in localStorage per form so closing the
+// tab doesn't lose them. Storage can be unavailable or full (private browsing,
+// quotas), in which case drafts are silently not kept.
+
+export interface LocalDraft {
+  answers: Record<string, string>;
+  page: number;
+  // Token of the matching "save and continue later" draft on the server, if any
+  resume_token: string | null;
+  saved_at: string;
+}
+
+// Drafts older than this are dropped rather than restored
+const MAX_LOCAL_DRAFT_AGE_DAYS = 30;
+
+// How long "save and continue later" drafts last on the server by default, and
+// at most (see forms.draft_expiry_days)
+export const DEFAULT_DRAFT_EXPIRY_DAYS = 7;
+export const MAX_DRAFT_EXPIRY_DAYS = 365;
+
+/** The query parameter that carries the token in a resume link. */
+export const RESUME_PARAM = 'resume';
+
+const storageKey = (formId: string) => `form-draft:${formId}`;
+
+export const loadLocalDraft = (formId: string): LocalDraft | null => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(formId));
+    if (!stored) return null;
+
+    const draft = JSON.parse(stored) as LocalDraft;
+    const age = Date.now() - new Date(draft.saved_at).getTime();
+    if (!draft.answers || !(age < MAX_LOCAL_DRAFT_AGE_DAYS * 24 * 60 * 60 * 1000)) {
+      window.localStorage.removeItem(storageKey(formId));
+      return null;
+    }
+    return draft;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLocalDraft = (formId: string, draft: Omit<LocalDraft, 'saved_at'>) => {
+  try {
+    window.localStorage.setItem(
+      storageKey(formId),
+      JSON.stringify({ ...draft, saved_at: new Date().toISOString() })
+    );
+  } catch {
+    // Not being able to keep a draft shouldn't get in the way of filling in the form
+  }
+};
+
+export const clearLocalDraft = (formId: string) => {
+  try {
+    window.localStorage.removeItem(storageKey(formId));
+  } catch {
+    // See saveLocalDraft
+  }
+};
+
+/** Drops answers to questions the form no longer has. */
+export const keepKnownAnswers = (answers: Record<string, string>, questionIds: string[]) =>
+  Object.fromEntries(Object.entries(answers).filter(([id]) => questionIds.includes(id)));
+
+/** The link that reopens the form with a saved draft. */
+export const buildResumeUrl = (formId: string, token: string) =>
+  `${window.location.origin}/form/${formId}?${RESUME_PARAM}=${encodeURIComponent(token)}`;
@@ -0,0 +1,101 @@
+// Limits for file upload questions, stored in `form_questions.file_limits`.
+// NULL or missing fields mean the defaults below. The server checks uploaded
+// files against the same limits in `public.validate_file_answer`, so keep the
+// messages in sync. A type alias rather than an interface so it is assignable
+// to the `Json` column type.
+
+export type FileLimits = {
+  max_files?: number;
+  max_size_mb?: number;
+  // MIME types, or whole families such as "image/*". Empty allows any type.
+  allowed_types?: string[];
+};
+
+export const DEFAULT_FILE_LIMITS: Required<FileLimits> = {
+  max_files: 1,
+  max_size_mb: 10,
+  allowed_types: [],
+};
+
+// The most a question may allow; the Storage bucket enforces the size too
+export const MAX_FILES = 10;
+export const MAX_FILE_SIZE_MB = 25;
+
+/** Kinds of files creators can pick from, each a set of MIME types. */
+export const FILE_TYPE_GROUPS: { value: string; label: string; types: string[]; extensions: string }[] = [
+  { value: 'images', label: 'Images', types: ['image/*'], extensions: 'PNG, JPG, GIF, ...' },
+  { value: 'pdf', label: 'PDF', types: ['application/pdf'], extensions: 'PDF' },
+  {
+    value: 'documents',
+    label: 'Documents',
+    types: [
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.oasis.opendocument.text',
+      'text/plain',
+    ],
+    extensions: 'DOC, DOCX, ODT, TXT',
+  },
+  {
+    value: 'spreadsheets',
+    label: 'Spreadsheets',
+    types: [
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.oasis.opendocument.spreadsheet',
+      'text/csv',
+    ],
+    extensions: 'XLS, XLSX, ODS, CSV',
+  },
+];
+
+export const getFileLimits = (limits: FileLimits | null | undefined): Required<FileLimits> => ({
+  ...DEFAULT_FILE_LIMITS,
+  ...limits,
+  allowed_types: limits?.allowed_types ?? DEFAULT_FILE_LIMITS.allowed_types,
+});
+
+export const isTypeAllowed = (type: string, allowedTypes: string[]) =>
+  allowedTypes.length === 0 ||
+  allowedTypes.some(pattern =>
+    pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern
+  );
+
+/** Why `file` can't be uploaded for a question with these limits, or null. */
+export const checkFile = (file: File, limits: Required<FileLimits>) => {
+  if (!isTypeAllowed(file.type, limits.allowed_types)) {
+    return `${file.name}: This type of file is not allowed`;
+  }
+  if (file.size > limits.max_size_mb * 1024 * 1024) {
+    return `${file.name}: Files must be ${limits.max_size_mb} MB or smaller`;
+  }
+  return null;
+};
+
+/** Human-readable list of the allowed kinds of files, e.g. "Images, PDF". */
+export const describeAllowedTypes = (allowedTypes: string[]) => {
+  if (allowedTypes.length === 0) return 'Any file';
+  const groups = FILE_TYPE_GROUPS.filter(group => group.types.every(t => allowedTypes.includes(t)));
+  const covered = groups.flatMap(group => group.types);
+  return [...groups.map(group => group.label), ...allowedTypes.filter(t => !covered.includes(t))].join(', ');
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Trims limits down to what differs from the defaults, or null when nothing does. */
+export const normalizeFileLimits = (limits: FileLimits): FileLimits | null => {
+  const normalized: FileLimits = {
+    ...(limits.max_files && limits.max_files !== DEFAULT_FILE_LIMITS.max_files
+      ? { max_files: limits.max_files }
+      : {}),
+    ...(limits.max_size_mb && limits.max_size_mb !== DEFAULT_FILE_LIMITS.max_size_mb
+      ? { max_size_mb: limits.max_size_mb }
+      : {}),
+    ...(limits.allowed_types?.length ? { allowed_types: limits.allowed_types } : {}),
+  };
+  return Object.keys(normalized).length > 0 ? normalized : null;
+};
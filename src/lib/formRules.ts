@@ -0,0 +1,244 @@
+import { parseMultiAnswer } from '@/lib/questionTypes';
+
+// Visibility rules are stored per question in `form_questions.visibility`.
+// A question with no rule is always shown. Otherwise it is shown when the rule
+// matches: `match: 'all'` requires every group to match, `'any'` at least one,
+// and each group combines its own conditions the same way.
+//
+// The same semantics are implemented in SQL by `public.evaluate_visibility`
+// (see supabase/migrations); keep the two in sync. The rule shapes are type
+// aliases rather than interfaces so they are assignable to the `Json` column type.
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_answered'
+  | 'is_not_answered';
+
+export type RuleMatch = 'all' | 'any';
+
+export type RuleCondition = {
+  question_id: string;
+  operator: ConditionOperator;
+  value?: string;
+};
+
+export type RuleGroup = {
+  match: RuleMatch;
+  conditions: RuleCondition[];
+};
+
+export type VisibilityRule = {
+  match: RuleMatch;
+  groups: RuleGroup[];
+};
+
+interface RuleQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  visibility?: VisibilityRule | null;
+}
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'is', needsValue: true },
+  { value: 'not_equals', label: 'is not', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not_contains', label: 'does not contain', needsValue: true },
+  { value: 'greater_than', label: 'is greater than', needsValue: true },
+  { value: 'less_than', label: 'is less than', needsValue: true },
+  { value: 'is_answered', label: 'is answered', needsValue: false },
+  { value: 'is_not_answered', label: 'is not answered', needsValue: false },
+];
+
+const NUMERIC_TYPES = ['number', 'linear_scale', 'rating', 'nps'];
+const TEXT_TYPES = ['text', 'short_text', 'email', 'url', 'phone'];
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/** Operators that make sense for a condition on a question of `type`. */
+export const getOperatorsForType = (type: string) =>
+  CONDITION_OPERATORS.filter(op => {
+    if (op.value === 'greater_than' || op.value === 'less_than') {
+      return NUMERIC_TYPES.includes(type);
+    }
+    // Uploaded files can only be checked for being there
+    if (type === 'file_upload') return !op.needsValue;
+    if (op.value === 'contains' || op.value === 'not_contains') {
+      return TEXT_TYPES.includes(type);
+    }
+    return true;
+  });
+
+/** The operator a new condition on a question of `type` starts with. */
+export const getDefaultOperator = (type: string) => getOperatorsForType(type)[0].value;
+
+export const operatorNeedsValue = (operator: ConditionOperator) =>
+  CONDITION_OPERATORS.find(op => op.value === operator)?.needsValue ?? false;
+
+const isAnswered = (answer: string | undefined) =>
+  answer !== undefined && answer.trim() !== '' && answer !== '[]';
+
+const evaluateCondition = (
+  condition: RuleCondition,
+  answers: Record<string, string>,
+  questionTypes: Record<string, string>
+) => {
+  const answer = answers[condition.question_id]?.trim();
+  const expected = condition.value?.trim() ?? '';
+  const answered = isAnswered(answer);
+
+  if (condition.operator === 'is_answered') return answered;
+  if (condition.operator === 'is_not_answered') return !answered;
+  if (!answered) {
+    return condition.operator === 'not_equals' || condition.operator === 'not_contains';
+  }
+
+  switch (condition.operator) {
+    case 'equals':
+    case 'not_equals': {
+      const matches = questionTypes[condition.question_id] === 'checkboxes'
+        ? parseMultiAnswer(answer).includes(expected)
+        : answer === expected;
+      return condition.operator === 'equals' ? matches : !matches;
+    }
+    case 'contains':
+      return answer.toLowerCase().includes(expected.toLowerCase());
+    case 'not_contains':
+      return !answer.toLowerCase().includes(expected.toLowerCase());
+    case 'greater_than':
+    case 'less_than':
+      if (!NUMBER_PATTERN.test(answer) || !NUMBER_PATTERN.test(expected)) return false;
+      return condition.operator === 'greater_than'
+        ? Number(answer) > Number(expected)
+        : Number(answer) < Number(expected);
+    default:
+      return false;
+  }
+};
+
+const combine = <T,>(match: RuleMatch, items: T[], test: (item: T) => boolean) =>
+  items.length === 0 || (match === 'all' ? items.every(test) : items.some(test));
+
+export const evaluateVisibility = (
+  rule: VisibilityRule | null | undefined,
+  answers: Record<string, string>,
+  questionTypes: Record<string, string>
+) => {
+  if (!rule) return true;
+  return combine(rule.match, rule.groups, group =>
+    combine(group.match, group.conditions, condition =>
+      evaluateCondition(condition, answers, questionTypes)
+    )
+  );
+};
+
+/**
+ * Returns the ids of the questions that are currently visible. Questions are
+ * evaluated in order and answers to hidden questions are ignored, so hiding a
+ * question also hides anything that depends on it. A hidden section hides
+ * every question up to the next section, which is how branching skips pages.
+ */
+export const getVisibleQuestionIds = (
+  questions: RuleQuestion[],
+  answers: Record<string, string>
+) => {
+  const questionTypes = Object.fromEntries(questions.map(q => [q.id, q.question_type]));
+  const effectiveAnswers: Record<string, string> = {};
+  const visible = new Set<string>();
+
+  let sectionVisible = true;
+
+  for (const question of questions) {
+    if (question.question_type === 'section') {
+      sectionVisible = evaluateVisibility(question.visibility, effectiveAnswers, questionTypes);
+      if (sectionVisible) {
+        visible.add(question.id);
+      }
+      continue;
+    }
+
+    if (sectionVisible && evaluateVisibility(question.visibility, effectiveAnswers, questionTypes)) {
+      visible.add(question.id);
+      if (answers[question.id] !== undefined) {
+        effectiveAnswers[question.id] = answers[question.id];
+      }
+    }
+  }
+
+  return visible;
+};
+
+export const hasConditions = (rule: VisibilityRule | null | undefined) =>
+  Boolean(rule?.groups.some(group => group.conditions.length > 0));
+
+/** Short labels for builder messages: "Q3" for questions, the title for sections. */
+export const getQuestionLabels = (questions: { question_text: string; question_type: string }[]) => {
+  let number = 0;
+  return questions.map(q =>
+    q.question_type === 'section' ? `Section "${q.question_text}"` : `Q${++number}`
+  );
+};
+
+/**
+ * Checks that every condition refers to a question that still exists and comes
+ * earlier in the form. Returns one message per problem.
+ */
+export const findRuleProblems = (questions: RuleQuestion[]) => {
+  const problems: string[] = [];
+  const positions = new Map(questions.map((q, index) => [q.id, index]));
+  const labels = getQuestionLabels(questions);
+
+  questions.forEach((question, index) => {
+    question.visibility?.groups.forEach(group => {
+      group.conditions.forEach(condition => {
+        const target = positions.get(condition.question_id);
+        if (target === undefined) {
+          problems.push(`${labels[index]} has a condition on a question that no longer exists`);
+        } else if (target >= index) {
+          problems.push(`${labels[index]} has a condition on ${labels[target]}, which does not come before it`);
+        } else if (operatorNeedsValue(condition.operator) && !condition.value?.trim()) {
+          problems.push(`${labels[index]} has a condition without a value`);
+        }
+      });
+    });
+  });
+
+  return problems;
+};
+
+/** Drops conditions that refer to `questionId`, along with any groups left empty. */
+export const removeConditionsOn = (
+  rule: VisibilityRule | null | undefined,
+  questionId: string
+): VisibilityRule | null => {
+  if (!rule) return null;
+  const groups = rule.groups
+    .map(group => ({
+      ...group,
+      conditions: group.conditions.filter(c => c.question_id !== questionId),
+    }))
+    .filter(group => group.conditions.length > 0);
+  return groups.length > 0 ? { ...rule, groups } : null;
+};
+
+/** Rewrites the question ids a rule refers to, e.g. when a form is duplicated. */
+export const remapRuleQuestionIds = (
+  rule: VisibilityRule | null | undefined,
+  idMap: Map<string, string>
+): VisibilityRule | null => {
+  if (!rule) return null;
+  return {
+    ...rule,
+    groups: rule.groups.map(group => ({
+      ...group,
+      conditions: group.conditions.map(condition => ({
+        ...condition,
+        question_id: idMap.get(condition.question_id) ?? condition.question_id,
+      })),
+    })),
+  };
+};
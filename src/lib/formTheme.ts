@@ -0,0 +1,123 @@
+import { CSSProperties } from 'react';
+
+// Per-form branding, stored in `forms.theme`. Every field is optional and a
+// missing field falls back to the app's own look, so `null` is a valid theme.
+// Colors are '#rrggbb' hex strings; images are public URLs in the
+// `form-assets` storage bucket. A type alias rather than an interface so it is
+// assignable to the `Json` column type.
+
+export type ThemeMode = 'light' | 'dark';
+
+export type ThemeFont = 'sans' | 'serif' | 'mono' | 'rounded';
+
+export type FormTheme = {
+  primary_color?: string;
+  accent_color?: string;
+  font?: ThemeFont;
+  mode?: ThemeMode;
+  logo_url?: string | null;
+  header_image_url?: string | null;
+  background_color?: string;
+  background_image_url?: string | null;
+  submit_label?: string;
+  next_label?: string;
+  back_label?: string;
+};
+
+export const THEME_FONTS: { value: ThemeFont; label: string; stack: string }[] = [
+  { value: 'sans', label: 'Sans Serif', stack: 'ui-sans-serif, system-ui, sans-serif' },
+  { value: 'serif', label: 'Serif', stack: 'ui-serif, Georgia, Cambria, "Times New Roman", serif' },
+  { value: 'mono', label: 'Monospace', stack: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' },
+  { value: 'rounded', label: 'Rounded', stack: 'ui-rounded, "SF Pro Rounded", "Nunito", system-ui, sans-serif' },
+];
+
+export const DEFAULT_BUTTON_LABELS = {
+  submit: 'Submit Response',
+  next: 'Next',
+  back: 'Back',
+};
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: string | undefined) => Boolean(value && HEX_PATTERN.test(value));
+
+const toRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+
+/** '#rrggbb' as the 'H S% L%' triple the design system's CSS variables use. */
+export const hexToHsl = (hex: string) => {
+  const [r, g, b] = toRgb(hex);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  return `${hue.toFixed(1)} ${(saturation * 100).toFixed(1)}% ${(lightness * 100).toFixed(1)}%`;
+};
+
+// Near-white or near-black text, whichever reads better on `hex` (WCAG relative luminance)
+const contrastingForeground = (hex: string) => {
+  const [r, g, b] = toRgb(hex).map(c => (c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4));
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminance > 0.4 ? '222.2 47.4% 11.2%' : '210 40% 98%';
+};
+
+export const getThemeMode = (theme: FormTheme | null | undefined): ThemeMode =>
+  theme?.mode === 'dark' ? 'dark' : 'light';
+
+export const getButtonLabels = (theme: FormTheme | null | undefined) => ({
+  submit: theme?.submit_label?.trim() || DEFAULT_BUTTON_LABELS.submit,
+  next: theme?.next_label?.trim() || DEFAULT_BUTTON_LABELS.next,
+  back: theme?.back_label?.trim() || DEFAULT_BUTTON_LABELS.back,
+});
+
+/**
+ * Inline styles that apply `theme` to an element and its descendants by
+ * overriding the design system's CSS variables, so buttons, inputs and focus
+ * rings pick up the colors without any changes to the ui components.
+ */
+export const getThemeStyle = (theme: FormTheme | null | undefined): CSSProperties => {
+  const style: Record<string, string> = {};
+  if (!theme) return style;
+
+  if (isHexColor(theme.primary_color)) {
+    style['--primary'] = hexToHsl(theme.primary_color);
+    style['--primary-foreground'] = contrastingForeground(theme.primary_color);
+    style['--ring'] = hexToHsl(theme.primary_color);
+  }
+  if (isHexColor(theme.accent_color)) {
+    style['--accent'] = hexToHsl(theme.accent_color);
+    style['--accent-foreground'] = contrastingForeground(theme.accent_color);
+  }
+  const font = THEME_FONTS.find(f => f.value === theme.font);
+  if (font) {
+    style.fontFamily = font.stack;
+  }
+  if (isHexColor(theme.background_color)) {
+    style.backgroundColor = theme.background_color;
+  }
+  if (theme.background_image_url) {
+    style.backgroundImage = `url("${encodeURI(theme.background_image_url)}")`;
+    style.backgroundSize = 'cover';
+    style.backgroundPosition = 'center';
+    style.backgroundAttachment = 'fixed';
+  }
+  return style;
+};
+
+/** Drops empty fields so an untouched theme is stored as null. */
+export const normalizeTheme = (theme: FormTheme): FormTheme | null => {
+  const entries = Object.entries(theme).filter(([, value]) =>
+    typeof value === 'string' ? value.trim() !== '' : value != null
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as FormTheme) : null;
+};
@@ -0,0 +1,13 @@
+// How often a form's creator is emailed about new responses
+// (forms.notify_on_response). Emails are sent by the send-notifications Edge
+// Function to the address of the creator's account; digests list every
+// response since the previous email.
+
+export type NotificationFrequency = 'off' | 'instant' | 'hourly' | 'daily';
+
+export const NOTIFICATION_FREQUENCIES: { value: NotificationFrequency; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'No emails about new responses.' },
+  { value: 'instant', label: 'Every response', description: 'An email for each new response, with its answers.' },
+  { value: 'hourly', label: 'Hourly digest', description: 'At most one email an hour, listing the new responses.' },
+  { value: 'daily', label: 'Daily digest', description: 'At most one email a day, listing the new responses.' },
+];
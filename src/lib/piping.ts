@@ -0,0 +1,82 @@
+import { formatAnswer, isSection } from '@/lib/questionTypes';
+import { getQuestionLabels } from '@/lib/formRules';
+
+// Answer piping: question text, descriptions and the confirmation message may
+// recall an answer with a `{{question:<id>}}` placeholder, which the public
+// form replaces with the respondent's answer as they type. Placeholders hold
+// question ids rather than numbers so they survive reordering, and
+// findPipeProblems keeps them pointing at questions that exist and come
+// earlier.
+
+const PIPE_PATTERN = /\{\{\s*question:([0-9a-f-]{36})\s*\}\}/gi;
+
+interface PipeQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  description?: string | null;
+}
+
+export const toPipePlaceholder = (questionId: string) => `{{question:${questionId}}}`;
+
+/** Appends a placeholder to the text, separated by a space if needed. */
+export const appendPlaceholder = (text: string, placeholder: string) =>
+  text && !/\s$/.test(text) ? `${text} ${placeholder}` : text + placeholder;
+
+/** Ids of the questions `text` recalls answers from, in order of appearance. */
+export const getPipedQuestionIds = (text: string | null | undefined) =>
+  Array.from((text ?? '').matchAll(PIPE_PATTERN), match => match[1].toLowerCase());
+
+/** Replaces placeholders with the formatted answers, or nothing while unanswered. */
+export const pipeAnswers = (
+  text: string,
+  questions: { id: string; question_type: string }[],
+  answers: Record<string, string>
+) =>
+  text.replace(PIPE_PATTERN, (_, id: string) => {
+    const question = questions.find(q => q.id === id.toLowerCase());
+    return question ? formatAnswer(question.question_type, answers[question.id]) : '';
+  });
+
+/** Replaces placeholders with "[Q2]"-style labels, for the builder and response views. */
+export const describePipes = (text: string, questions: PipeQuestion[]) => {
+  if (!text.includes('{{')) return text;
+  const labels = getQuestionLabels(questions);
+  return text.replace(PIPE_PATTERN, (_, id: string) => {
+    const index = questions.findIndex(q => q.id === id.toLowerCase());
+    return index >= 0 ? `[${labels[index]}]` : '[deleted question]';
+  });
+};
+
+/**
+ * Checks that every placeholder recalls a question that still exists and comes
+ * earlier in the form. Returns one message per problem.
+ */
+export const findPipeProblems = (questions: PipeQuestion[]) => {
+  const problems: string[] = [];
+  const positions = new Map(questions.map((q, index) => [q.id, index]));
+  const labels = getQuestionLabels(questions);
+
+  questions.forEach((question, index) => {
+    const ids = [...getPipedQuestionIds(question.question_text), ...getPipedQuestionIds(question.description)];
+    new Set(ids).forEach(id => {
+      const target = positions.get(id);
+      if (target === undefined) {
+        problems.push(`${labels[index]} recalls an answer to a question that no longer exists`);
+      } else if (isSection(questions[target].question_type)) {
+        problems.push(`${labels[index]} recalls ${labels[target]}, which has no answer`);
+      } else if (target >= index) {
+        problems.push(`${labels[index]} recalls ${labels[target]}, which does not come before it`);
+      }
+    });
+  });
+
+  return problems;
+};
+
+/** Rewrites the question ids placeholders refer to, e.g. when a form is duplicated. */
+export const remapPipedQuestionIds = <T extends string | null>(text: T, idMap: Map<string, string>): T =>
+  (text && text.replace(PIPE_PATTERN, (placeholder, id: string) => {
+    const mapped = idMap.get(id.toLowerCase());
+    return mapped ? toPipePlaceholder(mapped) : placeholder;
+  })) as T;
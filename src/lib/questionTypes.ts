@@ -0,0 +1,208 @@
+import { FileLimits, getFileLimits } from '@/lib/fileUploads';
+
+// Registry of the question types a form can contain, and how their answers are
+// encoded in `question_responses.answer_text` (always a string):
+//
+// - checkboxes:              JSON array of the selected options, e.g. '["A","C"]'
+// - number:                  decimal number, e.g. '42' or '-3.5'
+// - date:                    ISO date, 'YYYY-MM-DD'
+// - time:                    24h time, 'HH:MM'
+// - linear_scale/rating/nps: integer within the type's range
+// - yes_no:                  'yes' or 'no'
+// - file_upload:             JSON array of the uploaded files, see UploadedFile
+// - everything else:         the raw text / selected option
+//
+// 'section' is not a question: it starts a new page in the public form and is
+// never answered.
+
+export type QuestionType =
+  | 'text'
+  | 'short_text'
+  | 'multiple_choice'
+  | 'checkboxes'
+  | 'dropdown'
+  | 'number'
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'date'
+  | 'time'
+  | 'linear_scale'
+  | 'rating'
+  | 'nps'
+  | 'yes_no'
+  | 'file_upload'
+  | 'section';
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'short_text', label: 'Short Answer' },
+  { value: 'text', label: 'Paragraph' },
+  { value: 'multiple_choice', label: 'Multiple Choice' },
+  { value: 'checkboxes', label: 'Checkboxes' },
+  { value: 'dropdown', label: 'Dropdown' },
+  { value: 'number', label: 'Number' },
+  { value: 'email', label: 'Email' },
+  { value: 'url', label: 'URL' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'date', label: 'Date' },
+  { value: 'time', label: 'Time' },
+  { value: 'linear_scale', label: 'Linear Scale (1-10)' },
+  { value: 'rating', label: 'Star Rating' },
+  { value: 'nps', label: 'Net Promoter Score (0-10)' },
+  { value: 'yes_no', label: 'Yes / No' },
+  { value: 'file_upload', label: 'File Upload' },
+  { value: 'section', label: 'Section / Page Break' },
+];
+
+// Inclusive ranges for the numeric scale types.
+export const SCALE_RANGES: Partial<Record<QuestionType, { min: number; max: number }>> = {
+  linear_scale: { min: 1, max: 10 },
+  rating: { min: 1, max: 5 },
+  nps: { min: 0, max: 10 },
+};
+
+const OPTION_TYPES: QuestionType[] = ['multiple_choice', 'checkboxes', 'dropdown'];
+
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9\s().-]{6,20}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const getQuestionTypeLabel = (type: string) =>
+  QUESTION_TYPES.find(t => t.value === type)?.label ?? type;
+
+export const isSection = (type: string) => type === 'section';
+
+export const isFileUpload = (type: string) => type === 'file_upload';
+
+export const hasOptions = (type: string) => OPTION_TYPES.includes(type as QuestionType);
+
+export const isScaleType = (type: string) => type in SCALE_RANGES;
+
+export const parseMultiAnswer = (answer: string | null | undefined): string[] => {
+  if (!answer) return [];
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed.map(String) : [answer];
+  } catch {
+    return [answer];
+  }
+};
+
+export const encodeMultiAnswer = (values: string[]) =>
+  values.length > 0 ? JSON.stringify(values) : '';
+
+/** A file attached to a file upload answer; `path` is its key in the response-files bucket. */
+export type UploadedFile = {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+};
+
+export const parseFileAnswer = (answer: string | null | undefined): UploadedFile[] => {
+  if (!answer) return [];
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed.filter(file => typeof file?.path === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const encodeFileAnswer = (files: UploadedFile[]) =>
+  files.length > 0 ? JSON.stringify(files) : '';
+
+export const isAnswerEmpty = (type: string, answer: string | null | undefined) => {
+  if (type === 'checkboxes') return parseMultiAnswer(answer).length === 0;
+  if (type === 'file_upload') return parseFileAnswer(answer).length === 0;
+  return !answer || answer.trim() === '';
+};
+
+/**
+ * Validates a non-empty answer against its question type. Returns an error
+ * message, or null when the answer is acceptable. Required-ness is checked
+ * separately with `isAnswerEmpty`. The server repeats these checks in
+ * `public.validate_answer`, so keep the messages in sync.
+ */
+export const validateAnswer = (
+  question: { question_type: string; options?: string[] | null; file_limits?: FileLimits | null },
+  answer: string
+): string | null => {
+  const value = answer.trim();
+  const options = question.options ?? [];
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+    case 'dropdown':
+      return options.includes(value) ? null : 'Please choose one of the listed options';
+    case 'checkboxes':
+      return parseMultiAnswer(value).every(v => options.includes(v))
+        ? null
+        : 'Please choose from the listed options';
+    case 'number':
+      return NUMBER_PATTERN.test(value) ? null : 'Please enter a valid number';
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : 'Please enter a valid email address';
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:'
+          ? null
+          : 'Please enter a valid URL';
+      } catch {
+        return 'Please enter a valid URL';
+      }
+    case 'phone':
+      return PHONE_PATTERN.test(value) ? null : 'Please enter a valid phone number';
+    case 'date':
+      return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : 'Please enter a valid date';
+    case 'time':
+      return TIME_PATTERN.test(value) ? null : 'Please enter a valid time';
+    case 'linear_scale':
+    case 'rating':
+    case 'nps': {
+      const range = SCALE_RANGES[question.question_type];
+      const n = Number(value);
+      return Number.isInteger(n) && n >= range.min && n <= range.max
+        ? null
+        : `Please choose a value from ${range.min} to ${range.max}`;
+    }
+    case 'yes_no':
+      return value === 'yes' || value === 'no' ? null : 'Please answer yes or no';
+    case 'file_upload': {
+      // Size and type are checked as each file is picked
+      const files = parseFileAnswer(value);
+      const maxFiles = getFileLimits(question.file_limits).max_files;
+      if (files.length === 0) return 'Please upload your files again';
+      return files.length <= maxFiles
+        ? null
+        : `Please upload at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}`;
+    }
+    default:
+      return null;
+  }
+};
+
+/** Human-readable rendering of a stored answer, used in tables and exports. */
+export const formatAnswer = (type: string, answer: string | null | undefined) => {
+  if (answer === null || answer === undefined || answer === '') return '';
+
+  switch (type) {
+    case 'checkboxes':
+      return parseMultiAnswer(answer).join(', ');
+    case 'yes_no':
+      return answer === 'yes' ? 'Yes' : answer === 'no' ? 'No' : answer;
+    case 'file_upload':
+      return parseFileAnswer(answer).map(file => file.name).join(', ');
+    case 'rating':
+      return `${answer} / ${SCALE_RANGES.rating.max}`;
+    case 'linear_scale':
+      return `${answer} / ${SCALE_RANGES.linear_scale.max}`;
+    default:
+      return answer;
+  }
+};
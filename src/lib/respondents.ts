@@ -0,0 +1,62 @@
+// Forms that allow one response per person (forms.one_response_per). The
+// database decides who a respondent is, see `public.get_respondent_key`; for
+// 'browser' the form sends a random token it keeps in localStorage. Clearing
+// storage or switching browsers gets around that, which is the trade-off for
+// not asking respondents to sign in.
+//
+// Forms that allow edits (forms.allow_response_edits) also give every new
+// response a private edit link, which works whatever the form's limit.
+
+export type RespondentMode = 'browser' | 'ip' | 'user';
+
+export const RESPONDENT_MODES: { value: RespondentMode; label: string; description: string }[] = [
+  {
+    value: 'browser',
+    label: 'One per browser',
+    description: 'Remembered in the browser, so a different browser or private window can respond again.',
+  },
+  {
+    value: 'ip',
+    label: 'One per network',
+    description: 'By IP address. Everyone on a shared network, like an office or school, counts as one person.',
+  },
+  {
+    value: 'user',
+    label: 'One per signed-in user',
+    description: 'Respondents must sign in or create an account before responding.',
+  },
+];
+
+/**
+ * Whether respondents can change their answers by coming back to the form,
+ * rather than through their edit link. Never by IP, where others could see them.
+ */
+export const canEditResponses = (mode: RespondentMode | null, allowEdits: boolean) =>
+  Boolean(mode) && mode !== 'ip' && allowEdits;
+
+const storageKey = (formId: string) => `form-respondent:${formId}`;
+
+const generateToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * The token that identifies this browser to a form, created on first use.
+ * Returns null when storage is unavailable, since a token that is forgotten on
+ * reload can't tell respondents apart.
+ */
+export const getRespondentToken = (formId: string): string | null => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(formId));
+    if (stored) return stored;
+
+    const token = generateToken();
+    window.localStorage.setItem(storageKey(formId), token);
+    return token;
+  } catch {
+    return null;
+  }
+};
+
+/** The private link that reopens a submitted response for changes. */
+export const buildEditUrl = (formId: string, token: string) =>
+  `${window.location.origin}/form/${formId}/edit/${encodeURIComponent(token)}`;
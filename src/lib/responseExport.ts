@@ -0,0 +1,336 @@
+import { supabase } from '@/integrations/supabase/client';
+import { isAnswerEmpty, parseFileAnswer, parseMultiAnswer } from '@/lib/questionTypes';
+import { ResponseQuery, getStatusLabel, toFilterArgs, toSearchArgs } from '@/lib/responseQuery';
+import { XlsxCell, createXlsxWriter } from '@/lib/xlsxWriter';
+
+// Response exports. The responses matching the current filters are fetched a
+// page at a time through `export_form_responses`, which continues after the
+// last response of the previous page, and each page is written out before the
+// next one is requested. The written chunks are kept as Blobs until the file
+// is downloaded, so the whole export is held in the browser, though mostly
+// outside the JavaScript heap; only one page of parsed responses is in memory
+// at a time.
+//
+// CSV and XLSX get one column per question (or per option of a checkboxes
+// question, see MultiSelectMode). JSON and NDJSON keep typed values and
+// identify answers by question id, so they survive questions being renamed.
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+// How checkboxes answers appear in CSV and XLSX: one cell with the selected
+// options joined by '; ', or a TRUE/FALSE column per option plus an "Other"
+// column for answers that are no longer among the options.
+export type MultiSelectMode = 'joined' | 'columns';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeResponseId: boolean;
+  includeMetadata: boolean;
+  multiSelect: MultiSelectMode;
+}
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  tabular: boolean;
+}[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8', tabular: true },
+  {
+    value: 'xlsx',
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    tabular: true,
+  },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json', tabular: false },
+  { value: 'ndjson', label: 'NDJSON (one response per line)', extension: 'ndjson', mimeType: 'application/x-ndjson', tabular: false },
+];
+
+interface ExportForm {
+  id: string;
+  title: string;
+}
+
+interface ExportQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options?: string[] | null;
+}
+
+interface ExportResponse {
+  id: string;
+  submitted_at: string;
+  status: string;
+  is_spam: boolean;
+  answers: Record<string, string>;
+}
+
+interface ExportColumn {
+  header: string;
+  value: (response: ExportResponse) => XlsxCell;
+}
+
+interface ExportWriter {
+  write: (responses: ExportResponse[]) => void;
+  end: () => Promise<void>;
+}
+
+interface ExportRequest {
+  form: ExportForm;
+  questions: ExportQuestion[];
+  query: ResponseQuery;
+  options: ExportOptions;
+  onProgress?: (exported: number, total: number) => void;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+const NUMERIC_TYPES = ['number', 'linear_scale', 'rating', 'nps'];
+const MULTI_SEPARATOR = '; ';
+
+/** The answer as a JSON value: numbers for numeric questions, arrays for checkboxes and file names. */
+const typedAnswer = (question: ExportQuestion, answer: string | undefined) => {
+  if (answer === undefined || answer === '') return null;
+  if (question.question_type === 'checkboxes') return parseMultiAnswer(answer);
+  if (question.question_type === 'file_upload') return parseFileAnswer(answer).map(file => file.name);
+  if (NUMERIC_TYPES.includes(question.question_type) && Number.isFinite(Number(answer))) {
+    return Number(answer);
+  }
+  return answer;
+};
+
+const tabularAnswer = (question: ExportQuestion, answer: string | undefined): XlsxCell => {
+  const value = typedAnswer(question, answer);
+  if (Array.isArray(value)) return value.join(MULTI_SEPARATOR);
+  if (question.question_type === 'yes_no' && value !== null) return value === 'yes' ? 'Yes' : 'No';
+  return value;
+};
+
+// Repeated question texts get a " (2)", " (3)", ... suffix so headers stay unique
+const dedupeHeaders = (columns: ExportColumn[]) => {
+  const seen = new Map<string, number>();
+  return columns.map(column => {
+    const count = (seen.get(column.header) ?? 0) + 1;
+    seen.set(column.header, count);
+    return count === 1 ? column : { ...column, header: `${column.header} (${count})` };
+  });
+};
+
+const buildColumns = (form: ExportForm, questions: ExportQuestion[], options: ExportOptions) => {
+  const columns: ExportColumn[] = [];
+
+  if (options.includeResponseId) {
+    columns.push({ header: 'Response ID', value: r => r.id });
+  }
+  columns.push({ header: 'Submitted At', value: r => new Date(r.submitted_at) });
+  if (options.includeMetadata) {
+    columns.push(
+      { header: 'Form ID', value: () => form.id },
+      { header: 'Form Title', value: () => form.title },
+      { header: 'Status', value: r => getStatusLabel(r.status) },
+      { header: 'Suspected Spam', value: r => (r.is_spam ? 'Yes' : 'No') },
+      {
+        header: 'Questions Answered',
+        value: r => questions.filter(q => !isAnswerEmpty(q.question_type, r.answers[q.id])).length,
+      }
+    );
+  }
+
+  for (const question of questions) {
+    if (question.question_type !== 'checkboxes' || options.multiSelect === 'joined') {
+      columns.push({ header: question.question_text, value: r => tabularAnswer(question, r.answers[question.id]) });
+      continue;
+    }
+
+    // Unanswered stays blank rather than FALSE for every option
+    const choices = question.options ?? [];
+    const selected = (r: ExportResponse) =>
+      r.answers[question.id] === undefined ? null : parseMultiAnswer(r.answers[question.id]);
+    for (const option of choices) {
+      columns.push({
+        header: `${question.question_text}: ${option}`,
+        value: r => selected(r)?.includes(option) ?? null,
+      });
+    }
+    columns.push({
+      header: `${question.question_text}: Other`,
+      value: r => selected(r)?.filter(v => !choices.includes(v)).join(MULTI_SEPARATOR) ?? null,
+    });
+  }
+
+  return dedupeHeaders(columns);
+};
+
+const toRecord = (
+  response: ExportResponse,
+  form: ExportForm,
+  questions: ExportQuestion[],
+  options: ExportOptions
+) => ({
+  ...(options.includeResponseId ? { response_id: response.id } : {}),
+  submitted_at: new Date(response.submitted_at).toISOString(),
+  ...(options.includeMetadata ? { form_id: form.id, form_title: form.title, status: response.status, is_spam: response.is_spam } : {}),
+  answers: questions
+    .filter(q => response.answers[q.id] !== undefined)
+    .map(q => ({
+      question_id: q.id,
+      question: q.question_text,
+      type: q.question_type,
+      value: typedAnswer(q, response.answers[q.id]),
+    })),
+});
+
+const csvCell = (value: XlsxCell) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return String(value);
+  // Respondents control these values, so keep spreadsheets from running them as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+const createWriter = (
+  { form, questions, options }: Pick<ExportRequest, 'form' | 'questions' | 'options'>,
+  push: (chunk: string | Uint8Array) => void
+): ExportWriter => {
+  switch (options.format) {
+    case 'csv': {
+      const columns = buildColumns(form, questions, options);
+      const line = (cells: XlsxCell[]) => cells.map(csvCell).join(',') + '\r\n';
+      // The byte order mark makes Excel read the file as UTF-8
+      push('\uFEFF' + line(columns.map(c => c.header)));
+      return {
+        write: responses => push(responses.map(r => line(columns.map(c => c.value(r)))).join('')),
+        end: async () => {},
+      };
+    }
+
+    case 'xlsx': {
+      const columns = buildColumns(form, questions, options);
+      const workbook = createXlsxWriter('Responses', push);
+      workbook.addHeader(columns.map(c => c.header));
+      return {
+        write: responses => responses.forEach(r => workbook.addRow(columns.map(c => c.value(r)))),
+        end: () => workbook.finish(),
+      };
+    }
+
+    case 'json': {
+      let first = true;
+      const header = {
+        form: { id: form.id, title: form.title },
+        exported_at: new Date().toISOString(),
+        questions: questions.map(q => ({
+          id: q.id,
+          question: q.question_text,
+          type: q.question_type,
+          options: q.options ?? [],
+        })),
+      };
+      // Written by hand around the responses array so it can be streamed
+      push(JSON.stringify(header).slice(0, -1) + ',"responses":[');
+      return {
+        write: responses => {
+          const items = responses.map(r => JSON.stringify(toRecord(r, form, questions, options)));
+          if (items.length === 0) return;
+          push((first ? '\n' : ',\n') + items.join(',\n'));
+          first = false;
+        },
+        end: async () => push('\n]}\n'),
+      };
+    }
+
+    case 'ndjson':
+      return {
+        write: responses =>
+          push(responses.map(r => JSON.stringify(toRecord(r, form, questions, options)) + '\n').join('')),
+        end: async () => {},
+      };
+  }
+};
+
+/** How many responses match `query`, for the progress indicator. */
+const countMatchingResponses = async (formId: string, query: ResponseQuery) => {
+  const { data, error } = await supabase.rpc('search_form_responses', {
+    ...toSearchArgs(formId, query, false),
+    _limit: 1,
+  });
+
+  if (error) throw error;
+  return data[0]?.total_count ?? 0;
+};
+
+/**
+ * Pages of responses matching `query`, oldest first, each starting after the
+ * last response of the one before. Responses arriving during an export are
+ * added at the end rather than shifting the pages that have already been read.
+ */
+async function* fetchResponsePages(formId: string, query: ResponseQuery) {
+  const total = await countMatchingResponses(formId, query);
+  let last: { submitted_at: string; id: string } | null = null;
+
+  for (;;) {
+    const { data, error } = await supabase.rpc('export_form_responses', {
+      ...toFilterArgs(formId, query),
+      _after_submitted_at: last?.submitted_at,
+      _after_id: last?.id,
+      _limit: EXPORT_PAGE_SIZE,
+    });
+
+    if (error) throw error;
+
+    const responses = data.map(row => ({
+      id: row.id,
+      submitted_at: row.submitted_at,
+      status: row.status,
+      is_spam: row.is_spam,
+      answers: row.answers as Record<string, string>,
+    }));
+    yield { responses, total };
+
+    if (responses.length < EXPORT_PAGE_SIZE) return;
+    last = responses[responses.length - 1];
+  }
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const exportFileName = (title: string, extension: string) => {
+  const base = title.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-') || 'form';
+  return `${base}-responses-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+/**
+ * Exports every response matching `query` and downloads the file. Each page is
+ * wrapped in its own Blob as soon as it is written, which lets the browser
+ * keep the data out of the JavaScript heap. Resolves to the number of
+ * responses exported.
+ */
+export const exportResponses = async ({ form, questions, query, options, onProgress }: ExportRequest) => {
+  const format = EXPORT_FORMATS.find(f => f.value === options.format);
+  const parts: Blob[] = [];
+  const writer = createWriter({ form, questions, options }, chunk => parts.push(new Blob([chunk])));
+
+  let exported = 0;
+  for await (const page of fetchResponsePages(form.id, query)) {
+    writer.write(page.responses);
+    exported += page.responses.length;
+    onProgress?.(exported, page.total);
+  }
+  await writer.end();
+
+  downloadBlob(new Blob(parts, { type: format.mimeType }), exportFileName(form.title, format.extension));
+  return exported;
+};
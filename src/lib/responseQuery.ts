@@ -0,0 +1,160 @@
+import { CONDITION_OPERATORS, ConditionOperator, RuleCondition } from '@/lib/formRules';
+
+// The responses view keeps its search, filters, sort order and page in the URL
+// so a filtered view survives a reload and can be shared. Parameters:
+//
+// - q:      full-text search across answers
+// - from:   first submission day, 'YYYY-MM-DD' in local time (inclusive)
+// - to:     last submission day, 'YYYY-MM-DD' in local time (inclusive)
+// - filter: repeatable, '<question_id>:<operator>:<value>'
+// - status: review status, see RESPONSE_STATUSES
+// - spam:   'hide' to leave out suspected spam, 'only' to show nothing else
+// - sort:   'submitted_at' or a question id
+// - dir:    'asc' or 'desc'
+// - page:   1-based page of the responses table
+//
+// Parameters at their default value are left out. Filters use the condition
+// shape of visibility rules and are evaluated by `public.search_form_responses`.
+
+export const SORT_BY_SUBMITTED = 'submitted_at';
+export const RESPONSES_PAGE_SIZE = 25;
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ResponseStatus = 'new' | 'reviewed' | 'actioned';
+
+export const RESPONSE_STATUSES: { value: ResponseStatus; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'reviewed', label: 'Reviewed' },
+  { value: 'actioned', label: 'Actioned' },
+];
+
+export const getStatusLabel = (status: string) =>
+  RESPONSE_STATUSES.find(s => s.value === status)?.label ?? status;
+
+export type SpamFilter = 'hide' | 'only';
+
+export const SPAM_FILTERS: { value: SpamFilter; label: string }[] = [
+  { value: 'hide', label: 'Hide suspected spam' },
+  { value: 'only', label: 'Suspected spam only' },
+];
+
+export interface ResponseQuery {
+  search: string;
+  from: string;
+  to: string;
+  filters: RuleCondition[];
+  // Empty for any status
+  status: ResponseStatus | '';
+  // Empty to include suspected spam
+  spam: SpamFilter | '';
+  sort: string;
+  dir: SortDirection;
+  page: number;
+}
+
+const QUERY_KEYS = ['q', 'from', 'to', 'filter', 'status', 'spam', 'sort', 'dir', 'page'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseFilter = (raw: string): RuleCondition | null => {
+  const first = raw.indexOf(':');
+  const second = raw.indexOf(':', first + 1);
+  if (first <= 0 || second < 0) return null;
+
+  const operator = raw.slice(first + 1, second) as ConditionOperator;
+  if (!CONDITION_OPERATORS.some(op => op.value === operator)) return null;
+
+  return { question_id: raw.slice(0, first), operator, value: raw.slice(second + 1) };
+};
+
+export const parseResponseQuery = (params: URLSearchParams): ResponseQuery => {
+  const from = params.get('from') ?? '';
+  const to = params.get('to') ?? '';
+  const page = Number(params.get('page'));
+  const status = RESPONSE_STATUSES.find(s => s.value === params.get('status'))?.value ?? '';
+  const spam = SPAM_FILTERS.find(s => s.value === params.get('spam'))?.value ?? '';
+  return {
+    search: params.get('q') ?? '',
+    from: DATE_PATTERN.test(from) ? from : '',
+    to: DATE_PATTERN.test(to) ? to : '',
+    filters: params.getAll('filter').map(parseFilter).filter(Boolean),
+    status,
+    spam,
+    sort: params.get('sort') || SORT_BY_SUBMITTED,
+    dir: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+/** Writes `query` over `base`, keeping any unrelated parameters such as the active tab. */
+export const toSearchParams = (query: ResponseQuery, base?: URLSearchParams) => {
+  const params = new URLSearchParams(base);
+  QUERY_KEYS.forEach(key => params.delete(key));
+
+  if (query.search.trim()) params.set('q', query.search.trim());
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  query.filters.forEach(f => params.append('filter', `${f.question_id}:${f.operator}:${f.value ?? ''}`));
+  if (query.status) params.set('status', query.status);
+  if (query.spam) params.set('spam', query.spam);
+  if (query.sort !== SORT_BY_SUBMITTED) params.set('sort', query.sort);
+  if (query.dir !== 'desc') params.set('dir', query.dir);
+  if (query.page > 1) params.set('page', String(query.page));
+  return params;
+};
+
+export const hasActiveFilters = (query: ResponseQuery) =>
+  Boolean(query.search.trim() || query.from || query.to || query.status || query.spam || query.filters.length > 0);
+
+// Local midnight at the start of `day`, optionally shifted by whole days
+const startOfDay = (day: string, offset = 0) => {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + offset);
+  return date.toISOString();
+};
+
+/**
+ * Arguments for the `search_form_responses` RPC. Without `paged` every
+ * matching response is returned, e.g. for exports, which set their own limit.
+ */
+export const toSearchArgs = (formId: string, query: ResponseQuery, paged = true) => ({
+  _form_id: formId,
+  _search: query.search.trim() || undefined,
+  _submitted_from: query.from ? startOfDay(query.from) : undefined,
+  _submitted_to: query.to ? startOfDay(query.to, 1) : undefined,
+  _filters: query.filters,
+  _status: query.status || undefined,
+  _spam: query.spam || undefined,
+  _sort_question: query.sort === SORT_BY_SUBMITTED ? undefined : query.sort,
+  _sort_desc: query.dir === 'desc',
+  _limit: paged ? RESPONSES_PAGE_SIZE : undefined,
+  _offset: paged ? (query.page - 1) * RESPONSES_PAGE_SIZE : 0,
+});
+
+/** Arguments for `get_response_neighbors`: where `responseId` sits in the filtered, sorted list. */
+export const toNeighborArgs = (formId: string, responseId: string, query: ResponseQuery) => {
+  const { _limit, _offset, ...args } = toSearchArgs(formId, query, false);
+  return { ...args, _response_id: responseId };
+};
+
+/** The query's filters without sorting or paging, for `get_response_summary` and `export_form_responses`. */
+export const toFilterArgs = (formId: string, query: ResponseQuery) => {
+  const { _sort_question, _sort_desc, _limit, _offset, ...args } = toSearchArgs(formId, query, false);
+  return args;
+};
+
+/**
+ * Page numbers to show in the pager: the first and last page, the current page
+ * and its neighbours, with null where pages are skipped.
+ */
+export const getPageWindow = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
@@ -0,0 +1,101 @@
+import { SCALE_RANGES } from '@/lib/questionTypes';
+
+// Turns the aggregates from `public.get_response_summary` into chart data for
+// the Summary tab of FormResponsesView. The server does the counting over the
+// stored answer_text encoding described in questionTypes.ts; this adds labels,
+// options nobody picked and days without responses.
+
+export type SummaryKind = 'choice' | 'numeric' | 'text' | 'other';
+
+export interface CountDatum {
+  label: string;
+  count: number;
+}
+
+/** How often a value was answered, as counted by the server. */
+export interface ValueCount {
+  value: string | number;
+  count: number;
+}
+
+// Keep in sync with the kinds in public.get_response_summary
+const CHOICE_TYPES = ['multiple_choice', 'checkboxes', 'dropdown', 'yes_no'];
+const NUMERIC_TYPES = ['number', 'linear_scale', 'rating', 'nps'];
+const TEXT_TYPES = ['text', 'short_text'];
+
+// Number questions with many distinct values are bucketed into this many bins
+// by the server
+const NUMBER_BINS = 10;
+
+export const getSummaryKind = (type: string): SummaryKind => {
+  if (CHOICE_TYPES.includes(type)) return 'choice';
+  if (NUMERIC_TYPES.includes(type)) return 'numeric';
+  if (TEXT_TYPES.includes(type)) return 'text';
+  return 'other';
+};
+
+/** Counts per option, in option order. Answers outside the options are grouped as "Other". */
+export const countChoices = (
+  question: { question_type: string; options?: string[] | null },
+  counts: ValueCount[]
+): CountDatum[] => {
+  const options = question.question_type === 'yes_no' ? ['yes', 'no'] : question.options ?? [];
+  const byValue = new Map(counts.map(c => [String(c.value), c.count]));
+  const other = counts
+    .filter(c => !options.includes(String(c.value)))
+    .reduce((sum, c) => sum + c.count, 0);
+
+  const data = options.map(option => ({
+    label: question.question_type === 'yes_no' ? (option === 'yes' ? 'Yes' : 'No') : option,
+    count: byValue.get(option) ?? 0,
+  }));
+  return other > 0 ? [...data, { label: 'Other', count: other }] : data;
+};
+
+/**
+ * Bars for a numeric question. Scales show every possible value, including
+ * ones nobody picked; binned numbers are labelled with their range.
+ */
+export const numericDistribution = (
+  type: string,
+  counts: ValueCount[],
+  bins: { binned: boolean; min: number | null; max: number | null }
+): CountDatum[] => {
+  const range = SCALE_RANGES[type as keyof typeof SCALE_RANGES];
+  if (range) {
+    const data: CountDatum[] = [];
+    for (let n = range.min; n <= range.max; n++) {
+      data.push({ label: String(n), count: counts.find(c => Number(c.value) === n)?.count ?? 0 });
+    }
+    return data;
+  }
+
+  if (!bins.binned) {
+    return counts.map(c => ({ label: String(Number(c.value)), count: c.count }));
+  }
+
+  const width = (bins.max - bins.min) / NUMBER_BINS;
+  return Array.from({ length: NUMBER_BINS }, (_, i) => {
+    const from = bins.min + i * width;
+    return {
+      label: `${+from.toFixed(2)}–${+(from + width).toFixed(2)}`,
+      count: counts.find(c => Number(c.value) === i)?.count ?? 0,
+    };
+  });
+};
+
+const toDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Submissions per UTC day from the first to the last day given, with empty days filled in. */
+export const fillSubmissionDays = (days: { day: string; count: number }[]): CountDatum[] => {
+  if (days.length === 0) return [];
+
+  const counts = new Map(days.map(d => [d.day, d.count]));
+  const data: CountDatum[] = [];
+  const end = days[days.length - 1].day;
+  const day = new Date(`${days[0].day}T00:00:00Z`);
+  for (let key = toDayKey(day); key <= end; day.setUTCDate(day.getUTCDate() + 1), key = toDayKey(day)) {
+    data.push({ label: key, count: counts.get(key) ?? 0 });
+  }
+  return data;
+};
@@ -0,0 +1,49 @@
+// Spam protection on the public form. Most of it happens in
+// `public.submit_form_response`, which rate-limits by IP address and flags
+// responses that fill in the honeypot field or come in too fast. The form only
+// reports what it saw; it never refuses to submit on these grounds, so bots get
+// no hint that they were caught.
+//
+// Forms can also require a CAPTCHA. The widget shown here and the verifier in
+// the verify-captcha Edge Function must use the same provider: set
+// VITE_CAPTCHA_PROVIDER (and VITE_CAPTCHA_SITE_KEY) for the app, and
+// CAPTCHA_PROVIDER (and CAPTCHA_SECRET_KEY) for the function. The 'stub'
+// provider shows a plain checkbox and needs no keys; it is meant for local
+// development and tests.
+
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'stub';
+
+export interface CaptchaConfig {
+  provider: CaptchaProvider;
+  siteKey: string;
+}
+
+/** Name of the hidden honeypot field; something bots like to fill in. */
+export const HONEYPOT_FIELD = 'website';
+
+/** The token the stub widget produces, see supabase/functions/_shared/captcha.ts. */
+export const STUB_PASS_TOKEN = 'stub-pass';
+
+export type SpamReason = 'honeypot' | 'too_fast';
+
+const SPAM_REASON_LABELS: Record<SpamReason, string> = {
+  honeypot: 'Filled in a field hidden from people',
+  too_fast: 'Submitted faster than the form can be filled in',
+};
+
+export const getSpamReasonLabel = (reason: string) =>
+  SPAM_REASON_LABELS[reason as SpamReason] ?? reason;
+
+const PROVIDERS: CaptchaProvider[] = ['turnstile', 'hcaptcha', 'stub'];
+
+/** The CAPTCHA provider the app is built with, or null if forms can't require one. */
+export const getCaptchaConfig = (): CaptchaConfig | null => {
+  const provider = import.meta.env.VITE_CAPTCHA_PROVIDER as CaptchaProvider | undefined;
+  const siteKey = import.meta.env.VITE_CAPTCHA_SITE_KEY ?? '';
+  if (!provider || !PROVIDERS.includes(provider)) return null;
+  if (provider !== 'stub' && !siteKey) return null;
+  return { provider, siteKey };
+};
+
+/** Seconds since `startedAt` (a `Date.now()` value), as sent to submit_form_response. */
+export const getFillSeconds = (startedAt: number) => Math.round((Date.now() - startedAt) / 100) / 10;
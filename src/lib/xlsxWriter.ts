@@ -0,0 +1,157 @@
+import { Zip, ZipDeflate, strToU8 } from 'fflate';
+
+// Minimal streaming writer for single-sheet .xlsx workbooks. Rows are turned
+// into sheet XML and deflated as they are added, and the zipped output is
+// handed to `onChunk` piece by piece, so a large export never needs the whole
+// workbook in memory. Strings are written inline (no shared string table) and
+// dates use a single date-time cell style.
+
+export type XlsxCell = string | number | boolean | Date | null | undefined;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Style 0 is the default, 1 formats date cells and 2 is the bold header row
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const DATE_STYLE = 1;
+const HEADER_STYLE = 2;
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Characters that are not allowed anywhere in XML 1.0
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Column letters for a 0-based index: 0 -> A, 25 -> Z, 26 -> AA. */
+export const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const cellXml = (value: XlsxCell, ref: string, style?: number) => {
+  const s = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (value instanceof Date) {
+    const serial = value.getTime() / MS_PER_DAY + EPOCH_OFFSET_DAYS;
+    return `<c r="${ref}" s="${DATE_STYLE}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+export const createXlsxWriter = (sheetName: string, onChunk: (chunk: Uint8Array) => void) => {
+  let rowCount = 0;
+  let failure: Error | null = null;
+  let resolveDone: () => void;
+  let rejectDone: (error: Error) => void;
+  const done = new Promise<void>((resolve, reject) => {
+    resolveDone = resolve;
+    rejectDone = reject;
+  });
+
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      failure = error;
+      rejectDone(error);
+      return;
+    }
+    onChunk(chunk);
+    if (final) resolveDone();
+  });
+
+  const addFile = (name: string, content: string) => {
+    const file = new ZipDeflate(name, { level: 6 });
+    zip.add(file);
+    file.push(strToU8(content), true);
+  };
+
+  addFile('[Content_Types].xml', CONTENT_TYPES);
+  addFile('_rels/.rels', ROOT_RELS);
+  addFile('xl/_rels/workbook.xml.rels', WORKBOOK_RELS);
+  addFile('xl/styles.xml', STYLES);
+  addFile(
+    'xl/workbook.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+  );
+
+  const sheet = new ZipDeflate('xl/worksheets/sheet1.xml', { level: 6 });
+  zip.add(sheet);
+  sheet.push(
+    strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+        '<sheetData>'
+    )
+  );
+
+  const addRow = (cells: XlsxCell[], style?: number) => {
+    if (failure) throw failure;
+    const r = ++rowCount;
+    const xml = cells.map((value, index) => cellXml(value, `${columnName(index)}${r}`, style)).join('');
+    sheet.push(strToU8(`<row r="${r}">${xml}</row>`));
+  };
+
+  return {
+    /** The first row, shown in bold and kept in view while scrolling. */
+    addHeader: (cells: string[]) => addRow(cells, HEADER_STYLE),
+    addRow: (cells: XlsxCell[]) => addRow(cells),
+    /** Closes the workbook; resolves once the last chunk has been passed to `onChunk`. */
+    finish: () => {
+      sheet.push(strToU8('</sheetData></worksheet>'), true);
+      zip.end();
+      return done;
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { AuthForm } from '@/components/AuthForm';
+import { FormResponsesView } from '@/components/FormResponsesView';
+
+const FormResponses = () => {
+  const { formId } = useParams<{ formId: string }>();
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthForm />;
+  }
+
+  return <FormResponsesView formId={formId} onBack={() => navigate('/')} />;
+};
+
+export default FormResponses;
@@ -1,163 +1,570 @@
-import { useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { ReactNode, useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { ThemeProvider } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChevronLeft, ChevronRight, History, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { AuthForm } from '@/components/AuthForm';
+import { QuestionInput } from '@/components/QuestionInput';
+import { ThemedFormHeader, ThemedFormLayout } from '@/components/ThemedForm';
+import { ConfirmationScreen } from '@/components/ConfirmationScreen';
+import { ResumeLinkDialog } from '@/components/ResumeLinkDialog';
+import { CaptchaWidget } from '@/components/CaptchaWidget';
+import { isAnswerEmpty, isFileUpload, isSection, parseFileAnswer, validateAnswer } from '@/lib/questionTypes';
+import { getVisibleQuestionIds } from '@/lib/formRules';
+import { pipeAnswers } from '@/lib/piping';
+import {
+  RESUME_PARAM,
+  buildResumeUrl,
+  clearLocalDraft,
+  keepKnownAnswers,
+  loadLocalDraft,
+  saveLocalDraft,
+} from '@/lib/drafts';
+import { FormTheme, getButtonLabels, getThemeMode } from '@/lib/formTheme';
+import { HONEYPOT_FIELD, getCaptchaConfig, getFillSeconds } from '@/lib/spamProtection';
+import { buildEditUrl, canEditResponses, getRespondentToken } from '@/lib/respondents';
+import { cn } from '@/lib/utils';
+import { useFormQuestions, usePublicForm } from '@/data/forms';
+import {
+  useEditResponse,
+  useEditableResponse,
+  useFormAvailability,
+  usePreviousResponse,
+  useSubmitResponse,
+  useVerifyCaptcha,
+} from '@/data/submissions';
+import { useDeleteDraft, useFormDraft, useSaveDraft } from '@/data/drafts';
+import { Availability, Question, SavedDraft, SubmissionError, SubmissionResult } from '@/data/types';
 
-interface Form {
-  id: string;
-  title: string;
-  description: string;
-  is_active: boolean;
+// What respondents see for each non-open result of get_form_availability
+const UNAVAILABLE_MESSAGES: Record<Exclude<Availability, 'open'>, { title: string; description: string }> = {
+  not_found: {
+    title: 'Form Not Found',
+    description: "The form you're looking for doesn't exist or is no longer available.",
+  },
+  inactive: {
+    title: 'Form Unavailable',
+    description: 'This form is no longer accepting responses.',
+  },
+  not_yet_open: {
+    title: 'Not Open Yet',
+    description: 'This form is not accepting responses yet.',
+  },
+  closed: {
+    title: 'Form Closed',
+    description: 'This form has closed and is no longer accepting responses.',
+  },
+  full: {
+    title: 'Form Full',
+    description: 'This form has reached its maximum number of responses.',
+  },
+};
+
+const captchaConfig = getCaptchaConfig();
+
+interface ThemedPageProps {
+  theme: FormTheme | null;
+  className?: string;
+  children: ReactNode;
 }
 
-interface Question {
-  id: string;
-  question_text: string;
-  question_type: 'text' | 'multiple_choice';
-  options?: string[];
-  is_required: boolean;
-  order_index: number;
+// A full page in the form's theme. next-themes also puts the mode on the
+// document, so popovers and toasts rendered outside the page match it.
+const ThemedPage = ({ theme, className, children }: ThemedPageProps) => (
+  <ThemeProvider attribute="class" forcedTheme={getThemeMode(theme)} enableSystem={false}>
+    <ThemedFormLayout theme={theme} className={cn('min-h-screen', className)}>
+      {children}
+    </ThemedFormLayout>
+  </ThemeProvider>
+);
+
+interface Page {
+  section: Question | null;
+  questions: Question[];
 }
 
+// Splits the visible items into pages, starting a new page at each section.
+// Questions before the first section form an untitled first page.
+const buildPages = (items: Question[]): Page[] => {
+  const pages: Page[] = [];
+  for (const item of items) {
+    if (isSection(item.question_type)) {
+      pages.push({ section: item, questions: [] });
+      continue;
+    }
+    if (pages.length === 0) {
+      pages.push({ section: null, questions: [] });
+    }
+    pages[pages.length - 1].questions.push(item);
+  }
+  return pages.length > 0 ? pages : [{ section: null, questions: [] }];
+};
+
 export const PublicForm = () => {
-  const { formId } = useParams<{ formId: string }>();
+  // editToken is set when the form was opened through a response's edit link
+  const { formId, editToken } = useParams<{ formId: string; editToken?: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkToken = searchParams.get(RESUME_PARAM);
   const { toast } = useToast();
-  const [form, setForm] = useState<Form | null>(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
   const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [loading, setLoading] = useState(true);
-  const [submitting, setSubmitting] = useState(false);
-  const [submitted, setSubmitted] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // The answers as submitted, once the response has been accepted
+  const [submittedAnswers, setSubmittedAnswers] = useState<Record<string, string> | null>(null);
+  const [currentPage, setCurrentPage] = useState(0);
+  // The id this response will be submitted with; uploaded files are stored under it
+  const [responseId, setResponseId] = useState<string>(() => crypto.randomUUID());
+  // Drafts are restored once the questions have loaded, and only saved after that
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [restoredDraft, setRestoredDraft] = useState(false);
+  // Token of this respondent's "save and continue later" draft, once they have one
+  const [resumeToken, setResumeToken] = useState<string | null>(null);
+  const [savedDraft, setSavedDraft] = useState<SavedDraft | null>(null);
+  // For the spam checks in submit_form_response: when the respondent started,
+  // and the hidden field only bots fill in
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [honeypot, setHoneypot] = useState('');
+  // The solved CAPTCHA, for forms that require one. Each token can only be
+  // verified once, so the widget is remounted for a new one after every attempt.
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaKey, setCaptchaKey] = useState(0);
+  // Whether the respondent is changing their earlier response, through its
+  // edit link or by coming back to a form that allows one response per person
+  const [editing, setEditing] = useState(false);
+  // Link to edit the response later, once it has been submitted
+  const [editUrl, setEditUrl] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (formId) {
-      fetchForm();
+  const { user, loading: loadingAuth } = useAuth();
+  const { data: availability, isLoading: loadingAvailability } = useFormAvailability(formId);
+  // Details are shown on the "not open" screens too, except for forms that
+  // don't exist or were switched off
+  const showDetails = Boolean(availability) && availability !== 'not_found' && availability !== 'inactive';
+  const { data: form, isLoading: loadingForm } = usePublicForm(showDetails ? formId : undefined);
+  const respondentMode = form?.one_response_per ?? null;
+  const browserToken = respondentMode === 'browser' ? getRespondentToken(formId) : null;
+  const { data: previousResponse, isLoading: loadingPrevious } = usePreviousResponse(
+    { formId, userId: user?.id ?? null, browserToken },
+    {
+      enabled: (availability === 'open' || availability === 'full')
+        && Boolean(respondentMode)
+        && (respondentMode !== 'user' || Boolean(user)),
     }
-  }, [formId]);
-
-  const fetchForm = async () => {
-    try {
-      // Fetch form details
-      const { data: formData, error: formError } = await supabase
-        .from('forms')
-        .select('id, title, description, is_active')
-        .eq('id', formId)
-        .single();
-
-      if (formError) throw formError;
-      
-      if (!formData.is_active) {
-        throw new Error('This form is no longer accepting responses');
-      }
+  );
+  const { data: editableResponse, isLoading: loadingEditable } = useEditableResponse(formId, editToken, {
+    enabled: availability === 'open' || availability === 'full',
+  });
+  // Respondents can still change their response once the form is full
+  const acceptsEdit = availability === 'full'
+    && Boolean(previousResponse?.can_edit || editableResponse?.can_edit);
+  const { data: questionsData, isLoading: loadingQuestions } = useFormQuestions(formId, {
+    enabled: availability === 'open' || acceptsEdit,
+  });
+  const { data: linkedDraft, isLoading: loadingDraft } = useFormDraft(
+    formId,
+    availability === 'open' && !editToken ? linkToken : null
+  );
+  const submitResponse = useSubmitResponse();
+  const editLinkedResponse = useEditResponse();
+  const verifyCaptcha = useVerifyCaptcha();
+  const saveDraft = useSaveDraft();
+  const deleteDraft = useDeleteDraft();
+  const questions: Question[] = questionsData ?? [];
+  const loading = loadingAvailability
+    || loadingForm
+    || loadingQuestions
+    || loadingDraft
+    || loadingPrevious
+    || loadingEditable
+    || (respondentMode === 'user' && loadingAuth);
+  const theme = form?.theme ?? null;
+  const buttonLabels = getButtonLabels(theme);
+  const submitting = submitResponse.isPending || verifyCaptcha.isPending || editLinkedResponse.isPending;
 
-      setForm(formData);
+  // Restores the draft from a resume link, or else the one kept in this browser.
+  // An edit link starts from the response's answers instead.
+  useEffect(() => {
+    if (draftLoaded || !questionsData || loadingDraft || loadingEditable) return;
 
-      // Fetch questions
-      const { data: questionsData, error: questionsError } = await supabase
-        .from('form_questions')
-        .select('id, question_text, question_type, options, is_required, order_index')
-        .eq('form_id', formId)
-        .order('order_index');
+    if (editToken) {
+      if (editableResponse?.can_edit) {
+        setAnswers(keepKnownAnswers(editableResponse.answers, questionsData.map(q => q.id)));
+        setEditing(true);
+      }
+      setDraftLoaded(true);
+      return;
+    }
 
-      if (questionsError) throw questionsError;
-      setQuestions(questionsData as Question[]);
-    } catch (error: any) {
+    if (linkToken && linkedDraft === null) {
       toast({
-        title: 'Error',
-        description: error.message || 'Failed to load form',
+        title: 'Saved answers unavailable',
+        description: 'This link has expired or was already used to submit a response.',
         variant: 'destructive',
       });
-    } finally {
-      setLoading(false);
     }
-  };
+
+    const draft = linkedDraft
+      ? { answers: linkedDraft.answers, page: linkedDraft.current_page, resume_token: linkToken }
+      : loadLocalDraft(formId);
+    if (draft) {
+      const restored = keepKnownAnswers(draft.answers, questionsData.map(q => q.id));
+      if (Object.keys(restored).length > 0) {
+        // Restored files were uploaded under the draft's response id, which
+        // is the second folder of their paths
+        const [uploadedFile] = questionsData
+          .filter(q => isFileUpload(q.question_type))
+          .flatMap(q => parseFileAnswer(restored[q.id]));
+        if (uploadedFile) {
+          setResponseId(uploadedFile.path.split('/')[1]);
+        }
+        setAnswers(restored);
+        setCurrentPage(draft.page);
+        setRestoredDraft(true);
+      }
+      setResumeToken(draft.resume_token);
+    }
+
+    // From here on the draft is kept in this browser, so a reload shouldn't
+    // bring back the older copy from the link
+    if (linkedDraft !== undefined) {
+      setSearchParams(params => {
+        params.delete(RESUME_PARAM);
+        return params;
+      }, { replace: true });
+    }
+    setDraftLoaded(true);
+  }, [
+    draftLoaded,
+    questionsData,
+    loadingDraft,
+    loadingEditable,
+    editToken,
+    editableResponse,
+    linkToken,
+    linkedDraft,
+    formId,
+    toast,
+    setSearchParams,
+  ]);
+
+  // Keeps the answers in this browser as the respondent goes. Changes to a
+  // submitted response are not kept, so they don't replace a draft of a new one.
+  useEffect(() => {
+    if (!draftLoaded || submittedAnswers || editing) return;
+
+    if (Object.values(answers).some(Boolean) || resumeToken) {
+      saveLocalDraft(formId, { answers, page: currentPage, resume_token: resumeToken });
+    } else {
+      clearLocalDraft(formId);
+    }
+  }, [draftLoaded, submittedAnswers, editing, answers, currentPage, resumeToken, formId]);
 
   const handleAnswerChange = (questionId: string, value: string) => {
     setAnswers(prev => ({
       ...prev,
       [questionId]: value,
     }));
+    if (errors[questionId]) {
+      setErrors(prev => {
+        const { [questionId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
   };
 
-  const validateForm = () => {
-    const requiredQuestions = questions.filter(q => q.is_required);
-    for (const question of requiredQuestions) {
-      if (!answers[question.id] || answers[question.id].trim() === '') {
-        toast({
-          title: 'Validation Error',
-          description: `Please answer: ${question.question_text}`,
-          variant: 'destructive',
-        });
-        return false;
+  // Hidden questions are neither rendered, validated nor submitted. Pages are
+  // rebuilt from the visible items on every render, so branching rules that hide
+  // a section skip its page.
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+  const visibleItems = questions.filter(q => visibleIds.has(q.id));
+  const visibleQuestions = visibleItems.filter(q => !isSection(q.question_type));
+  const pages = buildPages(visibleItems);
+  const pageIndex = Math.min(currentPage, pages.length - 1);
+  const page = pages[pageIndex];
+  const isLastPage = pageIndex === pages.length - 1;
+  const questionNumbers = new Map(visibleQuestions.map((q, index) => [q.id, index + 1]));
+  // Recalls earlier answers into question text as the respondent types. Answers
+  // to hidden questions aren't submitted, so they aren't recalled either.
+  const pipe = (text: string) => pipeAnswers(text, visibleQuestions, answers);
+
+  // Sets field errors for the given questions and returns the first invalid one
+  const validateQuestions = (questionsToCheck: Question[]): Question | null => {
+    const newErrors: Record<string, string> = {};
+    for (const question of questionsToCheck) {
+      const answer = answers[question.id];
+      if (isAnswerEmpty(question.question_type, answer)) {
+        if (question.is_required) {
+          newErrors[question.id] = 'This question is required';
+        }
+        continue;
+      }
+      const error = validateAnswer(question, answer);
+      if (error) {
+        newErrors[question.id] = error;
       }
     }
+
+    setErrors(newErrors);
+    const firstInvalid = questionsToCheck.find(q => newErrors[q.id]);
+    if (firstInvalid) {
+      toast({
+        title: 'Validation Error',
+        description: `${pipe(firstInvalid.question_text)}: ${newErrors[firstInvalid.id]}`,
+        variant: 'destructive',
+      });
+      return firstInvalid;
+    }
+    return null;
+  };
+
+  const validateForm = () => {
+    const firstInvalid = validateQuestions(visibleQuestions);
+    if (firstInvalid) {
+      // Send the respondent back to the page with the first problem
+      goToPage(pages.findIndex(p => p.questions.includes(firstInvalid)));
+      return false;
+    }
+    // The database rejects responses without any answers
+    if (visibleQuestions.every(q => isAnswerEmpty(q.question_type, answers[q.id]))) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please answer at least one question',
+        variant: 'destructive',
+      });
+      return false;
+    }
     return true;
   };
 
-  const submitForm = async () => {
-    if (!validateForm()) return;
+  const startOver = () => {
+    setAnswers({});
+    setErrors({});
+    setSubmittedAnswers(null);
+    setRestoredDraft(false);
+    setResponseId(crypto.randomUUID());
+    setStartedAt(Date.now());
+    setHoneypot('');
+    setEditing(false);
+    setEditUrl(null);
+    resetCaptcha();
+    goToPage(0);
+  };
 
-    setSubmitting(true);
-    try {
-      // Create form response
-      const { data: responseData, error: responseError } = await supabase
-        .from('form_responses')
-        .insert({
-          form_id: formId,
-        })
-        .select()
-        .single();
-
-      if (responseError) throw responseError;
-
-      // Create question responses
-      const questionResponses = Object.entries(answers).map(([questionId, answer]) => ({
-        form_response_id: responseData.id,
-        question_id: questionId,
-        answer_text: answer,
-      }));
-
-      const { error: questionsError } = await supabase
-        .from('question_responses')
-        .insert(questionResponses);
-
-      if (questionsError) throw questionsError;
-
-      setSubmitted(true);
+  const resetCaptcha = () => {
+    setCaptchaToken(null);
+    setCaptchaKey(key => key + 1);
+  };
+
+  // Opens the respondent's earlier answers for changes. Files they add go to
+  // a new folder, as the earlier response's files can no longer be changed.
+  const editResponse = (previousAnswers: Record<string, string>) => {
+    startOver();
+    setAnswers(keepKnownAnswers(previousAnswers, questions.map(q => q.id)));
+    setEditing(true);
+  };
+
+  const saveForLater = () => {
+    saveDraft.mutate(
+      {
+        formId,
+        answers: Object.fromEntries(Object.entries(answers).filter(([, value]) => value)),
+        currentPage: pageIndex,
+        token: resumeToken,
+      },
+      {
+        onSuccess: (saved) => {
+          setResumeToken(saved.token);
+          setSavedDraft(saved);
+        },
+        onError: (error) => {
+          toast({
+            title: 'Error',
+            description: error.message || 'Failed to save your answers',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  const goToPage = (index: number) => {
+    setCurrentPage(index);
+    window.scrollTo({ top: 0 });
+  };
+
+  const nextPage = () => {
+    if (validateQuestions(page.questions)) return;
+    goToPage(pageIndex + 1);
+  };
+
+  // Maps errors returned by submit_form_response back onto the fields
+  const showSubmissionErrors = (submissionErrors: SubmissionError[]) => {
+    const fieldErrors = Object.fromEntries(
+      submissionErrors
+        .filter(e => e.question_id && visibleIds.has(e.question_id))
+        .map(e => [e.question_id, e.message])
+    );
+    setErrors(fieldErrors);
+
+    const firstInvalid = visibleQuestions.find(q => fieldErrors[q.id]);
+    if (firstInvalid) {
+      goToPage(pages.findIndex(p => p.questions.includes(firstInvalid)));
+    }
+
+    const formError = submissionErrors.find(e => !e.question_id || !visibleIds.has(e.question_id));
+    toast({
+      title: 'Validation Error',
+      description: firstInvalid
+        ? `${pipe(firstInvalid.question_text)}: ${fieldErrors[firstInvalid.id]}`
+        : formError?.message || 'Your response could not be submitted',
+      variant: 'destructive',
+    });
+  };
+
+  // A one-time pass for the solved CAPTCHA, or null if the respondent has to
+  // (re)do it. Forms without a CAPTCHA need no pass.
+  const getCaptchaPass = async (): Promise<string | undefined | null> => {
+    if (!form.captcha_required) return undefined;
+
+    if (!captchaToken) {
       toast({
-        title: 'Success',
-        description: 'Your response has been submitted successfully!',
+        title: 'Validation Error',
+        description: 'Please complete the CAPTCHA',
+        variant: 'destructive',
       });
-    } catch (error: any) {
+      return null;
+    }
+
+    try {
+      return await verifyCaptcha.mutateAsync({ formId, token: captchaToken });
+    } catch (error) {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to submit response',
+        description: error.message,
         variant: 'destructive',
       });
-    } finally {
-      setSubmitting(false);
+      resetCaptcha();
+      return null;
     }
   };
 
+  const submitForm = async () => {
+    if (!validateForm()) return;
+
+    // Only answers to visible questions are sent
+    const sentAnswers = Object.fromEntries(
+      visibleQuestions
+        .filter(q => !isAnswerEmpty(q.question_type, answers[q.id]))
+        .map(q => [q.id, answers[q.id].trim()])
+    );
+
+    const handlers = {
+      onSuccess: (result: SubmissionResult) => {
+        if (result.errors.length > 0) {
+          showSubmissionErrors(result.errors);
+          return;
+        }
+
+        setSubmittedAnswers(sentAnswers);
+        if (editToken) {
+          setEditUrl(buildEditUrl(formId, editToken));
+        } else if (result.edit_token && form.allow_response_edits) {
+          setEditUrl(buildEditUrl(formId, result.edit_token));
+        }
+        // A draft in this browser belongs to a new response, not the one being edited
+        if (!editing) {
+          clearLocalDraft(formId);
+          if (resumeToken) {
+            deleteDraft.mutate({ formId, token: resumeToken });
+            setResumeToken(null);
+          }
+        }
+        setRestoredDraft(false);
+        setEditing(false);
+        toast({
+          title: 'Success',
+          description: editing
+            ? 'Your response has been updated successfully!'
+            : 'Your response has been submitted successfully!',
+        });
+      },
+      onError: (error: Error) => {
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to submit response',
+          variant: 'destructive',
+        });
+      },
+    };
+
+    // The edit link is all it takes to change a response
+    if (editToken) {
+      editLinkedResponse.mutate(
+        { formId, token: editToken, answers: sentAnswers, uploadFolder: responseId },
+        handlers
+      );
+      return;
+    }
+
+    const captchaPass = await getCaptchaPass();
+    if (captchaPass === null) return;
+
+    submitResponse.mutate(
+      {
+        formId,
+        answers: sentAnswers,
+        responseId,
+        honeypot,
+        fillSeconds: getFillSeconds(startedAt),
+        captchaPass,
+        browserToken,
+      },
+      {
+        ...handlers,
+        onSettled: () => {
+          if (form.captcha_required) resetCaptcha();
+        },
+      }
+    );
+  };
+
   if (loading) {
     return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
+      <ThemedPage theme={theme} className="flex items-center justify-center">
         <p>Loading form...</p>
-      </div>
+      </ThemedPage>
+    );
+  }
+
+  if (availability && availability !== 'open' && !acceptsEdit) {
+    const message = UNAVAILABLE_MESSAGES[availability];
+    return (
+      <ThemedPage theme={theme} className="flex items-center justify-center">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <CardTitle>{message.title}</CardTitle>
+            <CardDescription>
+              {form && <span className="block font-medium text-foreground mb-2">{form.title}</span>}
+              {message.description}
+              {availability === 'not_yet_open' && form?.opens_at && (
+                <> It opens on {new Date(form.opens_at).toLocaleString()}.</>
+              )}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </ThemedPage>
     );
   }
 
   if (!form) {
     return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
+      <ThemedPage theme={theme} className="flex items-center justify-center">
         <Card className="max-w-md w-full">
           <CardHeader className="text-center">
             <CardTitle>Form Not Found</CardTitle>
@@ -166,91 +573,228 @@ export const PublicForm = () => {
             </CardDescription>
           </CardHeader>
         </Card>
-      </div>
+      </ThemedPage>
     );
   }
 
-  if (submitted) {
+  if (editToken && !submittedAnswers && !editableResponse?.can_edit) {
     return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
+      <ThemedPage theme={theme} className="flex items-center justify-center">
         <Card className="max-w-md w-full">
           <CardHeader className="text-center">
-            <CheckCircle className="mx-auto h-16 w-16 text-green-500 mb-4" />
-            <CardTitle>Thank You!</CardTitle>
+            <CardTitle>{editableResponse ? 'Editing Closed' : 'Edit Link Not Valid'}</CardTitle>
             <CardDescription>
-              Your response has been submitted successfully. We appreciate your feedback.
+              <span className="block font-medium text-foreground mb-2">{form.title}</span>
+              {editableResponse
+                ? 'This response can no longer be edited.'
+                : 'This link is not valid. Please check that you copied all of it.'}
             </CardDescription>
           </CardHeader>
         </Card>
-      </div>
+      </ThemedPage>
+    );
+  }
+
+  if (respondentMode === 'user' && !user && !editToken) {
+    return (
+      <AuthForm
+        description={`Sign in to respond to "${form.title}". Each person can respond once.`}
+        redirectTo={window.location.href}
+      />
+    );
+  }
+
+  const canEdit = canEditResponses(respondentMode, form.allow_response_edits);
+
+  if (submittedAnswers) {
+    return (
+      <ThemedPage theme={theme} className="flex items-center justify-center py-8">
+        <ConfirmationScreen
+          confirmation={form.confirmation}
+          questions={questions}
+          answers={submittedAnswers}
+          onSubmitAnother={respondentMode || editToken ? undefined : startOver}
+          onEditResponse={canEdit || editToken ? () => editResponse(submittedAnswers) : undefined}
+          editUrl={editUrl}
+        />
+      </ThemedPage>
+    );
+  }
+
+  if (previousResponse && !editing && !editToken) {
+    return (
+      <ThemedPage theme={theme} className="flex items-center justify-center">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <CardTitle>You've Already Responded</CardTitle>
+            <CardDescription>
+              <span className="block font-medium text-foreground mb-2">{form.title}</span>
+              You submitted a response on {new Date(previousResponse.submitted_at).toLocaleString()}.
+              {!previousResponse.can_edit && ' Each person can respond to this form once.'}
+            </CardDescription>
+          </CardHeader>
+          {previousResponse.can_edit && previousResponse.answers && (
+            <CardContent>
+              <Button className="w-full" onClick={() => editResponse(previousResponse.answers)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Your Response
+              </Button>
+            </CardContent>
+          )}
+        </Card>
+      </ThemedPage>
     );
   }
 
   return (
-    <div className="min-h-screen bg-background py-8">
+    <ThemedPage theme={theme} className="py-8">
       <div className="container mx-auto px-4 max-w-2xl">
         <Card>
-          <CardHeader>
-            <CardTitle className="text-2xl">{form.title}</CardTitle>
-            {form.description && (
-              <CardDescription className="text-base">
-                {form.description}
-              </CardDescription>
-            )}
-          </CardHeader>
+          <ThemedFormHeader theme={theme} title={form.title} description={form.description} />
           <CardContent className="space-y-8">
-            {questions.map((question, index) => (
+            {editing && (
+              <Alert>
+                <Pencil className="h-4 w-4" />
+                <AlertDescription>
+                  You're editing your earlier response. Submitting replaces your previous answers.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {restoredDraft && !editing && (
+              <Alert>
+                <History className="h-4 w-4" />
+                <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                  Welcome back! Your earlier answers have been restored.
+                  <Button variant="link" className="h-auto p-0" onClick={startOver}>
+                    Start over
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {pages.length > 1 && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Page {pageIndex + 1} of {pages.length}</span>
+                  <span>{Math.round(((pageIndex + 1) / pages.length) * 100)}%</span>
+                </div>
+                <Progress value={((pageIndex + 1) / pages.length) * 100} />
+              </div>
+            )}
+
+            {page.section && (
+              <div className="space-y-1 border-b pb-4">
+                <h2 className="text-xl font-semibold">{pipe(page.section.question_text)}</h2>
+                {page.section.description && (
+                  <p className="text-muted-foreground">{pipe(page.section.description)}</p>
+                )}
+              </div>
+            )}
+
+            {page.questions.map((question) => (
               <div key={question.id} className="space-y-3">
                 <Label className="text-base font-medium">
-                  {index + 1}. {question.question_text}
+                  {questionNumbers.get(question.id)}. {pipe(question.question_text)}
                   {question.is_required && (
                     <Badge variant="destructive" className="ml-2 text-xs">
                       Required
                     </Badge>
                   )}
                 </Label>
+                {question.description && (
+                  <p className="text-sm text-muted-foreground">{pipe(question.description)}</p>
+                )}
 
-                {question.question_type === 'text' ? (
-                  <Textarea
-                    placeholder="Enter your answer..."
-                    value={answers[question.id] || ''}
-                    onChange={(e) => handleAnswerChange(question.id, e.target.value)}
-                    className="min-h-[100px]"
-                  />
-                ) : (
-                  <RadioGroup
-                    value={answers[question.id] || ''}
-                    onValueChange={(value) => handleAnswerChange(question.id, value)}
-                  >
-                    {question.options?.map((option, optionIndex) => (
-                      <div key={optionIndex} className="flex items-center space-x-2">
-                        <RadioGroupItem value={option} id={`${question.id}-${optionIndex}`} />
-                        <Label 
-                          htmlFor={`${question.id}-${optionIndex}`}
-                          className="font-normal cursor-pointer"
-                        >
-                          {option}
-                        </Label>
-                      </div>
-                    ))}
-                  </RadioGroup>
+                <QuestionInput
+                  question={question}
+                  value={answers[question.id] || ''}
+                  onChange={(value) => handleAnswerChange(question.id, value)}
+                  invalid={Boolean(errors[question.id])}
+                  uploadTarget={{ formId, responseId }}
+                />
+
+                {errors[question.id] && (
+                  <p className="text-sm text-destructive">{errors[question.id]}</p>
                 )}
               </div>
             ))}
 
-            <div className="pt-6">
-              <Button 
-                onClick={submitForm} 
-                disabled={submitting}
-                className="w-full"
-                size="lg"
-              >
-                {submitting ? 'Submitting...' : 'Submit Response'}
-              </Button>
+            {/* Hidden from people; bots that fill in every field give themselves away */}
+            <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+              <label htmlFor={HONEYPOT_FIELD}>Website</label>
+              <input
+                id={HONEYPOT_FIELD}
+                name={HONEYPOT_FIELD}
+                type="text"
+                tabIndex={-1}
+                autoComplete="off"
+                value={honeypot}
+                onChange={(e) => setHoneypot(e.target.value)}
+              />
             </div>
+
+            {isLastPage && form.captcha_required && !editToken && (
+              captchaConfig ? (
+                <CaptchaWidget key={captchaKey} config={captchaConfig} onChange={setCaptchaToken} />
+              ) : (
+                <p className="text-sm text-destructive">
+                  This form requires a CAPTCHA, which is not available right now. Please try again later.
+                </p>
+              )
+            )}
+
+            <div className="pt-6 flex gap-4">
+              {pageIndex > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => goToPage(pageIndex - 1)}
+                  disabled={submitting}
+                  size="lg"
+                >
+                  <ChevronLeft className="mr-2 h-4 w-4" />
+                  {buttonLabels.back}
+                </Button>
+              )}
+              {isLastPage ? (
+                <Button 
+                  onClick={submitForm} 
+                  disabled={submitting}
+                  className="flex-1"
+                  size="lg"
+                >
+                  {submitting ? 'Submitting...' : buttonLabels.submit}
+                </Button>
+              ) : (
+                <Button onClick={nextPage} className="flex-1" size="lg">
+                  {buttonLabels.next}
+                  <ChevronRight className="ml-2 h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            {form.draft_expiry_days && !editing && (
+              <div className="text-center">
+                <Button
+                  variant="link"
+                  onClick={saveForLater}
+                  disabled={saveDraft.isPending || submitting}
+                >
+                  {saveDraft.isPending ? 'Saving...' : 'Save and continue later'}
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
-    </div>
+      {savedDraft && (
+        <ResumeLinkDialog
+          open
+          onOpenChange={(open) => !open && setSavedDraft(null)}
+          link={buildResumeUrl(formId, savedDraft.token)}
+          expiresAt={savedDraft.expires_at}
+        />
+      )}
+    </ThemedPage>
   );
 };
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { AuthForm } from '@/components/AuthForm';
+import { ResponseDetailView } from '@/components/ResponseDetailView';
+
+const ResponseDetail = () => {
+  const { formId, responseId } = useParams<{ formId: string; responseId: string }>();
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthForm />;
+  }
+
+  return <ResponseDetailView formId={formId} responseId={responseId} />;
+};
+
+export default ResponseDetail;
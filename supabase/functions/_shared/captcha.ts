@@ -0,0 +1,53 @@
+// CAPTCHA verifiers for the verify-captcha function. The provider is chosen
+// with the CAPTCHA_PROVIDER environment variable and must match the widget the
+// app shows (VITE_CAPTCHA_PROVIDER):
+//
+// - turnstile: Cloudflare Turnstile, secret in CAPTCHA_SECRET_KEY
+// - hcaptcha:  hCaptcha, secret in CAPTCHA_SECRET_KEY
+// - stub:      no network calls; accepts STUB_PASS_TOKEN and rejects anything
+//              else. For local development and tests only.
+//
+// Another provider only needs a CaptchaVerifier and an entry in VERIFIERS.
+
+export interface CaptchaVerifier {
+  /** Whether `token` is a valid, unused solution of the provider's challenge. */
+  verify(token: string, remoteIp: string | null): Promise<boolean>;
+}
+
+/** The token the stub widget produces and the stub verifier accepts. */
+export const STUB_PASS_TOKEN = 'stub-pass';
+
+export const stubVerifier: CaptchaVerifier = {
+  verify: async (token) => token === STUB_PASS_TOKEN,
+};
+
+// Turnstile and hCaptcha share the siteverify protocol: a form post of the
+// secret, the token and optionally the client's IP, answered with { success }.
+const siteverifyVerifier = (url: string, secret: string): CaptchaVerifier => ({
+  verify: async (token, remoteIp) => {
+    const body = new URLSearchParams({ secret, response: token });
+    if (remoteIp) body.set('remoteip', remoteIp);
+
+    const response = await fetch(url, { method: 'POST', body });
+    if (!response.ok) {
+      throw new Error(`CAPTCHA verification failed with status ${response.status}`);
+    }
+    const result = await response.json();
+    return result.success === true;
+  },
+});
+
+const VERIFIERS: Record<string, (secret: string) => CaptchaVerifier> = {
+  turnstile: (secret) => siteverifyVerifier('https://challenges.cloudflare.com/turnstile/v0/siteverify', secret),
+  hcaptcha: (secret) => siteverifyVerifier('https://api.hcaptcha.com/siteverify', secret),
+  stub: () => stubVerifier,
+};
+
+/** The verifier configured in the environment, or null if there is none. */
+export const getCaptchaVerifier = (): CaptchaVerifier | null => {
+  const provider = Deno.env.get('CAPTCHA_PROVIDER');
+  const secret = Deno.env.get('CAPTCHA_SECRET_KEY') ?? '';
+  if (!provider || !(provider in VERIFIERS)) return null;
+  if (provider !== 'stub' && !secret) return null;
+  return VERIFIERS[provider](secret);
+};
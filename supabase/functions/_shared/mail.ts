@@ -0,0 +1,138 @@
+// Mail transports for the send-notifications function. The transport is chosen
+// with the MAIL_TRANSPORT environment variable and every message is sent from
+// MAIL_FROM:
+//
+// - smtp:   any SMTP server, configured with SMTP_HOST, SMTP_PORT (587 by
+//           default), SMTP_USERNAME, SMTP_PASSWORD and SMTP_TLS ('true' for
+//           implicit TLS, usually port 465; otherwise STARTTLS is used when the
+//           server offers it)
+// - file:   writes each message as an .eml file to MAIL_FILE_DIR (/tmp/mail by
+//           default). For local development only.
+// - memory: keeps messages in memory, where the function returns them in its
+//           response. For local development and tests only.
+//
+// Another transport only needs a MailTransport and an entry in TRANSPORTS.
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  /** Delivers `message`, or throws if it could not be handed over. */
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface MemoryTransport extends MailTransport {
+  /** Every message sent so far, oldest first. */
+  sent: MailMessage[];
+}
+
+export const createMemoryTransport = (): MemoryTransport => {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    send: async (message) => {
+      sent.push(message);
+    },
+  };
+};
+
+// A minimal RFC 5322 message with plain text and HTML alternatives, enough for
+// mail clients to open the files.
+const toEml = (message: MailMessage) => {
+  const boundary = `boundary-${crypto.randomUUID()}`;
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
+
+const fileTransport = (dir: string): MailTransport => ({
+  send: async (message) => {
+    await Deno.mkdir(dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+    await Deno.writeTextFile(`${dir}/${name}`, toEml(message));
+  },
+});
+
+interface SmtpSettings {
+  hostname: string;
+  port: number;
+  tls: boolean;
+  username: string;
+  password: string;
+}
+
+// Opens a connection per message: the function sends a handful of emails a
+// run, and a connection left open between runs would time out anyway.
+const smtpTransport = (settings: SmtpSettings): MailTransport => ({
+  send: async (message) => {
+    const client = new SMTPClient({
+      connection: {
+        hostname: settings.hostname,
+        port: settings.port,
+        tls: settings.tls,
+        auth: settings.username
+          ? { username: settings.username, password: settings.password }
+          : undefined,
+      },
+    });
+    try {
+      await client.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  },
+});
+
+const TRANSPORTS: Record<string, () => MailTransport | null> = {
+  smtp: () => {
+    const hostname = Deno.env.get('SMTP_HOST');
+    if (!hostname) return null;
+    return smtpTransport({
+      hostname,
+      port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+      tls: Deno.env.get('SMTP_TLS') === 'true',
+      username: Deno.env.get('SMTP_USERNAME') ?? '',
+      password: Deno.env.get('SMTP_PASSWORD') ?? '',
+    });
+  },
+  file: () => fileTransport(Deno.env.get('MAIL_FILE_DIR') ?? '/tmp/mail'),
+  memory: () => createMemoryTransport(),
+};
+
+/** The transport configured in the environment, or null if there is none. */
+export const getMailTransport = (): MailTransport | null => {
+  const name = Deno.env.get('MAIL_TRANSPORT');
+  if (!name || !(name in TRANSPORTS)) return null;
+  return TRANSPORTS[name]();
+};
+
+/** The address notifications are sent from, or null if it is not configured. */
+export const getMailFrom = (): string | null => Deno.env.get('MAIL_FROM') || null;
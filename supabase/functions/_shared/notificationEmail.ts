@@ -0,0 +1,139 @@
+// Renders the email that tells a form's creator about new responses: one
+// response in full for instant notifications, or a digest of several. Answers
+// are formatted like the app's formatAnswer in src/lib/questionTypes.ts, so
+// keep the two in sync.
+
+export interface NotificationQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+}
+
+export interface NotificationResponse {
+  id: string;
+  submitted_at: string;
+  // question_id => answer_text
+  answers: Record<string, string>;
+}
+
+export interface NotificationEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Digests list at most this many responses in full; the rest are in the app.
+export const MAX_RESPONSES_PER_EMAIL = 50;
+
+const SCALE_MAX: Record<string, number> = { rating: 5, linear_scale: 10 };
+
+const parseArray = (answer: string): unknown[] => {
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed : [answer];
+  } catch {
+    return [answer];
+  }
+};
+
+const formatAnswer = (type: string, answer: string | undefined) => {
+  if (!answer) return '';
+
+  switch (type) {
+    case 'checkboxes':
+      return parseArray(answer).map(String).join(', ');
+    case 'yes_no':
+      return answer === 'yes' ? 'Yes' : answer === 'no' ? 'No' : answer;
+    case 'file_upload':
+      return parseArray(answer)
+        .map(file => (file as { name?: unknown })?.name)
+        .filter((name): name is string => typeof name === 'string')
+        .join(', ');
+    case 'rating':
+    case 'linear_scale':
+      return `${answer} / ${SCALE_MAX[type]}`;
+    default:
+      return answer;
+  }
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (value: string) => new Date(value).toUTCString();
+
+/**
+ * The email about `responses` (oldest first) to `form`. `appUrl` is where the
+ * app is hosted, for links to the responses; without it the email has none.
+ */
+export const renderNotificationEmail = (
+  form: { id: string; title: string },
+  questions: NotificationQuestion[],
+  responses: NotificationResponse[],
+  appUrl: string | null
+): NotificationEmail => {
+  const baseUrl = appUrl?.replace(/\/+$/, '') || null;
+  const responsesUrl = baseUrl ? `${baseUrl}/forms/${form.id}/responses` : null;
+  const shown = responses.slice(0, MAX_RESPONSES_PER_EMAIL);
+  const hidden = responses.length - shown.length;
+
+  const subject = responses.length === 1
+    ? `New response to ${form.title}`
+    : `${responses.length} new responses to ${form.title}`;
+
+  const text: string[] = [subject, ''];
+  const html: string[] = [
+    `<h2 style="font-family: sans-serif;">${escapeHtml(subject)}</h2>`,
+  ];
+
+  for (const response of shown) {
+    const responseUrl = responsesUrl ? `${responsesUrl}/${response.id}` : null;
+    const heading = `Submitted ${formatDate(response.submitted_at)}`;
+
+    text.push(heading);
+    html.push(
+      '<div style="font-family: sans-serif; border-top: 1px solid #ddd; padding: 12px 0;">',
+      `<p style="color: #666; margin: 0 0 8px;">${escapeHtml(heading)}</p>`,
+      '<dl style="margin: 0;">'
+    );
+
+    for (const question of questions) {
+      const answer = formatAnswer(question.question_type, response.answers[question.id]) || 'Not answered';
+      text.push(question.question_text, `  ${answer.replace(/\n/g, '\n  ')}`);
+      html.push(
+        `<dt style="font-weight: bold; margin-top: 8px;">${escapeHtml(question.question_text)}</dt>`,
+        `<dd style="margin: 0; white-space: pre-wrap;">${escapeHtml(answer)}</dd>`
+      );
+    }
+
+    html.push('</dl>');
+    if (responseUrl) {
+      text.push(`View response: ${responseUrl}`);
+      html.push(`<p style="margin: 8px 0 0;"><a href="${escapeHtml(responseUrl)}">View response</a></p>`);
+    }
+    html.push('</div>');
+    text.push('');
+  }
+
+  if (hidden > 0) {
+    const more = `And ${hidden} more ${hidden === 1 ? 'response' : 'responses'}.`;
+    text.push(more, '');
+    html.push(`<p style="font-family: sans-serif;">${escapeHtml(more)}</p>`);
+  }
+
+  if (responsesUrl) {
+    text.push(`All responses: ${responsesUrl}`);
+    html.push(`<p style="font-family: sans-serif;"><a href="${escapeHtml(responsesUrl)}">All responses</a></p>`);
+  }
+
+  const footer = "You get these emails because notifications are on for this form. Change them in the form's settings.";
+  text.push('', footer);
+  html.push(`<p style="font-family: sans-serif; color: #666; font-size: 12px;">${escapeHtml(footer)}</p>`);
+
+  return { subject, text: text.join('\n'), html: html.join('\n') };
+};
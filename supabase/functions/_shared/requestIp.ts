@@ -0,0 +1,13 @@
+// The caller's IP address, worked out by the database's
+// public.client_ip_from_headers so Edge Functions and submit_form_response
+// trust the same proxy headers. Needs a client with the service role key.
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/** The client's IP address for `req`, or null if the headers don't give one. */
+export const getClientIp = async (supabase: SupabaseClient, req: Request): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('client_ip_from_headers', {
+    _headers: Object.fromEntries(req.headers),
+  });
+  if (error) throw error;
+  return data ?? null;
+};
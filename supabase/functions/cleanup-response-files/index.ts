@@ -0,0 +1,68 @@
+// Removes uploaded files that no response, draft or edit history refers to,
+// e.g. from responses that were never submitted. Meant to run on a schedule
+// (hourly, see the README), called with
+//   POST, Authorization: Bearer <service role key>
+// and answers { "removed": <number of files> }. Files are kept for
+// RESPONSE_FILE_MAX_AGE_HOURS (24 by default) after they were uploaded, so
+// respondents still filling in a form don't lose them.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Storage removes at most 1000 objects per request
+const BATCH_SIZE = 1000;
+// Leaves the rest for the next run rather than running into the time limit
+const MAX_BATCHES = 20;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const maxAgeHours = Number(Deno.env.get('RESPONSE_FILE_MAX_AGE_HOURS') ?? 24);
+  if (!Number.isFinite(maxAgeHours) || maxAgeHours < 1) {
+    console.error('cleanup-response-files: RESPONSE_FILE_MAX_AGE_HOURS must be at least 1');
+    return json({ error: 'Cleanup is not configured correctly' }, 500);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+  let removed = 0;
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const { data: paths, error } = await supabase.rpc('list_stale_response_files', {
+      _older_than: `${maxAgeHours} hours`,
+      _limit: BATCH_SIZE,
+    });
+    if (error) {
+      console.error('cleanup-response-files:', error);
+      return json({ error: 'Failed to list files', removed }, 500);
+    }
+    if (paths.length === 0) break;
+
+    const { error: removeError } = await supabase.storage.from('response-files').remove(paths);
+    if (removeError) {
+      console.error('cleanup-response-files:', removeError);
+      return json({ error: 'Failed to remove files', removed }, 500);
+    }
+    removed += paths.length;
+    if (paths.length < BATCH_SIZE) break;
+  }
+
+  return json({ removed });
+});
@@ -0,0 +1,132 @@
+// Emails form creators about new responses, following each form's
+// notify_on_response setting. Meant to run on a schedule (every minute, see the
+// README), called with
+//   POST, Authorization: Bearer <service role key>
+// and answers { "sent": <emails sent>, "failed": <forms that failed> }, plus
+// the messages in "outbox" when MAIL_TRANSPORT is 'memory'. Each run claims the
+// responses it emails about, so overlapping runs don't send the same email
+// twice. An email that fails gives its responses back to the queue to be
+// retried on the next run.
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getMailFrom, getMailTransport, MailTransport, MemoryTransport } from '../_shared/mail.ts';
+import { NotificationResponse, renderNotificationEmail } from '../_shared/notificationEmail.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface DueNotification {
+  form_id: string;
+  frequency: string;
+  claim_id: string;
+  response_ids: string[];
+}
+
+// Sends one claimed email and marks its responses as sent. Responses marked
+// as spam since they were queued are left out of the email.
+const notifyCreator = async (
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  from: string,
+  due: DueNotification
+) => {
+  const { data: form, error: formError } = await supabase
+    .from('forms')
+    .select('id, title, creator_id')
+    .eq('id', due.form_id)
+    .single();
+  if (formError) throw formError;
+
+  const { data: creator, error: creatorError } = await supabase.auth.admin.getUserById(form.creator_id);
+  if (creatorError) throw creatorError;
+
+  const { data: questions, error: questionsError } = await supabase
+    .from('form_questions')
+    .select('id, question_text, question_type')
+    .eq('form_id', form.id)
+    .neq('question_type', 'section')
+    .order('order_index');
+  if (questionsError) throw questionsError;
+
+  const { data: rows, error: responsesError } = await supabase
+    .from('form_responses')
+    .select('id, submitted_at, question_responses(question_id, answer_text)')
+    .in('id', due.response_ids)
+    .eq('is_spam', false)
+    .order('submitted_at');
+  if (responsesError) throw responsesError;
+
+  const responses: NotificationResponse[] = rows.map(row => ({
+    id: row.id,
+    submitted_at: row.submitted_at,
+    answers: Object.fromEntries(
+      (row.question_responses ?? []).map(
+        (answer: { question_id: string; answer_text: string | null }) => [answer.question_id, answer.answer_text ?? '']
+      )
+    ),
+  }));
+
+  const to = creator.user?.email;
+  if (responses.length > 0 && to) {
+    const email = renderNotificationEmail(form, questions, responses, Deno.env.get('APP_URL') ?? null);
+    await transport.send({ from, to, ...email });
+  }
+
+  const { error: markError } = await supabase.rpc('mark_notifications_sent', { _claim_id: due.claim_id });
+  if (markError) throw markError;
+
+  return responses.length > 0 && Boolean(to);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const transport = getMailTransport();
+  const from = getMailFrom();
+  if (!transport || !from) {
+    console.error('send-notifications: MAIL_TRANSPORT or MAIL_FROM is not configured');
+    return json({ error: 'Email is not available' }, 500);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+  const { data: due, error } = await supabase.rpc('claim_due_notifications');
+  if (error) {
+    console.error('send-notifications:', error);
+    return json({ error: 'Failed to load notifications' }, 500);
+  }
+
+  let sent = 0;
+  let failed = 0;
+  for (const notification of (due ?? []) as DueNotification[]) {
+    try {
+      if (await notifyCreator(supabase, transport, from, notification)) sent += 1;
+    } catch (error) {
+      console.error(`send-notifications: form ${notification.form_id}:`, error);
+      failed += 1;
+      const { error: releaseError } = await supabase.rpc('release_notification_claim', {
+        _claim_id: notification.claim_id,
+      });
+      if (releaseError) console.error('send-notifications:', releaseError);
+    }
+  }
+
+  const outbox = 'sent' in transport ? (transport as MemoryTransport).sent : undefined;
+  return json({ sent, failed, outbox });
+});
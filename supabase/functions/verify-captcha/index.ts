@@ -0,0 +1,72 @@
+// Checks a respondent's CAPTCHA token and, if it is valid, returns a one-time
+// pass for submit_form_response. Called by the public form with
+//   POST { "form_id": "<uuid>", "token": "<CAPTCHA token>" }
+// and answers { "pass": "<pass>" }, or { "error": "<message>" } with a 4xx/5xx
+// status.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCaptchaVerifier } from '../_shared/captcha.ts';
+import { getClientIp } from '../_shared/requestIp.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let formId: unknown;
+  let token: unknown;
+  try {
+    ({ form_id: formId, token } = await req.json());
+  } catch {
+    return json({ error: 'Invalid request' }, 400);
+  }
+  if (typeof formId !== 'string' || typeof token !== 'string' || !token) {
+    return json({ error: 'Invalid request' }, 400);
+  }
+
+  const verifier = getCaptchaVerifier();
+  if (!verifier) {
+    console.error('verify-captcha: CAPTCHA_PROVIDER is not configured');
+    return json({ error: 'CAPTCHA verification is not available' }, 500);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // Only a hint for the provider, so the check goes ahead without it
+  const remoteIp = await getClientIp(supabase, req).catch((error) => {
+    console.error('verify-captcha:', error);
+    return null;
+  });
+  try {
+    if (!(await verifier.verify(token, remoteIp))) {
+      return json({ error: 'CAPTCHA verification failed, please try again' }, 403);
+    }
+  } catch (error) {
+    console.error('verify-captcha:', error);
+    return json({ error: 'CAPTCHA verification is not available' }, 502);
+  }
+
+  const { data: pass, error } = await supabase.rpc('issue_captcha_pass', { _form_id: formId });
+  if (error) {
+    console.error('verify-captcha:', error);
+    return json({ error: 'Failed to verify CAPTCHA' }, 500);
+  }
+
+  return json({ pass });
+});
@@ -0,0 +1,25 @@
+-- Allow the extended set of question types. Answers are still stored as text
+-- in question_responses.answer_text; see src/lib/questionTypes.ts for the
+-- per-type encoding.
+ALTER TABLE public.form_questions
+  DROP CONSTRAINT IF EXISTS form_questions_question_type_check;
+
+ALTER TABLE public.form_questions
+  ADD CONSTRAINT form_questions_question_type_check
+  CHECK (question_type IN (
+    'text',
+    'short_text',
+    'multiple_choice',
+    'checkboxes',
+    'dropdown',
+    'number',
+    'email',
+    'url',
+    'phone',
+    'date',
+    'time',
+    'linear_scale',
+    'rating',
+    'nps',
+    'yes_no'
+  ));
@@ -0,0 +1,133 @@
+-- Conditional display logic for questions. A question with a NULL visibility
+-- rule is always shown; otherwise the rule is evaluated against the other
+-- answers in the same response. The JSON shape and semantics match
+-- src/lib/formRules.ts:
+--
+--   { "match": "all" | "any",
+--     "groups": [ { "match": "all" | "any",
+--                   "conditions": [ { "question_id": uuid, "operator": text, "value": text } ] } ] }
+ALTER TABLE public.form_questions
+  ADD COLUMN visibility JSONB;
+
+-- Evaluate a single condition against a response's answers.
+-- answers maps question id -> answer_text, question_types maps question id -> question_type.
+CREATE OR REPLACE FUNCTION public.evaluate_condition(condition JSONB, answers JSONB, question_types JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  op TEXT := condition ->> 'operator';
+  answer TEXT := btrim(answers ->> (condition ->> 'question_id'));
+  expected TEXT := btrim(COALESCE(condition ->> 'value', ''));
+  answered BOOLEAN;
+  selected TEXT[];
+  matches BOOLEAN;
+BEGIN
+  answered := answer IS NOT NULL AND answer <> '' AND answer <> '[]';
+
+  IF op = 'is_answered' THEN
+    RETURN answered;
+  ELSIF op = 'is_not_answered' THEN
+    RETURN NOT answered;
+  ELSIF NOT answered THEN
+    RETURN op IN ('not_equals', 'not_contains');
+  END IF;
+
+  IF op IN ('equals', 'not_equals') THEN
+    IF question_types ->> (condition ->> 'question_id') = 'checkboxes' THEN
+      BEGIN
+        selected := ARRAY(SELECT jsonb_array_elements_text(answer::jsonb));
+      EXCEPTION WHEN others THEN
+        selected := ARRAY[answer];
+      END;
+      matches := expected = ANY(selected);
+    ELSE
+      matches := answer = expected;
+    END IF;
+    RETURN CASE WHEN op = 'equals' THEN matches ELSE NOT matches END;
+  ELSIF op = 'contains' THEN
+    RETURN position(lower(expected) IN lower(answer)) > 0;
+  ELSIF op = 'not_contains' THEN
+    RETURN position(lower(expected) IN lower(answer)) = 0;
+  ELSIF op IN ('greater_than', 'less_than') THEN
+    IF answer !~ '^-?\d+(\.\d+)?$' OR expected !~ '^-?\d+(\.\d+)?$' THEN
+      RETURN false;
+    END IF;
+    RETURN CASE
+      WHEN op = 'greater_than' THEN answer::numeric > expected::numeric
+      ELSE answer::numeric < expected::numeric
+    END;
+  END IF;
+
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- An empty list of groups or conditions counts as a match.
+CREATE OR REPLACE FUNCTION public.evaluate_visibility(rule JSONB, answers JSONB, question_types JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN rule IS NULL OR jsonb_typeof(rule) <> 'object' THEN true
+    WHEN rule ->> 'match' = 'any' THEN
+      jsonb_array_length(COALESCE(rule -> 'groups', '[]'::jsonb)) = 0 OR bool_or(group_matches)
+    ELSE
+      COALESCE(bool_and(group_matches), true)
+  END
+  FROM (
+    SELECT CASE
+      WHEN grp ->> 'match' = 'any' THEN
+        jsonb_array_length(COALESCE(grp -> 'conditions', '[]'::jsonb)) = 0
+        OR EXISTS (
+          SELECT 1 FROM jsonb_array_elements(grp -> 'conditions') AS c(condition)
+          WHERE public.evaluate_condition(c.condition, answers, question_types)
+        )
+      ELSE
+        NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(grp -> 'conditions', '[]'::jsonb)) AS c(condition)
+          WHERE NOT public.evaluate_condition(c.condition, answers, question_types)
+        )
+    END AS group_matches
+    FROM jsonb_array_elements(COALESCE(rule -> 'groups', '[]'::jsonb)) AS g(grp)
+  ) AS groups;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Reject answers to questions that the rest of the response hides. Runs once
+-- per INSERT statement so a batch of answers is checked as a whole, regardless
+-- of row order. Answers to hidden questions can never be stored, so dependent
+-- rules automatically see hidden questions as unanswered.
+CREATE OR REPLACE FUNCTION public.enforce_question_visibility()
+RETURNS TRIGGER AS $$
+DECLARE
+  response RECORD;
+  hidden_question TEXT;
+BEGIN
+  FOR response IN SELECT DISTINCT form_response_id FROM inserted_answers LOOP
+    SELECT fq.question_text INTO hidden_question
+    FROM public.question_responses qr
+    JOIN public.form_questions fq ON fq.id = qr.question_id
+    CROSS JOIN LATERAL (
+      SELECT
+        jsonb_object_agg(a.question_id, a.answer_text) AS answers,
+        jsonb_object_agg(a.question_id, q.question_type) AS question_types
+      FROM public.question_responses a
+      JOIN public.form_questions q ON q.id = a.question_id
+      WHERE a.form_response_id = response.form_response_id
+    ) AS ctx
+    WHERE qr.form_response_id = response.form_response_id
+      AND fq.visibility IS NOT NULL
+      AND NOT public.evaluate_visibility(fq.visibility, ctx.answers, ctx.question_types)
+    LIMIT 1;
+
+    IF hidden_question IS NOT NULL THEN
+      RAISE EXCEPTION 'Question "%" is hidden by its display logic and cannot be answered', hidden_question
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_question_visibility
+  AFTER INSERT ON public.question_responses
+  REFERENCING NEW TABLE AS inserted_answers
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.enforce_question_visibility();
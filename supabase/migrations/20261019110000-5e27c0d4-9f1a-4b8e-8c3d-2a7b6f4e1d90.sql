@@ -0,0 +1,79 @@
+-- Sections / page breaks. A section is stored as a form_questions row with
+-- question_type 'section': question_text is its title and description is shown
+-- at the top of its page. Regular questions can use description as help text.
+ALTER TABLE public.form_questions
+  ADD COLUMN description TEXT;
+
+ALTER TABLE public.form_questions
+  DROP CONSTRAINT IF EXISTS form_questions_question_type_check;
+
+ALTER TABLE public.form_questions
+  ADD CONSTRAINT form_questions_question_type_check
+  CHECK (question_type IN (
+    'text',
+    'short_text',
+    'multiple_choice',
+    'checkboxes',
+    'dropdown',
+    'number',
+    'email',
+    'url',
+    'phone',
+    'date',
+    'time',
+    'linear_scale',
+    'rating',
+    'nps',
+    'yes_no',
+    'section'
+  ));
+
+-- A hidden section hides every question on its page, so an answer is rejected
+-- when either its own rule or the rule of the nearest preceding section fails.
+-- Sections themselves can never be answered.
+CREATE OR REPLACE FUNCTION public.enforce_question_visibility()
+RETURNS TRIGGER AS $$
+DECLARE
+  response RECORD;
+  hidden_question TEXT;
+BEGIN
+  FOR response IN SELECT DISTINCT form_response_id FROM inserted_answers LOOP
+    SELECT fq.question_text INTO hidden_question
+    FROM public.question_responses qr
+    JOIN public.form_questions fq ON fq.id = qr.question_id
+    CROSS JOIN LATERAL (
+      SELECT
+        jsonb_object_agg(a.question_id, a.answer_text) AS answers,
+        jsonb_object_agg(a.question_id, q.question_type) AS question_types
+      FROM public.question_responses a
+      JOIN public.form_questions q ON q.id = a.question_id
+      WHERE a.form_response_id = response.form_response_id
+    ) AS ctx
+    LEFT JOIN LATERAL (
+      SELECT s.visibility
+      FROM public.form_questions s
+      WHERE s.form_id = fq.form_id
+        AND s.question_type = 'section'
+        AND s.order_index < fq.order_index
+      ORDER BY s.order_index DESC
+      LIMIT 1
+    ) AS section ON true
+    WHERE qr.form_response_id = response.form_response_id
+      AND (
+        fq.question_type = 'section'
+        OR (fq.visibility IS NOT NULL
+            AND NOT public.evaluate_visibility(fq.visibility, ctx.answers, ctx.question_types))
+        OR (section.visibility IS NOT NULL
+            AND NOT public.evaluate_visibility(section.visibility, ctx.answers, ctx.question_types))
+      )
+    LIMIT 1;
+
+    IF hidden_question IS NOT NULL THEN
+      RAISE EXCEPTION 'Question "%" is hidden by its display logic and cannot be answered', hidden_question
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
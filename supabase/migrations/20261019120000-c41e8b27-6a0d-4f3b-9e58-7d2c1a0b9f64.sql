@@ -0,0 +1,197 @@
+-- Server-side answer validation. Public submissions now go through
+-- submit_form_response, which validates every answer and inserts the
+-- form_responses row and its question_responses in a single transaction.
+
+-- Validate a non-empty answer against its question type. Returns an error
+-- message, or NULL when the answer is acceptable. Mirrors validateAnswer in
+-- src/lib/questionTypes.ts.
+CREATE OR REPLACE FUNCTION public.validate_answer(question_type TEXT, options JSONB, answer TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  value TEXT := btrim(answer);
+  selected JSONB;
+BEGIN
+  CASE question_type
+    WHEN 'multiple_choice', 'dropdown' THEN
+      IF options IS NULL OR NOT options ? value THEN
+        RETURN 'Please choose one of the listed options';
+      END IF;
+    WHEN 'checkboxes' THEN
+      BEGIN
+        selected := value::jsonb;
+      EXCEPTION WHEN others THEN
+        RETURN 'Please choose from the listed options';
+      END;
+      IF jsonb_typeof(selected) <> 'array' OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(selected) AS e(item)
+        WHERE jsonb_typeof(e.item) <> 'string' OR options IS NULL OR NOT options ? (e.item #>> '{}')
+      ) THEN
+        RETURN 'Please choose from the listed options';
+      END IF;
+    WHEN 'number' THEN
+      IF value !~ '^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$' THEN
+        RETURN 'Please enter a valid number';
+      END IF;
+    WHEN 'email' THEN
+      IF value !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN 'Please enter a valid email address';
+      END IF;
+    WHEN 'url' THEN
+      IF value !~* '^https?://\S+$' THEN
+        RETURN 'Please enter a valid URL';
+      END IF;
+    WHEN 'phone' THEN
+      IF value !~ '^\+?[0-9\s().-]{6,20}$' THEN
+        RETURN 'Please enter a valid phone number';
+      END IF;
+    WHEN 'date' THEN
+      IF value !~ '^\d{4}-\d{2}-\d{2}$' THEN
+        RETURN 'Please enter a valid date';
+      END IF;
+      BEGIN
+        PERFORM value::date;
+      EXCEPTION WHEN others THEN
+        RETURN 'Please enter a valid date';
+      END;
+    WHEN 'time' THEN
+      IF value !~ '^([01]\d|2[0-3]):[0-5]\d$' THEN
+        RETURN 'Please enter a valid time';
+      END IF;
+    WHEN 'linear_scale' THEN
+      IF value !~ '^\d+$' OR value::int NOT BETWEEN 1 AND 10 THEN
+        RETURN 'Please choose a value from 1 to 10';
+      END IF;
+    WHEN 'rating' THEN
+      IF value !~ '^\d+$' OR value::int NOT BETWEEN 1 AND 5 THEN
+        RETURN 'Please choose a value from 1 to 5';
+      END IF;
+    WHEN 'nps' THEN
+      IF value !~ '^\d+$' OR value::int NOT BETWEEN 0 AND 10 THEN
+        RETURN 'Please choose a value from 0 to 10';
+      END IF;
+    WHEN 'yes_no' THEN
+      IF value NOT IN ('yes', 'no') THEN
+        RETURN 'Please answer yes or no';
+      END IF;
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Submit a response to an active form.
+--
+-- _answers maps question id -> answer_text. Returns
+--   { "response_id": uuid | null,
+--     "errors": [ { "question_id": uuid | null, "message": text } ] }
+-- Nothing is inserted when errors is non-empty. Errors with a NULL
+-- question_id apply to the whole form.
+CREATE OR REPLACE FUNCTION public.submit_form_response(_form_id UUID, _answers JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB := '[]'::jsonb;
+  question_types JSONB;
+  new_response_id UUID;
+  q RECORD;
+  answer TEXT;
+  is_visible BOOLEAN;
+  section_visible BOOLEAN := true;
+  message TEXT;
+BEGIN
+  IF jsonb_typeof(answers) <> 'object' THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forms WHERE id = _form_id AND is_active = true) THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This form is no longer accepting responses'
+      ))
+    );
+  END IF;
+
+  -- Every answer must belong to an answerable question of this form
+  SELECT errors || COALESCE(jsonb_agg(jsonb_build_object(
+    'question_id', NULL,
+    'message', 'Answer submitted for a question that is not part of this form'
+  )), '[]'::jsonb)
+  INTO errors
+  FROM jsonb_object_keys(answers) AS k(key)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.form_questions fq
+    WHERE fq.form_id = _form_id
+      AND fq.id::text = k.key
+      AND fq.question_type <> 'section'
+  );
+
+  SELECT COALESCE(jsonb_object_agg(id, form_questions.question_type), '{}'::jsonb)
+  INTO question_types
+  FROM public.form_questions
+  WHERE form_id = _form_id;
+
+  FOR q IN
+    SELECT * FROM public.form_questions
+    WHERE form_id = _form_id
+    ORDER BY order_index
+  LOOP
+    IF q.question_type = 'section' THEN
+      section_visible := public.evaluate_visibility(q.visibility, answers, question_types);
+      CONTINUE;
+    END IF;
+
+    answer := btrim(answers ->> q.id::text);
+    is_visible := section_visible AND public.evaluate_visibility(q.visibility, answers, question_types);
+
+    IF answer IS NULL OR answer = '' OR (q.question_type = 'checkboxes' AND answer = '[]') THEN
+      IF is_visible AND q.is_required THEN
+        errors := errors || jsonb_build_object('question_id', q.id, 'message', 'This question is required');
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF NOT is_visible THEN
+      errors := errors || jsonb_build_object(
+        'question_id', q.id,
+        'message', 'This question is hidden by its display logic and cannot be answered'
+      );
+      CONTINUE;
+    END IF;
+
+    message := public.validate_answer(q.question_type, q.options, answer);
+    IF message IS NOT NULL THEN
+      errors := errors || jsonb_build_object('question_id', q.id, 'message', message);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'errors', errors);
+  END IF;
+
+  INSERT INTO public.form_responses (form_id)
+  VALUES (_form_id)
+  RETURNING id INTO new_response_id;
+
+  INSERT INTO public.question_responses (form_response_id, question_id, answer_text)
+  SELECT new_response_id, fq.id, btrim(answers ->> fq.id::text)
+  FROM public.form_questions fq
+  WHERE fq.form_id = _form_id
+    AND fq.question_type <> 'section'
+    AND COALESCE(btrim(answers ->> fq.id::text), '') NOT IN ('', '[]');
+
+  RETURN jsonb_build_object('response_id', new_response_id, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_form_response(UUID, JSONB) TO anon, authenticated;
+
+-- Direct inserts bypassed all of the checks above; submissions must use the RPC
+DROP POLICY "Public can create form responses" ON public.form_responses;
+DROP POLICY "Public can create question responses" ON public.question_responses;
@@ -0,0 +1,61 @@
+-- Every form response must have at least one answer. Before submissions went
+-- through submit_form_response, a failed question_responses insert could
+-- leave an empty form_responses row behind; it was counted on the Dashboard
+-- but dropped from the responses table.
+
+-- Remove the empty responses left over from the old two-step submission
+DELETE FROM public.form_responses fr
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.question_responses qr
+  WHERE qr.form_response_id = fr.id
+);
+
+-- Checked at commit time, after submit_form_response has inserted the answers
+CREATE OR REPLACE FUNCTION public.ensure_response_has_answers()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.question_responses
+    WHERE form_response_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A response must contain at least one answer'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER ensure_response_has_answers
+  AFTER INSERT ON public.form_responses
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_response_has_answers();
+
+-- Responses can still end up empty when the only questions they answered are
+-- deleted from the form. Lets a creator remove those from one of their forms;
+-- returns the number of responses deleted.
+CREATE OR REPLACE FUNCTION public.delete_empty_responses(_form_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  deleted INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE id = _form_id AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM public.form_responses fr
+  WHERE fr.form_id = _form_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.question_responses qr
+      WHERE qr.form_response_id = fr.id
+    );
+
+  GET DIAGNOSTICS deleted = ROW_COUNT;
+  RETURN deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_empty_responses(UUID) TO authenticated;
@@ -0,0 +1,5 @@
+-- Archived forms are hidden from the main Dashboard list but keep their
+-- questions and responses. Archiving is separate from is_active: the app also
+-- deactivates a form when archiving it, and unarchiving leaves it inactive.
+ALTER TABLE public.forms
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
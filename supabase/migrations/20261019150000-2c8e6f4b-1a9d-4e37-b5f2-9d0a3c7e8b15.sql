@@ -0,0 +1,77 @@
+-- Optional availability window and response cap for forms
+ALTER TABLE public.forms
+  ADD COLUMN opens_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN closes_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN max_responses INTEGER,
+  ADD CONSTRAINT forms_schedule_check CHECK (opens_at IS NULL OR closes_at IS NULL OR closes_at > opens_at),
+  ADD CONSTRAINT forms_max_responses_check CHECK (max_responses IS NULL OR max_responses > 0);
+
+-- The public form page needs to read active forms (title, description, schedule)
+CREATE POLICY "Public can view active forms"
+ON public.forms
+FOR SELECT
+USING (is_active = true);
+
+-- Whether a form currently accepts responses. Returns one of
+-- 'open', 'not_found', 'inactive', 'not_yet_open', 'closed' or 'full'.
+-- SECURITY DEFINER so anonymous respondents can learn that a form is full
+-- without being able to read its responses.
+CREATE OR REPLACE FUNCTION public.get_form_availability(_form_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  form RECORD;
+BEGIN
+  SELECT is_active, opens_at, closes_at, max_responses
+  INTO form
+  FROM public.forms
+  WHERE id = _form_id;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  ELSIF NOT form.is_active THEN
+    RETURN 'inactive';
+  ELSIF form.opens_at IS NOT NULL AND now() < form.opens_at THEN
+    RETURN 'not_yet_open';
+  ELSIF form.closes_at IS NOT NULL AND now() >= form.closes_at THEN
+    RETURN 'closed';
+  ELSIF form.max_responses IS NOT NULL AND (
+    SELECT count(*) FROM public.form_responses WHERE form_id = _form_id
+  ) >= form.max_responses THEN
+    RETURN 'full';
+  END IF;
+
+  RETURN 'open';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_form_availability(UUID) TO anon, authenticated;
+
+-- Enforced at insert time so a page loaded while the form was open cannot
+-- submit after it closes or fills up. Locking the form row serialises
+-- concurrent submissions so max_responses cannot be exceeded.
+CREATE OR REPLACE FUNCTION public.enforce_form_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  availability TEXT;
+BEGIN
+  PERFORM 1 FROM public.forms WHERE id = NEW.form_id FOR UPDATE;
+  availability := public.get_form_availability(NEW.form_id);
+
+  IF availability = 'not_yet_open' THEN
+    RAISE EXCEPTION 'This form is not open for responses yet' USING ERRCODE = 'check_violation';
+  ELSIF availability = 'closed' THEN
+    RAISE EXCEPTION 'This form is closed and no longer accepting responses' USING ERRCODE = 'check_violation';
+  ELSIF availability = 'full' THEN
+    RAISE EXCEPTION 'This form has reached its maximum number of responses' USING ERRCODE = 'check_violation';
+  ELSIF availability <> 'open' THEN
+    RAISE EXCEPTION 'This form is no longer accepting responses' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_form_availability
+  BEFORE INSERT ON public.form_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_form_availability();
@@ -0,0 +1,85 @@
+-- Server-side filtering, search, sorting and pagination for the responses
+-- view. Runs with the caller's permissions, so RLS limits it to responses to
+-- the caller's own forms.
+--
+-- _filters is a JSON array of conditions in the same shape as visibility rule
+-- conditions ({question_id, operator, value}); a response must match all of
+-- them. _search is full-text searched across all of a response's answers.
+-- Responses are sorted by the answer to _sort_question (numerically when both
+-- answers are numbers) or, when it is null, by submission time. Every row
+-- carries the total number of matching responses for the pager.
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_form_submitted
+  ON public.form_responses (form_id, submitted_at DESC);
+
+CREATE OR REPLACE FUNCTION public.search_form_responses(
+  _form_id UUID,
+  _search TEXT DEFAULT NULL,
+  _submitted_from TIMESTAMPTZ DEFAULT NULL,
+  _submitted_to TIMESTAMPTZ DEFAULT NULL,
+  _filters JSONB DEFAULT '[]'::jsonb,
+  _sort_question UUID DEFAULT NULL,
+  _sort_desc BOOLEAN DEFAULT true,
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (id UUID, submitted_at TIMESTAMPTZ, answers JSONB, total_count BIGINT) AS $$
+  WITH question_types AS (
+    SELECT COALESCE(jsonb_object_agg(q.id::text, q.question_type), '{}'::jsonb) AS types
+    FROM public.form_questions q
+    WHERE q.form_id = _form_id
+  ),
+  responses AS (
+    SELECT
+      r.id,
+      r.submitted_at,
+      COALESCE(
+        jsonb_object_agg(qr.question_id::text, qr.answer_text) FILTER (WHERE qr.id IS NOT NULL),
+        '{}'::jsonb
+      ) AS answers,
+      COALESCE(string_agg(qr.answer_text, ' '), '') AS document
+    FROM public.form_responses r
+    LEFT JOIN public.question_responses qr ON qr.form_response_id = r.id
+    WHERE r.form_id = _form_id
+      AND (_submitted_from IS NULL OR r.submitted_at >= _submitted_from)
+      AND (_submitted_to IS NULL OR r.submitted_at < _submitted_to)
+    GROUP BY r.id, r.submitted_at
+  ),
+  matching AS (
+    SELECT
+      r.id,
+      r.submitted_at,
+      r.answers,
+      r.answers ->> _sort_question::text AS sort_text
+    FROM responses r
+    CROSS JOIN question_types t
+    WHERE (
+        NULLIF(btrim(_search), '') IS NULL
+        OR to_tsvector('simple', r.document) @@ websearch_to_tsquery('simple', _search)
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(_filters, '[]'::jsonb)) AS f(condition)
+        WHERE NOT public.evaluate_condition(f.condition, r.answers, t.types)
+      )
+  ),
+  sortable AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sort_text ~ '^-?\d+(\.\d+)?$' THEN m.sort_text::numeric END AS sort_number
+    FROM matching m
+  )
+  SELECT s.id, s.submitted_at, s.answers, count(*) OVER () AS total_count
+  FROM sortable s
+  ORDER BY
+    CASE WHEN _sort_desc THEN s.sort_number END DESC NULLS LAST,
+    CASE WHEN NOT _sort_desc THEN s.sort_number END ASC NULLS LAST,
+    CASE WHEN _sort_desc THEN lower(s.sort_text) END DESC NULLS LAST,
+    CASE WHEN NOT _sort_desc THEN lower(s.sort_text) END ASC NULLS LAST,
+    CASE WHEN _sort_desc THEN s.submitted_at END DESC,
+    CASE WHEN NOT _sort_desc THEN s.submitted_at END ASC,
+    s.id
+  LIMIT _limit OFFSET _offset;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_form_responses(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,143 @@
+-- Review workflow for individual responses: a status tag and internal notes,
+-- and letting form creators delete responses (e.g. spam).
+
+ALTER TABLE public.form_responses
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'reviewed', 'actioned')),
+  ADD COLUMN notes TEXT;
+
+CREATE POLICY "Users can update responses to their forms"
+ON public.form_responses
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.forms
+  WHERE forms.id = form_responses.form_id
+  AND forms.creator_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete responses to their forms"
+ON public.form_responses
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.forms
+  WHERE forms.id = form_responses.form_id
+  AND forms.creator_id = auth.uid()
+));
+
+-- Creators may only change the review fields, never the submission itself
+REVOKE UPDATE ON public.form_responses FROM anon, authenticated;
+GRANT UPDATE (status, notes) ON public.form_responses TO authenticated;
+
+-- search_form_responses gains a status filter and returns the status, which
+-- changes its signature
+DROP FUNCTION public.search_form_responses(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_form_responses(
+  _form_id UUID,
+  _search TEXT DEFAULT NULL,
+  _submitted_from TIMESTAMPTZ DEFAULT NULL,
+  _submitted_to TIMESTAMPTZ DEFAULT NULL,
+  _filters JSONB DEFAULT '[]'::jsonb,
+  _sort_question UUID DEFAULT NULL,
+  _sort_desc BOOLEAN DEFAULT true,
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _status TEXT DEFAULT NULL
+)
+RETURNS TABLE (id UUID, submitted_at TIMESTAMPTZ, status TEXT, answers JSONB, total_count BIGINT) AS $$
+  WITH question_types AS (
+    SELECT COALESCE(jsonb_object_agg(q.id::text, q.question_type), '{}'::jsonb) AS types
+    FROM public.form_questions q
+    WHERE q.form_id = _form_id
+  ),
+  responses AS (
+    SELECT
+      r.id,
+      r.submitted_at,
+      r.status,
+      COALESCE(
+        jsonb_object_agg(qr.question_id::text, qr.answer_text) FILTER (WHERE qr.id IS NOT NULL),
+        '{}'::jsonb
+      ) AS answers,
+      COALESCE(string_agg(qr.answer_text, ' '), '') AS document
+    FROM public.form_responses r
+    LEFT JOIN public.question_responses qr ON qr.form_response_id = r.id
+    WHERE r.form_id = _form_id
+      AND (_submitted_from IS NULL OR r.submitted_at >= _submitted_from)
+      AND (_submitted_to IS NULL OR r.submitted_at < _submitted_to)
+      AND (_status IS NULL OR r.status = _status)
+    GROUP BY r.id, r.submitted_at, r.status
+  ),
+  matching AS (
+    SELECT
+      r.id,
+      r.submitted_at,
+      r.status,
+      r.answers,
+      r.answers ->> _sort_question::text AS sort_text
+    FROM responses r
+    CROSS JOIN question_types t
+    WHERE (
+        NULLIF(btrim(_search), '') IS NULL
+        OR to_tsvector('simple', r.document) @@ websearch_to_tsquery('simple', _search)
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(_filters, '[]'::jsonb)) AS f(condition)
+        WHERE NOT public.evaluate_condition(f.condition, r.answers, t.types)
+      )
+  ),
+  sortable AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sort_text ~ '^-?\d+(\.\d+)?$' THEN m.sort_text::numeric END AS sort_number
+    FROM matching m
+  )
+  SELECT s.id, s.submitted_at, s.status, s.answers, count(*) OVER () AS total_count
+  FROM sortable s
+  ORDER BY
+    CASE WHEN _sort_desc THEN s.sort_number END DESC NULLS LAST,
+    CASE WHEN NOT _sort_desc THEN s.sort_number END ASC NULLS LAST,
+    CASE WHEN _sort_desc THEN lower(s.sort_text) END DESC NULLS LAST,
+    CASE WHEN NOT _sort_desc THEN lower(s.sort_text) END ASC NULLS LAST,
+    CASE WHEN _sort_desc THEN s.submitted_at END DESC,
+    CASE WHEN NOT _sort_desc THEN s.submitted_at END ASC,
+    s.id
+  LIMIT _limit OFFSET _offset;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_form_responses(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, INTEGER, INTEGER, TEXT) TO authenticated;
+
+-- Position of one response within a search_form_responses result, with the
+-- responses either side of it, for prev/next navigation on the detail page.
+-- Returns no row when the response does not match the given filters.
+CREATE OR REPLACE FUNCTION public.get_response_neighbors(
+  _response_id UUID,
+  _form_id UUID,
+  _search TEXT DEFAULT NULL,
+  _submitted_from TIMESTAMPTZ DEFAULT NULL,
+  _submitted_to TIMESTAMPTZ DEFAULT NULL,
+  _filters JSONB DEFAULT '[]'::jsonb,
+  _sort_question UUID DEFAULT NULL,
+  _sort_desc BOOLEAN DEFAULT true,
+  _status TEXT DEFAULT NULL
+)
+RETURNS TABLE (previous_id UUID, next_id UUID, position BIGINT, total_count BIGINT) AS $$
+  SELECT n.previous_id, n.next_id, n.position, n.total_count
+  FROM (
+    SELECT
+      s.id,
+      lag(s.id) OVER w AS previous_id,
+      lead(s.id) OVER w AS next_id,
+      row_number() OVER w AS position,
+      s.total_count
+    FROM public.search_form_responses(
+      _form_id, _search, _submitted_from, _submitted_to, _filters,
+      _sort_question, _sort_desc, NULL, 0, _status
+    ) WITH ORDINALITY AS s(id, submitted_at, status, answers, total_count, ordinality)
+    WINDOW w AS (ORDER BY s.ordinality)
+  ) n
+  WHERE n.id = _response_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_response_neighbors(UUID, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,4 @@
+-- Broadcast new responses through Supabase Realtime so the Dashboard and the
+-- responses view update live. Realtime applies the table's RLS policies, so
+-- creators only receive responses to their own forms.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.form_responses;
@@ -0,0 +1,56 @@
+-- Everything the Dashboard shows about the caller's forms in one round trip,
+-- replacing a response count query per form. daily_counts holds the number of
+-- responses on each of the last 7 days (UTC), oldest first, ending today.
+
+CREATE OR REPLACE FUNCTION public.get_form_overview()
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  is_active BOOLEAN,
+  archived_at TIMESTAMPTZ,
+  opens_at TIMESTAMPTZ,
+  closes_at TIMESTAMPTZ,
+  max_responses INTEGER,
+  created_at TIMESTAMPTZ,
+  response_count BIGINT,
+  last_response_at TIMESTAMPTZ,
+  daily_counts INTEGER[]
+) AS $$
+  SELECT
+    f.id,
+    f.title,
+    f.description,
+    f.is_active,
+    f.archived_at,
+    f.opens_at,
+    f.closes_at,
+    f.max_responses,
+    f.created_at,
+    COALESCE(totals.response_count, 0),
+    totals.last_response_at,
+    ARRAY(
+      SELECT count(r.id)::integer
+      FROM generate_series(
+        ((now() AT TIME ZONE 'UTC')::date - 6)::timestamp,
+        (now() AT TIME ZONE 'UTC')::date::timestamp,
+        interval '1 day'
+      ) AS d(day)
+      LEFT JOIN public.form_responses r
+        ON r.form_id = f.id
+        AND r.submitted_at >= d.day AT TIME ZONE 'UTC'
+        AND r.submitted_at < (d.day + interval '1 day') AT TIME ZONE 'UTC'
+      GROUP BY d.day
+      ORDER BY d.day
+    )
+  FROM public.forms f
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS response_count, max(r.submitted_at) AS last_response_at
+    FROM public.form_responses r
+    WHERE r.form_id = f.id
+  ) totals ON true
+  WHERE f.creator_id = auth.uid()
+  ORDER BY f.created_at DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_form_overview() TO authenticated;
@@ -0,0 +1,46 @@
+-- Per-form branding: colors, font, light/dark mode, images and button labels.
+-- NULL means the default look; see src/lib/formTheme.ts for the shape.
+
+ALTER TABLE public.forms
+  ADD COLUMN theme JSONB
+    CHECK (theme IS NULL OR jsonb_typeof(theme) = 'object');
+
+-- Logos, header and background images. Public forms are viewed without
+-- signing in, so the bucket is publicly readable; each user writes only to
+-- the folder named after their user id.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'form-assets',
+  'form-assets',
+  true,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own form assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'form-assets'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can update their own form assets"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'form-assets'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own form assets"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'form-assets'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
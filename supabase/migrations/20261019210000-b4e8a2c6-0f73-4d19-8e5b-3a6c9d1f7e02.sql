@@ -0,0 +1,17 @@
+-- Per-form confirmation shown after a response is submitted: a message, an
+-- optional redirect and whether to offer another response or a copy of the
+-- answers. NULL means the default thank-you message; see
+-- src/lib/confirmation.ts for the shape.
+
+ALTER TABLE public.forms
+  ADD COLUMN confirmation JSONB
+    CHECK (
+      confirmation IS NULL
+      OR (
+        jsonb_typeof(confirmation) = 'object'
+        AND (
+          confirmation->>'redirect_url' IS NULL
+          OR confirmation->>'redirect_url' ~* '^https?://'
+        )
+      )
+    );
@@ -0,0 +1,120 @@
+-- "Save and continue later" for respondents. When a form sets
+-- draft_expiry_days, respondents can store their unfinished answers on the
+-- server and get back a secret resume token for a link. A draft expires
+-- draft_expiry_days after it was last saved. NULL turns the feature off.
+
+ALTER TABLE public.forms
+  ADD COLUMN draft_expiry_days INTEGER
+    CONSTRAINT forms_draft_expiry_days_check CHECK (draft_expiry_days BETWEEN 1 AND 365);
+
+-- Only a hash of the token is stored, so the table can't be used to resume
+-- someone else's draft. Respondents reach it through the functions below; RLS
+-- is enabled without policies so nobody can read it directly.
+CREATE TABLE public.form_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(answers) = 'object'),
+  current_page INTEGER NOT NULL DEFAULT 0 CHECK (current_page >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.form_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_form_drafts_expires_at ON public.form_drafts(expires_at);
+
+CREATE OR REPLACE FUNCTION public.hash_draft_token(_token TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(_token, 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Creates a draft, or updates the one _token refers to if it is still valid,
+-- and pushes its expiry back. Returns { "token": text, "expires_at": timestamptz };
+-- the token is only ever returned here and must be kept by the respondent.
+CREATE OR REPLACE FUNCTION public.save_form_draft(
+  _form_id UUID,
+  _answers JSONB,
+  _current_page INTEGER DEFAULT 0,
+  _token TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  expiry_days INTEGER;
+  token TEXT := _token;
+  draft_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF public.get_form_availability(_form_id) <> 'open' THEN
+    RAISE EXCEPTION 'This form is no longer accepting responses' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT draft_expiry_days INTO expiry_days FROM public.forms WHERE id = _form_id;
+  IF expiry_days IS NULL THEN
+    RAISE EXCEPTION 'This form does not allow saving a response for later' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _answers IS NULL OR jsonb_typeof(_answers) <> 'object' THEN
+    RAISE EXCEPTION 'Invalid draft' USING ERRCODE = 'check_violation';
+  ELSIF octet_length(_answers::text) > 100000 THEN
+    RAISE EXCEPTION 'This draft is too large to save' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Expired drafts are removed whenever anyone saves one
+  DELETE FROM public.form_drafts WHERE expires_at <= now();
+
+  draft_expires_at := now() + make_interval(days => expiry_days);
+
+  IF token IS NOT NULL THEN
+    UPDATE public.form_drafts
+    SET answers = _answers,
+        current_page = GREATEST(COALESCE(_current_page, 0), 0),
+        updated_at = now(),
+        expires_at = draft_expires_at
+    WHERE form_id = _form_id
+      AND token_hash = public.hash_draft_token(token);
+
+    IF FOUND THEN
+      RETURN jsonb_build_object('token', token, 'expires_at', draft_expires_at);
+    END IF;
+  END IF;
+
+  -- Two random UUIDs give a 244-bit token
+  token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO public.form_drafts (form_id, token_hash, answers, current_page, expires_at)
+  VALUES (
+    _form_id,
+    public.hash_draft_token(token),
+    _answers,
+    GREATEST(COALESCE(_current_page, 0), 0),
+    draft_expires_at
+  );
+
+  RETURN jsonb_build_object('token', token, 'expires_at', draft_expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_form_draft(UUID, JSONB, INTEGER, TEXT) TO anon, authenticated;
+
+-- The draft _token refers to, or no rows if it does not exist or has expired
+CREATE OR REPLACE FUNCTION public.get_form_draft(_form_id UUID, _token TEXT)
+RETURNS TABLE (answers JSONB, current_page INTEGER, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT d.answers, d.current_page, d.expires_at
+  FROM public.form_drafts d
+  WHERE d.form_id = _form_id
+    AND d.token_hash = public.hash_draft_token(_token)
+    AND d.expires_at > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_form_draft(UUID, TEXT) TO anon, authenticated;
+
+-- Called once the response has been submitted so the link stops working
+CREATE OR REPLACE FUNCTION public.delete_form_draft(_form_id UUID, _token TEXT)
+RETURNS VOID AS $$
+  DELETE FROM public.form_drafts
+  WHERE form_id = _form_id
+    AND token_hash = public.hash_draft_token(_token);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_form_draft(UUID, TEXT) TO anon, authenticated;
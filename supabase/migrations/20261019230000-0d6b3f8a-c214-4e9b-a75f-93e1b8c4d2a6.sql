@@ -0,0 +1,331 @@
+-- File upload questions. Respondents upload files to the private
+-- `response-files` bucket before submitting, under
+-- <form id>/<response id>/<question id>/<random name>, where the response id is
+-- generated by the browser and passed to submit_form_response. The answer is a
+-- JSON array of the uploaded files, e.g.
+--   [{"path": "<form>/<response>/<question>/<uuid>.png", "name": "receipt.png", "size": 48213, "type": "image/png"}]
+-- Per-question limits live in form_questions.file_limits; see
+-- src/lib/fileUploads.ts for the shape.
+
+ALTER TABLE public.form_questions
+  DROP CONSTRAINT IF EXISTS form_questions_question_type_check;
+
+ALTER TABLE public.form_questions
+  ADD CONSTRAINT form_questions_question_type_check
+  CHECK (question_type IN (
+    'text',
+    'short_text',
+    'multiple_choice',
+    'checkboxes',
+    'dropdown',
+    'number',
+    'email',
+    'url',
+    'phone',
+    'date',
+    'time',
+    'linear_scale',
+    'rating',
+    'nps',
+    'yes_no',
+    'file_upload',
+    'section'
+  ));
+
+ALTER TABLE public.form_questions
+  ADD COLUMN file_limits JSONB
+    CHECK (file_limits IS NULL OR jsonb_typeof(file_limits) = 'object');
+
+-- Private: files are only ever served to the form's creator through signed URLs.
+-- The bucket limit is the largest a question may allow.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('response-files', 'response-files', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+-- Whether `_name` is a file of a response that is still being filled in: the
+-- folders name an open form, one of its file upload questions, and a response
+-- that has not been submitted yet. Respondents can add and remove files there
+-- without signing in; once the response is submitted its files are read-only.
+CREATE OR REPLACE FUNCTION public.is_pending_response_file(_name TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  folders TEXT[] := storage.foldername(_name);
+  uuid_pattern CONSTANT TEXT := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+BEGIN
+  IF array_length(folders, 1) IS DISTINCT FROM 3
+    OR folders[1] !~ uuid_pattern
+    OR folders[2] !~ uuid_pattern
+    OR folders[3] !~ uuid_pattern
+  THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.get_form_availability(folders[1]::uuid) = 'open'
+    AND EXISTS (
+      SELECT 1 FROM public.form_questions
+      WHERE id = folders[3]::uuid
+        AND form_id = folders[1]::uuid
+        AND question_type = 'file_upload'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.form_responses WHERE id = folders[2]::uuid
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Respondents can upload files to responses in progress"
+ON storage.objects
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+  bucket_id = 'response-files'
+  AND public.is_pending_response_file(name)
+);
+
+CREATE POLICY "Respondents can view files of responses in progress"
+ON storage.objects
+FOR SELECT
+TO anon, authenticated
+USING (
+  bucket_id = 'response-files'
+  AND public.is_pending_response_file(name)
+);
+
+CREATE POLICY "Respondents can remove files from responses in progress"
+ON storage.objects
+FOR DELETE
+TO anon, authenticated
+USING (
+  bucket_id = 'response-files'
+  AND public.is_pending_response_file(name)
+);
+
+CREATE POLICY "Users can view files uploaded to their forms"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'response-files'
+  AND EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE id::text = (storage.foldername(name))[1]
+      AND creator_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete files uploaded to their forms"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'response-files'
+  AND EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE id::text = (storage.foldername(name))[1]
+      AND creator_id = auth.uid()
+  )
+);
+
+-- Checks a file upload answer against what was actually uploaded and the
+-- question's limits. Returns an error message, or NULL when it is acceptable.
+-- Keep the messages in sync with src/lib/fileUploads.ts.
+CREATE OR REPLACE FUNCTION public.validate_file_answer(
+  _form_id UUID,
+  _response_id UUID,
+  _question_id UUID,
+  _limits JSONB,
+  _answer TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  files JSONB;
+  file JSONB;
+  folder TEXT := _form_id::text || '/' || _response_id::text || '/' || _question_id::text || '/';
+  max_files INTEGER := COALESCE((_limits ->> 'max_files')::integer, 1);
+  max_size_mb NUMERIC := COALESCE((_limits ->> 'max_size_mb')::numeric, 10);
+  allowed_types JSONB := COALESCE(_limits -> 'allowed_types', '[]'::jsonb);
+  stored RECORD;
+BEGIN
+  BEGIN
+    files := _answer::jsonb;
+  EXCEPTION WHEN others THEN
+    RETURN 'Please upload your files again';
+  END;
+
+  IF jsonb_typeof(files) <> 'array' OR _response_id IS NULL THEN
+    RETURN 'Please upload your files again';
+  ELSIF jsonb_array_length(files) > max_files THEN
+    RETURN format('Please upload at most %s file%s', max_files, CASE WHEN max_files = 1 THEN '' ELSE 's' END);
+  END IF;
+
+  FOR file IN SELECT value FROM jsonb_array_elements(files) LOOP
+    IF jsonb_typeof(file) <> 'object'
+      OR file ->> 'path' IS NULL
+      OR left(file ->> 'path', length(folder)) <> folder
+      OR position('/' IN substr(file ->> 'path', length(folder) + 1)) > 0
+    THEN
+      RETURN 'Please upload your files again';
+    END IF;
+
+    SELECT metadata INTO stored
+    FROM storage.objects
+    WHERE bucket_id = 'response-files'
+      AND name = file ->> 'path';
+
+    IF NOT FOUND THEN
+      RETURN 'An uploaded file is missing, please upload it again';
+    ELSIF COALESCE((stored.metadata ->> 'size')::bigint, 0) > max_size_mb * 1024 * 1024 THEN
+      RETURN format('Files must be %s MB or smaller', max_size_mb);
+    ELSIF jsonb_array_length(allowed_types) > 0 AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(allowed_types) AS t(pattern)
+      WHERE stored.metadata ->> 'mimetype' = t.pattern
+        OR (t.pattern LIKE '%/*' AND stored.metadata ->> 'mimetype' LIKE left(t.pattern, -1) || '%')
+    ) THEN
+      RETURN 'This type of file is not allowed';
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as before, plus _response_id: the id the browser generated for the
+-- response and uploaded its files under. File upload answers are checked with
+-- validate_file_answer instead of validate_answer.
+DROP FUNCTION public.submit_form_response(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.submit_form_response(
+  _form_id UUID,
+  _answers JSONB,
+  _response_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB := '[]'::jsonb;
+  question_types JSONB;
+  new_response_id UUID;
+  q RECORD;
+  answer TEXT;
+  is_visible BOOLEAN;
+  section_visible BOOLEAN := true;
+  message TEXT;
+BEGIN
+  IF jsonb_typeof(answers) <> 'object' THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forms WHERE id = _form_id AND is_active = true) THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This form is no longer accepting responses'
+      ))
+    );
+  END IF;
+
+  -- Every answer must belong to an answerable question of this form
+  SELECT errors || COALESCE(jsonb_agg(jsonb_build_object(
+    'question_id', NULL,
+    'message', 'Answer submitted for a question that is not part of this form'
+  )), '[]'::jsonb)
+  INTO errors
+  FROM jsonb_object_keys(answers) AS k(key)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.form_questions fq
+    WHERE fq.form_id = _form_id
+      AND fq.id::text = k.key
+      AND fq.question_type <> 'section'
+  );
+
+  SELECT COALESCE(jsonb_object_agg(id, form_questions.question_type), '{}'::jsonb)
+  INTO question_types
+  FROM public.form_questions
+  WHERE form_id = _form_id;
+
+  FOR q IN
+    SELECT * FROM public.form_questions
+    WHERE form_id = _form_id
+    ORDER BY order_index
+  LOOP
+    IF q.question_type = 'section' THEN
+      section_visible := public.evaluate_visibility(q.visibility, answers, question_types);
+      CONTINUE;
+    END IF;
+
+    answer := btrim(answers ->> q.id::text);
+    is_visible := section_visible AND public.evaluate_visibility(q.visibility, answers, question_types);
+
+    IF answer IS NULL OR answer = '' OR (q.question_type IN ('checkboxes', 'file_upload') AND answer = '[]') THEN
+      IF is_visible AND q.is_required THEN
+        errors := errors || jsonb_build_object('question_id', q.id, 'message', 'This question is required');
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF NOT is_visible THEN
+      errors := errors || jsonb_build_object(
+        'question_id', q.id,
+        'message', 'This question is hidden by its display logic and cannot be answered'
+      );
+      CONTINUE;
+    END IF;
+
+    IF q.question_type = 'file_upload' THEN
+      message := public.validate_file_answer(_form_id, _response_id, q.id, q.file_limits, answer);
+    ELSE
+      message := public.validate_answer(q.question_type, q.options, answer);
+    END IF;
+    IF message IS NOT NULL THEN
+      errors := errors || jsonb_build_object('question_id', q.id, 'message', message);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'errors', errors);
+  END IF;
+
+  INSERT INTO public.form_responses (id, form_id)
+  VALUES (COALESCE(_response_id, gen_random_uuid()), _form_id)
+  RETURNING id INTO new_response_id;
+
+  INSERT INTO public.question_responses (form_response_id, question_id, answer_text)
+  SELECT new_response_id, fq.id, btrim(answers ->> fq.id::text)
+  FROM public.form_questions fq
+  WHERE fq.form_id = _form_id
+    AND fq.question_type <> 'section'
+    AND COALESCE(btrim(answers ->> fq.id::text), '') NOT IN ('', '[]');
+
+  RETURN jsonb_build_object('response_id', new_response_id, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_form_response(UUID, JSONB, UUID) TO anon, authenticated;
+
+-- Paths of the files uploaded to one of the caller's forms, or to one of its
+-- responses, so they can be removed from Storage when the response or form is
+-- deleted. Storage objects can only be deleted through the Storage API, not by
+-- cascading deletes. Includes files of responses that were never submitted.
+CREATE OR REPLACE FUNCTION public.list_response_files(_form_id UUID, _response_id UUID DEFAULT NULL)
+RETURNS SETOF TEXT AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE id = _form_id AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'response-files'
+    AND o.name LIKE _form_id::text || '/' || COALESCE(_response_id::text || '/', '') || '%';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.list_response_files(UUID, UUID) TO authenticated;
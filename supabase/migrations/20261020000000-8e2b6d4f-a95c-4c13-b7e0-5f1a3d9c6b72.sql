@@ -0,0 +1,372 @@
+-- Spam and abuse protection for public submissions:
+--
+-- - submit_form_response records the respondent's IP address and user agent,
+--   taken from the request headers, and limits how many responses one IP
+--   address can submit to a form in an hour.
+-- - Responses that fill in the public form's hidden honeypot field, or that
+--   are submitted faster than a person could fill in the form, are accepted
+--   but flagged as suspected spam for the form's creator to review.
+-- - Forms can require a CAPTCHA. The verify-captcha Edge Function checks the
+--   respondent's CAPTCHA token with the configured provider and hands out a
+--   one-time pass, which submit_form_response consumes.
+
+ALTER TABLE public.form_responses
+  ADD COLUMN user_agent TEXT,
+  ADD COLUMN is_spam BOOLEAN NOT NULL DEFAULT false,
+  -- Why the response was flagged when it was submitted, see submit_form_response
+  ADD COLUMN spam_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_form_responses_form_ip ON public.form_responses(form_id, ip_address, submitted_at);
+
+-- Creators can also mark responses as spam or not spam
+GRANT UPDATE (is_spam) ON public.form_responses TO authenticated;
+
+ALTER TABLE public.forms
+  ADD COLUMN captcha_required BOOLEAN NOT NULL DEFAULT false;
+
+-- One-time passes for forms that require a CAPTCHA, issued by the
+-- verify-captcha Edge Function after it has checked the respondent's token.
+-- Like form_drafts, only a hash of the pass is stored and RLS is enabled
+-- without policies.
+CREATE TABLE public.captcha_passes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '10 minutes'
+);
+
+ALTER TABLE public.captcha_passes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_captcha_passes_expires_at ON public.captcha_passes(expires_at);
+
+-- Returns a new pass for _form_id. Only the Edge Function may call this, with
+-- the service role key, once the CAPTCHA token has been verified.
+CREATE OR REPLACE FUNCTION public.issue_captcha_pass(_form_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  -- Hashed the same way as draft tokens
+  token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  DELETE FROM public.captcha_passes WHERE expires_at <= now();
+
+  INSERT INTO public.captcha_passes (form_id, token_hash)
+  VALUES (_form_id, public.hash_draft_token(token));
+
+  RETURN token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.issue_captcha_pass(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_captcha_pass(UUID) TO service_role;
+
+-- The client's IP address, from the headers PostgREST passes on for the
+-- current request. The first address in X-Forwarded-For is the client's; the
+-- rest are proxies. NULL outside of an API request or when it can't be parsed.
+CREATE OR REPLACE FUNCTION public.get_request_ip()
+RETURNS INET AS $$
+DECLARE
+  headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+BEGIN
+  RETURN btrim(split_part(COALESCE(headers ->> 'x-forwarded-for', headers ->> 'x-real-ip'), ',', 1))::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_request_user_agent()
+RETURNS TEXT AS $$
+  SELECT left(NULLIF(current_setting('request.headers', true), '')::json ->> 'user-agent', 512);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Same as before, plus:
+-- - _honeypot: the value of the public form's hidden honeypot field, which
+--   people never see and so leave empty
+-- - _fill_seconds: how long the respondent spent on the form; responses
+--   without it, or faster than 3 seconds, are flagged
+-- - _captcha_token: a pass from the verify-captcha Edge Function, for forms
+--   that require a CAPTCHA. It is only consumed once the answers are valid.
+-- An IP address can submit at most 10 responses to a form per hour.
+DROP FUNCTION public.submit_form_response(UUID, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.submit_form_response(
+  _form_id UUID,
+  _answers JSONB,
+  _response_id UUID DEFAULT NULL,
+  _honeypot TEXT DEFAULT NULL,
+  _fill_seconds NUMERIC DEFAULT NULL,
+  _captcha_token TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB := '[]'::jsonb;
+  question_types JSONB;
+  new_response_id UUID;
+  q RECORD;
+  answer TEXT;
+  is_visible BOOLEAN;
+  section_visible BOOLEAN := true;
+  message TEXT;
+  client_ip INET := public.get_request_ip();
+  spam_reasons TEXT[] := '{}';
+  rate_limit CONSTANT INTEGER := 10;
+  min_fill_seconds CONSTANT NUMERIC := 3;
+BEGIN
+  IF jsonb_typeof(answers) <> 'object' THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forms WHERE id = _form_id AND is_active = true) THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This form is no longer accepting responses'
+      ))
+    );
+  END IF;
+
+  IF client_ip IS NOT NULL AND (
+    SELECT count(*) FROM public.form_responses
+    WHERE form_id = _form_id
+      AND ip_address = client_ip
+      AND submitted_at > now() - interval '1 hour'
+  ) >= rate_limit THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'Too many responses have been submitted from your network. Please try again later.'
+      ))
+    );
+  END IF;
+
+  -- Every answer must belong to an answerable question of this form
+  SELECT errors || COALESCE(jsonb_agg(jsonb_build_object(
+    'question_id', NULL,
+    'message', 'Answer submitted for a question that is not part of this form'
+  )), '[]'::jsonb)
+  INTO errors
+  FROM jsonb_object_keys(answers) AS k(key)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.form_questions fq
+    WHERE fq.form_id = _form_id
+      AND fq.id::text = k.key
+      AND fq.question_type <> 'section'
+  );
+
+  SELECT COALESCE(jsonb_object_agg(id, form_questions.question_type), '{}'::jsonb)
+  INTO question_types
+  FROM public.form_questions
+  WHERE form_id = _form_id;
+
+  FOR q IN
+    SELECT * FROM public.form_questions
+    WHERE form_id = _form_id
+    ORDER BY order_index
+  LOOP
+    IF q.question_type = 'section' THEN
+      section_visible := public.evaluate_visibility(q.visibility, answers, question_types);
+      CONTINUE;
+    END IF;
+
+    answer := btrim(answers ->> q.id::text);
+    is_visible := section_visible AND public.evaluate_visibility(q.visibility, answers, question_types);
+
+    IF answer IS NULL OR answer = '' OR (q.question_type IN ('checkboxes', 'file_upload') AND answer = '[]') THEN
+      IF is_visible AND q.is_required THEN
+        errors := errors || jsonb_build_object('question_id', q.id, 'message', 'This question is required');
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF NOT is_visible THEN
+      errors := errors || jsonb_build_object(
+        'question_id', q.id,
+        'message', 'This question is hidden by its display logic and cannot be answered'
+      );
+      CONTINUE;
+    END IF;
+
+    IF q.question_type = 'file_upload' THEN
+      message := public.validate_file_answer(_form_id, _response_id, q.id, q.file_limits, answer);
+    ELSE
+      message := public.validate_answer(q.question_type, q.options, answer);
+    END IF;
+    IF message IS NOT NULL THEN
+      errors := errors || jsonb_build_object('question_id', q.id, 'message', message);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'errors', errors);
+  END IF;
+
+  IF (SELECT captcha_required FROM public.forms WHERE id = _form_id) THEN
+    DELETE FROM public.captcha_passes
+    WHERE form_id = _form_id
+      AND token_hash = public.hash_draft_token(COALESCE(_captcha_token, ''))
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'Please complete the CAPTCHA again'
+        ))
+      );
+    END IF;
+  END IF;
+
+  IF COALESCE(_honeypot, '') <> '' THEN
+    spam_reasons := spam_reasons || 'honeypot';
+  END IF;
+  IF _fill_seconds IS NULL OR _fill_seconds < min_fill_seconds THEN
+    spam_reasons := spam_reasons || 'too_fast';
+  END IF;
+
+  INSERT INTO public.form_responses (id, form_id, ip_address, user_agent, is_spam, spam_reasons)
+  VALUES (
+    COALESCE(_response_id, gen_random_uuid()),
+    _form_id,
+    client_ip,
+    public.get_request_user_agent(),
+    cardinality(spam_reasons) > 0,
+    spam_reasons
+  )
+  RETURNING id INTO new_response_id;
+
+  INSERT INTO public.question_responses (form_response_id, question_id, answer_text)
+  SELECT new_response_id, fq.id, btrim(answers ->> fq.id::text)
+  FROM public.form_questions fq
+  WHERE fq.form_id = _form_id
+    AND fq.question_type <> 'section'
+    AND COALESCE(btrim(answers ->> fq.id::text), '') NOT IN ('', '[]');
+
+  RETURN jsonb_build_object('response_id', new_response_id, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_form_response(UUID, JSONB, UUID, TEXT, NUMERIC, TEXT) TO anon, authenticated;
+
+-- search_form_responses gains a spam filter ('hide' or 'only') and returns
+-- is_spam, which changes its signature
+DROP FUNCTION public.get_response_neighbors(UUID, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, TEXT);
+DROP FUNCTION public.search_form_responses(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, INTEGER, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_form_responses(
+  _form_id UUID,
+  _search TEXT DEFAULT NULL,
+  _submitted_from TIMESTAMPTZ DEFAULT NULL,
+  _submitted_to TIMESTAMPTZ DEFAULT NULL,
+  _filters JSONB DEFAULT '[]'::jsonb,
+  _sort_question UUID DEFAULT NULL,
+  _sort_desc BOOLEAN DEFAULT true,
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _status TEXT DEFAULT NULL,
+  _spam TEXT DEFAULT NULL
+)
+RETURNS TABLE (id UUID, submitted_at TIMESTAMPTZ, status TEXT, is_spam BOOLEAN, answers JSONB, total_count BIGINT) AS $$
+  WITH question_types AS (
+    SELECT COALESCE(jsonb_object_agg(q.id::text, q.question_type), '{}'::jsonb) AS types
+    FROM public.form_questions q
+    WHERE q.form_id = _form_id
+  ),
+  responses AS (
+    SELECT
+      r.id,
+      r.submitted_at,
+      r.status,
+      r.is_spam,
+      COALESCE(
+        jsonb_object_agg(qr.question_id::text, qr.answer_text) FILTER (WHERE qr.id IS NOT NULL),
+        '{}'::jsonb
+      ) AS answers,
+      COALESCE(string_agg(qr.answer_text, ' '), '') AS document
+    FROM public.form_responses r
+    LEFT JOIN public.question_responses qr ON qr.form_response_id = r.id
+    WHERE r.form_id = _form_id
+      AND (_submitted_from IS NULL OR r.submitted_at >= _submitted_from)
+      AND (_submitted_to IS NULL OR r.submitted_at < _submitted_to)
+      AND (_status IS NULL OR r.status = _status)
+      AND (_spam IS NULL OR (_spam = 'only') = r.is_spam)
+    GROUP BY r.id, r.submitted_at, r.status, r.is_spam
+  ),
+  matching AS (
+    SELECT
+      r.id,
+      r.submitted_at,
+      r.status,
+      r.is_spam,
+      r.answers,
+      r.answers ->> _sort_question::text AS sort_text
+    FROM responses r
+    CROSS JOIN question_types t
+    WHERE (
+        NULLIF(btrim(_search), '') IS NULL
+        OR to_tsvector('simple', r.document) @@ websearch_to_tsquery('simple', _search)
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(_filters, '[]'::jsonb)) AS f(condition)
+        WHERE NOT public.evaluate_condition(f.condition, r.answers, t.types)
+      )
+  ),
+  sortable AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sort_text ~ '^-?\d+(\.\d+)?$' THEN m.sort_text::numeric END AS sort_number
+    FROM matching m
+  )
+  SELECT s.id, s.submitted_at, s.status, s.is_spam, s.answers, count(*) OVER () AS total_count
+  FROM sortable s
+  ORDER BY
+    CASE WHEN _sort_desc THEN s.sort_number END DESC NULLS LAST,
+    CASE WHEN NOT _sort_desc THEN s.sort_number END ASC NULLS LAST,
+    CASE WHEN _sort_desc THEN lower(s.sort_text) END DESC NULLS LAST,
+    CASE WHEN NOT _sort_desc THEN lower(s.sort_text) END ASC NULLS LAST,
+    CASE WHEN _sort_desc THEN s.submitted_at END DESC,
+    CASE WHEN NOT _sort_desc THEN s.submitted_at END ASC,
+    s.id
+  LIMIT _limit OFFSET _offset;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_form_responses(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, INTEGER, INTEGER, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_response_neighbors(
+  _response_id UUID,
+  _form_id UUID,
+  _search TEXT DEFAULT NULL,
+  _submitted_from TIMESTAMPTZ DEFAULT NULL,
+  _submitted_to TIMESTAMPTZ DEFAULT NULL,
+  _filters JSONB DEFAULT '[]'::jsonb,
+  _sort_question UUID DEFAULT NULL,
+  _sort_desc BOOLEAN DEFAULT true,
+  _status TEXT DEFAULT NULL,
+  _spam TEXT DEFAULT NULL
+)
+RETURNS TABLE (previous_id UUID, next_id UUID, position BIGINT, total_count BIGINT) AS $$
+  SELECT n.previous_id, n.next_id, n.position, n.total_count
+  FROM (
+    SELECT
+      s.id,
+      lag(s.id) OVER w AS previous_id,
+      lead(s.id) OVER w AS next_id,
+      row_number() OVER w AS position,
+      s.total_count
+    FROM public.search_form_responses(
+      _form_id, _search, _submitted_from, _submitted_to, _filters,
+      _sort_question, _sort_desc, NULL, 0, _status, _spam
+    ) WITH ORDINALITY AS s(id, submitted_at, status, is_spam, answers, total_count, ordinality)
+    WINDOW w AS (ORDER BY s.ordinality)
+  ) n
+  WHERE n.id = _response_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_response_neighbors(UUID, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, UUID, BOOLEAN, TEXT, TEXT) TO authenticated;
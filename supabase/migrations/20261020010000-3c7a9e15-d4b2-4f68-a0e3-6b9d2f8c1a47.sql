@@ -0,0 +1,466 @@
+-- One response per person. forms.one_response_per limits a form to a single
+-- response per:
+--
+-- - 'browser': a random token the public form keeps in the browser's storage
+-- - 'ip':      IP address of the request
+-- - 'user':    signed-in user; respondents must sign in to respond
+--
+-- NULL means any number of responses. Each response records who submitted it
+-- in respondent_key, which is unique per form. With allow_response_edits,
+-- submitting again updates the earlier response instead of being rejected.
+-- Edits are not offered in 'ip' mode, where everyone behind the same address
+-- would see each other's answers.
+
+ALTER TABLE public.forms
+  ADD COLUMN one_response_per TEXT
+    CONSTRAINT forms_one_response_per_check CHECK (one_response_per IN ('browser', 'ip', 'user')),
+  ADD COLUMN allow_response_edits BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.form_responses
+  -- '<mode>:<id>', e.g. 'user:<uuid>'; browser tokens are stored as a hash
+  ADD COLUMN respondent_key TEXT,
+  -- Storage folders files were uploaded to when the response was edited, in
+  -- addition to the one named after the response id
+  ADD COLUMN upload_folders UUID[] NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX idx_form_responses_respondent ON public.form_responses(form_id, respondent_key);
+CREATE INDEX idx_form_responses_upload_folders ON public.form_responses USING GIN (upload_folders);
+
+-- Who is responding to a form with the given mode, or NULL when that can't be
+-- told: no token, no IP address, or not signed in.
+CREATE OR REPLACE FUNCTION public.get_respondent_key(_mode TEXT, _browser_token TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE _mode
+    WHEN 'browser' THEN
+      CASE WHEN length(_browser_token) >= 32 THEN 'browser:' || public.hash_draft_token(_browser_token) END
+    WHEN 'ip' THEN 'ip:' || host(public.get_request_ip())
+    WHEN 'user' THEN 'user:' || auth.uid()::text
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The caller's earlier response to a form that allows one response per
+-- person, or no rows. Answers are only returned when the respondent may edit
+-- them.
+CREATE OR REPLACE FUNCTION public.get_previous_response(_form_id UUID, _browser_token TEXT DEFAULT NULL)
+RETURNS TABLE (response_id UUID, submitted_at TIMESTAMPTZ, can_edit BOOLEAN, answers JSONB) AS $$
+  SELECT
+    r.id,
+    r.submitted_at,
+    f.allow_response_edits AND f.one_response_per <> 'ip',
+    CASE WHEN f.allow_response_edits AND f.one_response_per <> 'ip' THEN (
+      SELECT COALESCE(jsonb_object_agg(qr.question_id::text, qr.answer_text), '{}'::jsonb)
+      FROM public.question_responses qr
+      WHERE qr.form_response_id = r.id
+    ) END
+  FROM public.forms f
+  JOIN public.form_responses r
+    ON r.form_id = f.id
+    AND r.respondent_key = public.get_respondent_key(f.one_response_per, _browser_token)
+  WHERE f.id = _form_id
+    AND f.one_response_per IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_previous_response(UUID, TEXT) TO anon, authenticated;
+
+-- Same as before, but folders an edited response uploaded files to are
+-- read-only too, and files can be added while a full form still takes edits
+CREATE OR REPLACE FUNCTION public.is_pending_response_file(_name TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  folders TEXT[] := storage.foldername(_name);
+  uuid_pattern CONSTANT TEXT := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+BEGIN
+  IF array_length(folders, 1) IS DISTINCT FROM 3
+    OR folders[1] !~ uuid_pattern
+    OR folders[2] !~ uuid_pattern
+    OR folders[3] !~ uuid_pattern
+  THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.get_form_availability(folders[1]::uuid) IN ('open', 'full')
+    AND EXISTS (
+      SELECT 1 FROM public.form_questions
+      WHERE id = folders[3]::uuid
+        AND form_id = folders[1]::uuid
+        AND question_type = 'file_upload'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.form_responses
+      WHERE id = folders[2]::uuid
+        OR upload_folders @> ARRAY[folders[2]::uuid]
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as before, but takes the folders files may be in instead of a single
+-- response id: an edited response keeps the files it already had and may add
+-- new ones. Keep the messages in sync with src/lib/fileUploads.ts.
+DROP FUNCTION public.validate_file_answer(UUID, UUID, UUID, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.validate_file_answer(
+  _form_id UUID,
+  _folders UUID[],
+  _question_id UUID,
+  _limits JSONB,
+  _answer TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  files JSONB;
+  file JSONB;
+  folders TEXT[];
+  path_folders TEXT[];
+  max_files INTEGER := COALESCE((_limits ->> 'max_files')::integer, 1);
+  max_size_mb NUMERIC := COALESCE((_limits ->> 'max_size_mb')::numeric, 10);
+  allowed_types JSONB := COALESCE(_limits -> 'allowed_types', '[]'::jsonb);
+  stored RECORD;
+BEGIN
+  BEGIN
+    files := _answer::jsonb;
+  EXCEPTION WHEN others THEN
+    RETURN 'Please upload your files again';
+  END;
+
+  SELECT array_agg(f::text) INTO folders FROM unnest(_folders) AS f WHERE f IS NOT NULL;
+
+  IF jsonb_typeof(files) <> 'array' OR folders IS NULL THEN
+    RETURN 'Please upload your files again';
+  ELSIF jsonb_array_length(files) > max_files THEN
+    RETURN format('Please upload at most %s file%s', max_files, CASE WHEN max_files = 1 THEN '' ELSE 's' END);
+  END IF;
+
+  FOR file IN SELECT value FROM jsonb_array_elements(files) LOOP
+    IF jsonb_typeof(file) <> 'object' OR file ->> 'path' IS NULL THEN
+      RETURN 'Please upload your files again';
+    END IF;
+
+    -- <form>/<folder>/<question>/<name>
+    path_folders := string_to_array(file ->> 'path', '/');
+    IF array_length(path_folders, 1) <> 4
+      OR path_folders[1] <> _form_id::text
+      OR NOT path_folders[2] = ANY(folders)
+      OR path_folders[3] <> _question_id::text
+      OR path_folders[4] = ''
+    THEN
+      RETURN 'Please upload your files again';
+    END IF;
+
+    SELECT metadata INTO stored
+    FROM storage.objects
+    WHERE bucket_id = 'response-files'
+      AND name = file ->> 'path';
+
+    IF NOT FOUND THEN
+      RETURN 'An uploaded file is missing, please upload it again';
+    ELSIF COALESCE((stored.metadata ->> 'size')::bigint, 0) > max_size_mb * 1024 * 1024 THEN
+      RETURN format('Files must be %s MB or smaller', max_size_mb);
+    ELSIF jsonb_array_length(allowed_types) > 0 AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(allowed_types) AS t(pattern)
+      WHERE stored.metadata ->> 'mimetype' = t.pattern
+        OR (t.pattern LIKE '%/*' AND stored.metadata ->> 'mimetype' LIKE left(t.pattern, -1) || '%')
+    ) THEN
+      RETURN 'This type of file is not allowed';
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as before, plus _browser_token for forms limited to one response per
+-- browser. On forms limited to one response per person, a second submission
+-- is rejected, or replaces the answers of the first when the form allows
+-- edits. _response_id then names the folder new files were uploaded to, and
+-- the response keeps its id, submission time and spam flags.
+DROP FUNCTION public.submit_form_response(UUID, JSONB, UUID, TEXT, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.submit_form_response(
+  _form_id UUID,
+  _answers JSONB,
+  _response_id UUID DEFAULT NULL,
+  _honeypot TEXT DEFAULT NULL,
+  _fill_seconds NUMERIC DEFAULT NULL,
+  _captcha_token TEXT DEFAULT NULL,
+  _browser_token TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB := '[]'::jsonb;
+  question_types JSONB;
+  new_response_id UUID;
+  q RECORD;
+  answer TEXT;
+  is_visible BOOLEAN;
+  section_visible BOOLEAN := true;
+  message TEXT;
+  form RECORD;
+  respondent TEXT;
+  previous_id UUID;
+  previous_folders UUID[];
+  file_folders UUID[] := ARRAY[_response_id];
+  client_ip INET := public.get_request_ip();
+  spam_reasons TEXT[] := '{}';
+  rate_limit CONSTANT INTEGER := 10;
+  min_fill_seconds CONSTANT NUMERIC := 3;
+BEGIN
+  IF jsonb_typeof(answers) <> 'object' THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+    );
+  END IF;
+
+  SELECT is_active, captcha_required, one_response_per, allow_response_edits
+  INTO form
+  FROM public.forms
+  WHERE id = _form_id;
+
+  IF NOT FOUND OR NOT form.is_active THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This form is no longer accepting responses'
+      ))
+    );
+  END IF;
+
+  IF form.one_response_per IS NOT NULL THEN
+    respondent := public.get_respondent_key(form.one_response_per, _browser_token);
+    IF respondent IS NULL THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', CASE form.one_response_per
+            WHEN 'user' THEN 'Please sign in to respond to this form'
+            ELSE 'Your response could not be submitted from this browser'
+          END
+        ))
+      );
+    END IF;
+
+    SELECT id, upload_folders INTO previous_id, previous_folders
+    FROM public.form_responses
+    WHERE form_id = _form_id
+      AND respondent_key = respondent;
+
+    IF FOUND AND NOT (form.allow_response_edits AND form.one_response_per <> 'ip') THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'You have already responded to this form'
+        ))
+      );
+    ELSIF FOUND THEN
+      -- Edits are allowed while the form is open, even once it is full
+      IF public.get_form_availability(_form_id) NOT IN ('open', 'full') THEN
+        RETURN jsonb_build_object(
+          'response_id', NULL,
+          'errors', jsonb_build_array(jsonb_build_object(
+            'question_id', NULL,
+            'message', 'This form is no longer accepting responses'
+          ))
+        );
+      END IF;
+      -- New files must go to a folder of this response, or one no response uses
+      IF _response_id IS NOT NULL
+        AND NOT (_response_id = previous_id OR _response_id = ANY(previous_folders))
+        AND EXISTS (
+          SELECT 1 FROM public.form_responses
+          WHERE id = _response_id OR upload_folders @> ARRAY[_response_id]
+        )
+      THEN
+        RETURN jsonb_build_object(
+          'response_id', NULL,
+          'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+        );
+      END IF;
+      file_folders := file_folders || previous_id || previous_folders;
+    END IF;
+  END IF;
+
+  IF previous_id IS NULL AND client_ip IS NOT NULL AND (
+    SELECT count(*) FROM public.form_responses
+    WHERE form_id = _form_id
+      AND ip_address = client_ip
+      AND submitted_at > now() - interval '1 hour'
+  ) >= rate_limit THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'Too many responses have been submitted from your network. Please try again later.'
+      ))
+    );
+  END IF;
+
+  -- Every answer must belong to an answerable question of this form
+  SELECT errors || COALESCE(jsonb_agg(jsonb_build_object(
+    'question_id', NULL,
+    'message', 'Answer submitted for a question that is not part of this form'
+  )), '[]'::jsonb)
+  INTO errors
+  FROM jsonb_object_keys(answers) AS k(key)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.form_questions fq
+    WHERE fq.form_id = _form_id
+      AND fq.id::text = k.key
+      AND fq.question_type <> 'section'
+  );
+
+  SELECT COALESCE(jsonb_object_agg(id, form_questions.question_type), '{}'::jsonb)
+  INTO question_types
+  FROM public.form_questions
+  WHERE form_id = _form_id;
+
+  FOR q IN
+    SELECT * FROM public.form_questions
+    WHERE form_id = _form_id
+    ORDER BY order_index
+  LOOP
+    IF q.question_type = 'section' THEN
+      section_visible := public.evaluate_visibility(q.visibility, answers, question_types);
+      CONTINUE;
+    END IF;
+
+    answer := btrim(answers ->> q.id::text);
+    is_visible := section_visible AND public.evaluate_visibility(q.visibility, answers, question_types);
+
+    IF answer IS NULL OR answer = '' OR (q.question_type IN ('checkboxes', 'file_upload') AND answer = '[]') THEN
+      IF is_visible AND q.is_required THEN
+        errors := errors || jsonb_build_object('question_id', q.id, 'message', 'This question is required');
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF NOT is_visible THEN
+      errors := errors || jsonb_build_object(
+        'question_id', q.id,
+        'message', 'This question is hidden by its display logic and cannot be answered'
+      );
+      CONTINUE;
+    END IF;
+
+    IF q.question_type = 'file_upload' THEN
+      message := public.validate_file_answer(_form_id, file_folders, q.id, q.file_limits, answer);
+    ELSE
+      message := public.validate_answer(q.question_type, q.options, answer);
+    END IF;
+    IF message IS NOT NULL THEN
+      errors := errors || jsonb_build_object('question_id', q.id, 'message', message);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'errors', errors);
+  END IF;
+
+  IF form.captcha_required THEN
+    DELETE FROM public.captcha_passes
+    WHERE form_id = _form_id
+      AND token_hash = public.hash_draft_token(COALESCE(_captcha_token, ''))
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'Please complete the CAPTCHA again'
+        ))
+      );
+    END IF;
+  END IF;
+
+  IF previous_id IS NOT NULL THEN
+    UPDATE public.form_responses
+    SET upload_folders = CASE
+      WHEN _response_id IS NULL OR _response_id = id OR upload_folders @> ARRAY[_response_id] THEN upload_folders
+      ELSE upload_folders || _response_id
+    END
+    WHERE id = previous_id;
+
+    DELETE FROM public.question_responses WHERE form_response_id = previous_id;
+    new_response_id := previous_id;
+  ELSE
+    IF COALESCE(_honeypot, '') <> '' THEN
+      spam_reasons := spam_reasons || 'honeypot';
+    END IF;
+    IF _fill_seconds IS NULL OR _fill_seconds < min_fill_seconds THEN
+      spam_reasons := spam_reasons || 'too_fast';
+    END IF;
+
+    BEGIN
+      INSERT INTO public.form_responses (
+        id, form_id, ip_address, user_agent, is_spam, spam_reasons, respondent_key
+      )
+      VALUES (
+        COALESCE(_response_id, gen_random_uuid()),
+        _form_id,
+        client_ip,
+        public.get_request_user_agent(),
+        cardinality(spam_reasons) > 0,
+        spam_reasons,
+        respondent
+      )
+      RETURNING id INTO new_response_id;
+    EXCEPTION WHEN unique_violation THEN
+      IF respondent IS NULL THEN
+        RAISE;
+      END IF;
+      -- Another submission from the same respondent got there first
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'You have already responded to this form'
+        ))
+      );
+    END;
+  END IF;
+
+  INSERT INTO public.question_responses (form_response_id, question_id, answer_text)
+  SELECT new_response_id, fq.id, btrim(answers ->> fq.id::text)
+  FROM public.form_questions fq
+  WHERE fq.form_id = _form_id
+    AND fq.question_type <> 'section'
+    AND COALESCE(btrim(answers ->> fq.id::text), '') NOT IN ('', '[]');
+
+  RETURN jsonb_build_object('response_id', new_response_id, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_form_response(UUID, JSONB, UUID, TEXT, NUMERIC, TEXT, TEXT) TO anon, authenticated;
+
+-- Same as before, but a response's files include those uploaded when it was
+-- edited
+CREATE OR REPLACE FUNCTION public.list_response_files(_form_id UUID, _response_id UUID DEFAULT NULL)
+RETURNS SETOF TEXT AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE id = _form_id AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'response-files'
+    AND o.name LIKE _form_id::text || '/%'
+    AND (
+      _response_id IS NULL
+      OR (storage.foldername(o.name))[2] = _response_id::text
+      OR (storage.foldername(o.name))[2] IN (
+        SELECT unnest(r.upload_folders)::text
+        FROM public.form_responses r
+        WHERE r.id = _response_id AND r.form_id = _form_id
+      )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,441 @@
+-- Private edit links. Every response gets a secret edit token when it is
+-- submitted; the respondent sees the link on the confirmation screen. While
+-- the form allows edits (forms.allow_response_edits) and is open, or full,
+-- the link loads the response and update_form_response replaces its answers.
+-- Each edit keeps the answers it replaced in response_edits, so the form's
+-- creator can see what changed and when.
+
+ALTER TABLE public.form_responses
+  -- Like draft tokens, only a hash is stored and the token itself is returned once
+  ADD COLUMN edit_token_hash TEXT UNIQUE,
+  ADD COLUMN edited_at TIMESTAMPTZ;
+
+CREATE TABLE public.response_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_response_id UUID NOT NULL REFERENCES public.form_responses(id) ON DELETE CASCADE,
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- The answers before this edit, keyed by question id
+  previous_answers JSONB NOT NULL
+);
+
+CREATE INDEX idx_response_edits_response ON public.response_edits(form_response_id, edited_at);
+
+ALTER TABLE public.response_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view edits of responses to their forms"
+ON public.response_edits
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.form_responses fr
+  JOIN public.forms f ON f.id = fr.form_id
+  WHERE fr.id = response_edits.form_response_id
+  AND f.creator_id = auth.uid()
+));
+
+-- Checks answers to a form the way submit_form_response always has: every
+-- answer belongs to a visible question, required questions are answered and
+-- each answer is valid for its question type. _file_folders are the Storage
+-- folders file upload answers may point into. Returns the errors, if any.
+CREATE OR REPLACE FUNCTION public.validate_form_answers(_form_id UUID, _answers JSONB, _file_folders UUID[])
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB := '[]'::jsonb;
+  question_types JSONB;
+  q RECORD;
+  answer TEXT;
+  is_visible BOOLEAN;
+  section_visible BOOLEAN := true;
+  message TEXT;
+BEGIN
+  IF jsonb_typeof(answers) <> 'object' THEN
+    RETURN jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'));
+  END IF;
+
+  -- Every answer must belong to an answerable question of this form
+  SELECT errors || COALESCE(jsonb_agg(jsonb_build_object(
+    'question_id', NULL,
+    'message', 'Answer submitted for a question that is not part of this form'
+  )), '[]'::jsonb)
+  INTO errors
+  FROM jsonb_object_keys(answers) AS k(key)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.form_questions fq
+    WHERE fq.form_id = _form_id
+      AND fq.id::text = k.key
+      AND fq.question_type <> 'section'
+  );
+
+  SELECT COALESCE(jsonb_object_agg(id, form_questions.question_type), '{}'::jsonb)
+  INTO question_types
+  FROM public.form_questions
+  WHERE form_id = _form_id;
+
+  FOR q IN
+    SELECT * FROM public.form_questions
+    WHERE form_id = _form_id
+    ORDER BY order_index
+  LOOP
+    IF q.question_type = 'section' THEN
+      section_visible := public.evaluate_visibility(q.visibility, answers, question_types);
+      CONTINUE;
+    END IF;
+
+    answer := btrim(answers ->> q.id::text);
+    is_visible := section_visible AND public.evaluate_visibility(q.visibility, answers, question_types);
+
+    IF answer IS NULL OR answer = '' OR (q.question_type IN ('checkboxes', 'file_upload') AND answer = '[]') THEN
+      IF is_visible AND q.is_required THEN
+        errors := errors || jsonb_build_object('question_id', q.id, 'message', 'This question is required');
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF NOT is_visible THEN
+      errors := errors || jsonb_build_object(
+        'question_id', q.id,
+        'message', 'This question is hidden by its display logic and cannot be answered'
+      );
+      CONTINUE;
+    END IF;
+
+    IF q.question_type = 'file_upload' THEN
+      message := public.validate_file_answer(_form_id, _file_folders, q.id, q.file_limits, answer);
+    ELSE
+      message := public.validate_answer(q.question_type, q.options, answer);
+    END IF;
+    IF message IS NOT NULL THEN
+      errors := errors || jsonb_build_object('question_id', q.id, 'message', message);
+    END IF;
+  END LOOP;
+
+  RETURN errors;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether files for an edit of _response_id may be uploaded to _folder: one
+-- of the response's own folders, or one no response uses yet.
+CREATE OR REPLACE FUNCTION public.is_available_upload_folder(_response_id UUID, _folder UUID)
+RETURNS BOOLEAN AS $$
+  SELECT _folder IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.form_responses
+    WHERE (id = _folder OR upload_folders @> ARRAY[_folder])
+      AND id <> _response_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.is_available_upload_folder(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Replaces the answers of a response with already validated _answers, keeping
+-- the old ones in response_edits. _upload_folder is where any new files of
+-- this edit were uploaded.
+CREATE OR REPLACE FUNCTION public.save_response_edit(_response_id UUID, _answers JSONB, _upload_folder UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.response_edits (form_response_id, previous_answers)
+  SELECT _response_id, COALESCE(jsonb_object_agg(qr.question_id::text, qr.answer_text), '{}'::jsonb)
+  FROM public.question_responses qr
+  WHERE qr.form_response_id = _response_id;
+
+  UPDATE public.form_responses
+  SET
+    edited_at = now(),
+    upload_folders = CASE
+      WHEN _upload_folder IS NULL OR _upload_folder = id OR upload_folders @> ARRAY[_upload_folder] THEN upload_folders
+      ELSE upload_folders || _upload_folder
+    END
+  WHERE id = _response_id;
+
+  DELETE FROM public.question_responses WHERE form_response_id = _response_id;
+
+  INSERT INTO public.question_responses (form_response_id, question_id, answer_text)
+  SELECT _response_id, fq.id, btrim(_answers ->> fq.id::text)
+  FROM public.form_responses r
+  JOIN public.form_questions fq ON fq.form_id = r.form_id
+  WHERE r.id = _response_id
+    AND fq.question_type <> 'section'
+    AND COALESCE(btrim(_answers ->> fq.id::text), '') NOT IN ('', '[]');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_response_edit(UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, with the checks and the edit moved into the functions above.
+-- New responses get an edit token, returned once as "edit_token" alongside
+-- "response_id" and "errors"; it is NULL for edits and failed submissions.
+CREATE OR REPLACE FUNCTION public.submit_form_response(
+  _form_id UUID,
+  _answers JSONB,
+  _response_id UUID DEFAULT NULL,
+  _honeypot TEXT DEFAULT NULL,
+  _fill_seconds NUMERIC DEFAULT NULL,
+  _captcha_token TEXT DEFAULT NULL,
+  _browser_token TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB;
+  new_response_id UUID;
+  form RECORD;
+  respondent TEXT;
+  previous_id UUID;
+  previous_folders UUID[];
+  file_folders UUID[] := ARRAY[_response_id];
+  client_ip INET := public.get_request_ip();
+  spam_reasons TEXT[] := '{}';
+  edit_token TEXT;
+  rate_limit CONSTANT INTEGER := 10;
+  min_fill_seconds CONSTANT NUMERIC := 3;
+BEGIN
+  SELECT is_active, captcha_required, one_response_per, allow_response_edits
+  INTO form
+  FROM public.forms
+  WHERE id = _form_id;
+
+  IF NOT FOUND OR NOT form.is_active THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'edit_token', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This form is no longer accepting responses'
+      ))
+    );
+  END IF;
+
+  IF form.one_response_per IS NOT NULL THEN
+    respondent := public.get_respondent_key(form.one_response_per, _browser_token);
+    IF respondent IS NULL THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'edit_token', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', CASE form.one_response_per
+            WHEN 'user' THEN 'Please sign in to respond to this form'
+            ELSE 'Your response could not be submitted from this browser'
+          END
+        ))
+      );
+    END IF;
+
+    SELECT id, upload_folders INTO previous_id, previous_folders
+    FROM public.form_responses
+    WHERE form_id = _form_id
+      AND respondent_key = respondent;
+
+    IF FOUND AND NOT (form.allow_response_edits AND form.one_response_per <> 'ip') THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'edit_token', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'You have already responded to this form'
+        ))
+      );
+    ELSIF FOUND THEN
+      -- Edits are allowed while the form is open, even once it is full
+      IF public.get_form_availability(_form_id) NOT IN ('open', 'full') THEN
+        RETURN jsonb_build_object(
+          'response_id', NULL,
+          'edit_token', NULL,
+          'errors', jsonb_build_array(jsonb_build_object(
+            'question_id', NULL,
+            'message', 'This form is no longer accepting responses'
+          ))
+        );
+      ELSIF NOT public.is_available_upload_folder(previous_id, _response_id) THEN
+        RETURN jsonb_build_object(
+          'response_id', NULL,
+          'edit_token', NULL,
+          'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+        );
+      END IF;
+      file_folders := file_folders || previous_id || previous_folders;
+    END IF;
+  END IF;
+
+  IF previous_id IS NULL AND client_ip IS NOT NULL AND (
+    SELECT count(*) FROM public.form_responses
+    WHERE form_id = _form_id
+      AND ip_address = client_ip
+      AND submitted_at > now() - interval '1 hour'
+  ) >= rate_limit THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'edit_token', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'Too many responses have been submitted from your network. Please try again later.'
+      ))
+    );
+  END IF;
+
+  errors := public.validate_form_answers(_form_id, answers, file_folders);
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'edit_token', NULL, 'errors', errors);
+  END IF;
+
+  IF form.captcha_required THEN
+    DELETE FROM public.captcha_passes
+    WHERE form_id = _form_id
+      AND token_hash = public.hash_draft_token(COALESCE(_captcha_token, ''))
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'edit_token', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'Please complete the CAPTCHA again'
+        ))
+      );
+    END IF;
+  END IF;
+
+  IF previous_id IS NOT NULL THEN
+    PERFORM public.save_response_edit(previous_id, answers, _response_id);
+    RETURN jsonb_build_object('response_id', previous_id, 'edit_token', NULL, 'errors', '[]'::jsonb);
+  END IF;
+
+  IF COALESCE(_honeypot, '') <> '' THEN
+    spam_reasons := spam_reasons || 'honeypot';
+  END IF;
+  IF _fill_seconds IS NULL OR _fill_seconds < min_fill_seconds THEN
+    spam_reasons := spam_reasons || 'too_fast';
+  END IF;
+
+  edit_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  BEGIN
+    INSERT INTO public.form_responses (
+      id, form_id, ip_address, user_agent, is_spam, spam_reasons, respondent_key, edit_token_hash
+    )
+    VALUES (
+      COALESCE(_response_id, gen_random_uuid()),
+      _form_id,
+      client_ip,
+      public.get_request_user_agent(),
+      cardinality(spam_reasons) > 0,
+      spam_reasons,
+      respondent,
+      public.hash_draft_token(edit_token)
+    )
+    RETURNING id INTO new_response_id;
+  EXCEPTION WHEN unique_violation THEN
+    IF respondent IS NULL THEN
+      RAISE;
+    END IF;
+    -- Another submission from the same respondent got there first
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'edit_token', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'You have already responded to this form'
+      ))
+    );
+  END;
+
+  INSERT INTO public.question_responses (form_response_id, question_id, answer_text)
+  SELECT new_response_id, fq.id, btrim(answers ->> fq.id::text)
+  FROM public.form_questions fq
+  WHERE fq.form_id = _form_id
+    AND fq.question_type <> 'section'
+    AND COALESCE(btrim(answers ->> fq.id::text), '') NOT IN ('', '[]');
+
+  RETURN jsonb_build_object('response_id', new_response_id, 'edit_token', edit_token, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The response an edit link points to, or no rows. can_edit is whether the
+-- form still takes changes to it.
+CREATE OR REPLACE FUNCTION public.get_response_for_edit(_form_id UUID, _token TEXT)
+RETURNS TABLE (
+  response_id UUID,
+  submitted_at TIMESTAMPTZ,
+  edited_at TIMESTAMPTZ,
+  can_edit BOOLEAN,
+  answers JSONB
+) AS $$
+  SELECT
+    r.id,
+    r.submitted_at,
+    r.edited_at,
+    f.allow_response_edits AND public.get_form_availability(f.id) IN ('open', 'full'),
+    (
+      SELECT COALESCE(jsonb_object_agg(qr.question_id::text, qr.answer_text), '{}'::jsonb)
+      FROM public.question_responses qr
+      WHERE qr.form_response_id = r.id
+    )
+  FROM public.form_responses r
+  JOIN public.forms f ON f.id = r.form_id
+  WHERE r.form_id = _form_id
+    AND r.edit_token_hash = public.hash_draft_token(_token);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_response_for_edit(UUID, TEXT) TO anon, authenticated;
+
+-- Replaces the answers of the response _token points to, checking them like
+-- submit_form_response does. _upload_folder is where files added in this edit
+-- were uploaded. Returns { "response_id": uuid, "errors": [...] } like
+-- submit_form_response.
+CREATE OR REPLACE FUNCTION public.update_form_response(
+  _form_id UUID,
+  _token TEXT,
+  _answers JSONB,
+  _upload_folder UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB;
+  response RECORD;
+BEGIN
+  SELECT r.id, r.upload_folders, f.allow_response_edits
+  INTO response
+  FROM public.form_responses r
+  JOIN public.forms f ON f.id = r.form_id
+  WHERE r.form_id = _form_id
+    AND r.edit_token_hash = public.hash_draft_token(_token);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This edit link is not valid'
+      ))
+    );
+  ELSIF NOT response.allow_response_edits OR public.get_form_availability(_form_id) NOT IN ('open', 'full') THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This response can no longer be edited'
+      ))
+    );
+  ELSIF NOT public.is_available_upload_folder(response.id, _upload_folder) THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+    );
+  END IF;
+
+  errors := public.validate_form_answers(
+    _form_id,
+    answers,
+    ARRAY[_upload_folder, response.id] || response.upload_folders
+  );
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'errors', errors);
+  END IF;
+
+  PERFORM public.save_response_edit(response.id, answers, _upload_folder);
+  RETURN jsonb_build_object('response_id', response.id, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.update_form_response(UUID, TEXT, JSONB, UUID) TO anon, authenticated;
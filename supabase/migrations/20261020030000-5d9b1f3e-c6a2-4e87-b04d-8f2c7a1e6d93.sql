@@ -0,0 +1,82 @@
+-- Email notifications to form creators about new responses.
+-- forms.notify_on_response is how often to send them:
+--
+-- - 'off':     never
+-- - 'instant': one email per response, as soon as the send-notifications
+--              Edge Function next runs
+-- - 'hourly':  at most one email an hour, listing the responses since the last
+-- - 'daily':   at most one email a day
+--
+-- New responses to forms that notify are queued in response_notifications by a
+-- trigger. The send-notifications function, run on a schedule, asks
+-- get_due_notifications which forms are due, emails their creators and marks
+-- the responses as sent with mark_notifications_sent. Suspected spam is not
+-- queued.
+
+ALTER TABLE public.forms
+  ADD COLUMN notify_on_response TEXT NOT NULL DEFAULT 'off'
+    CONSTRAINT forms_notify_on_response_check CHECK (notify_on_response IN ('off', 'instant', 'hourly', 'daily'));
+
+CREATE TABLE public.response_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  form_response_id UUID NOT NULL UNIQUE REFERENCES public.form_responses(id) ON DELETE CASCADE,
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_response_notifications_form ON public.response_notifications(form_id, sent_at);
+
+-- Only the Edge Function reads the queue, with the service role
+ALTER TABLE public.response_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_response_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.is_spam AND EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE id = NEW.form_id AND notify_on_response <> 'off'
+  ) THEN
+    INSERT INTO public.response_notifications (form_id, form_response_id)
+    VALUES (NEW.form_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_response_notification
+AFTER INSERT ON public.form_responses
+FOR EACH ROW EXECUTE FUNCTION public.queue_response_notification();
+
+-- Forms whose creator should be emailed now, with the queued responses to
+-- include, oldest first. Digests are due once the last email about the form
+-- is an hour or a day old.
+CREATE OR REPLACE FUNCTION public.get_due_notifications()
+RETURNS TABLE (form_id UUID, frequency TEXT, response_ids UUID[]) AS $$
+  SELECT f.id, f.notify_on_response, array_agg(n.form_response_id ORDER BY n.queued_at)
+  FROM public.forms f
+  JOIN public.response_notifications n ON n.form_id = f.id AND n.sent_at IS NULL
+  CROSS JOIN LATERAL (
+    SELECT max(sent_at) AS last_sent_at
+    FROM public.response_notifications
+    WHERE response_notifications.form_id = f.id
+  ) last
+  WHERE f.notify_on_response = 'instant'
+    OR (f.notify_on_response = 'hourly' AND COALESCE(last.last_sent_at, '-infinity') <= now() - interval '1 hour')
+    OR (f.notify_on_response = 'daily' AND COALESCE(last.last_sent_at, '-infinity') <= now() - interval '1 day')
+  GROUP BY f.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Records that the creator of _form_id was emailed about _response_ids
+CREATE OR REPLACE FUNCTION public.mark_notifications_sent(_form_id UUID, _response_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.response_notifications
+  SET sent_at = now()
+  WHERE form_id = _form_id
+    AND form_response_id = ANY(_response_ids);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_due_notifications() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_sent(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_notifications() TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_sent(UUID, UUID[]) TO service_role;
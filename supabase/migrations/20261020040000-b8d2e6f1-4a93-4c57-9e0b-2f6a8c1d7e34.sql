@@ -0,0 +1,44 @@
+-- Client IP addresses came from the first entry of X-Forwarded-For, which the
+-- client can set to anything: a new value on every request got around the
+-- per-IP rate limit. Only addresses added by the platform's own proxies can be
+-- trusted, in this order:
+--
+-- - CF-Connecting-IP: set by Cloudflare, in front of the Supabase API, which
+--   overwrites any value the client sends
+-- - X-Real-IP: set by the API gateway
+-- - the last entry of X-Forwarded-For: appended by the proxy closest to the
+--   database; everything before it was passed on from the client
+--
+-- The verify-captcha Edge Function reads its caller's address through the same
+-- function, so both agree on who the client is.
+
+-- The client's IP address according to a request's headers (lower-case names,
+-- as PostgREST and Deno provide them). NULL when there is none or it can't be
+-- parsed.
+CREATE OR REPLACE FUNCTION public.client_ip_from_headers(_headers JSON)
+RETURNS INET AS $$
+DECLARE
+  forwarded TEXT[] := string_to_array(_headers ->> 'x-forwarded-for', ',');
+BEGIN
+  RETURN btrim(COALESCE(
+    NULLIF(btrim(_headers ->> 'cf-connecting-ip'), ''),
+    NULLIF(btrim(_headers ->> 'x-real-ip'), ''),
+    forwarded[cardinality(forwarded)]
+  ))::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.client_ip_from_headers(JSON) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.client_ip_from_headers(JSON) TO service_role;
+
+-- Same as before, but trusting only the headers client_ip_from_headers does
+CREATE OR REPLACE FUNCTION public.get_request_ip()
+RETURNS INET AS $$
+BEGIN
+  RETURN public.client_ip_from_headers(NULLIF(current_setting('request.headers', true), '')::json);
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
@@ -0,0 +1,193 @@
+-- The Summary tab of the responses view used to download every matching
+-- response and aggregate them in the browser, which was slow for large forms
+-- and silently cut off at PostgREST's row limit. get_response_summary does the
+-- aggregation here and returns only the numbers the charts need.
+
+-- The values of a checkboxes answer, a JSON array. Anything else is one value,
+-- like parseMultiAnswer in src/lib/questionTypes.ts.
+CREATE OR REPLACE FUNCTION public.parse_multi_answer(_answer TEXT)
+RETURNS TEXT[] AS $$
+BEGIN
+  IF jsonb_typeof(_answer::jsonb) = 'array' THEN
+    RETURN ARRAY(SELECT jsonb_array_elements_text(_answer::jsonb));
+  END IF;
+  RETURN ARRAY[_answer];
+EXCEPTION WHEN others THEN
+  RETURN ARRAY[_answer];
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Aggregates of the responses matching the same filters as
+-- search_form_responses:
+--
+-- - total:     number of matching responses
+-- - by_day:    [{ day, count }] per UTC day that has responses, oldest first
+-- - questions: per question id
+--   - answered: how many matching responses answer it
+--   - counts:   [{ value, count }] per option for choice questions (checkbox
+--               answers count once per selected option), per value for scales
+--               and numbers with at most 10 distinct values; otherwise per bin
+--               (0-9) of 10 equal bins from min to max, with binned = true
+--   - min, max, mean, median: of numeric answers
+--   - words:    [{ label, count }] the 10 most common words of text answers,
+--               leaving out words under 3 letters and common stop words
+--   - recent:   the 5 newest answers to text and other free-form questions
+--
+-- Which question types count as choice, numeric or text matches getSummaryKind
+-- in src/lib/responseStats.ts.
+CREATE OR REPLACE FUNCTION public.get_response_summary(
+  _form_id UUID,
+  _search TEXT DEFAULT NULL,
+  _submitted_from TIMESTAMPTZ DEFAULT NULL,
+  _submitted_to TIMESTAMPTZ DEFAULT NULL,
+  _filters JSONB DEFAULT '[]'::jsonb,
+  _status TEXT DEFAULT NULL,
+  _spam TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH matching AS (
+    SELECT s.id, s.submitted_at, s.answers
+    FROM public.search_form_responses(
+      _form_id, _search, _submitted_from, _submitted_to, _filters,
+      NULL, true, NULL, 0, _status, _spam
+    ) s
+  ),
+  questions AS (
+    SELECT
+      q.id,
+      q.question_type,
+      CASE
+        WHEN q.question_type IN ('multiple_choice', 'checkboxes', 'dropdown', 'yes_no') THEN 'choice'
+        WHEN q.question_type IN ('number', 'linear_scale', 'rating', 'nps') THEN 'numeric'
+        WHEN q.question_type IN ('text', 'short_text') THEN 'text'
+        ELSE 'other'
+      END AS kind
+    FROM public.form_questions q
+    WHERE q.form_id = _form_id
+      AND q.question_type <> 'section'
+  ),
+  answers AS (
+    SELECT q.id AS question_id, q.question_type, q.kind, m.submitted_at, m.answers ->> q.id::text AS answer
+    FROM matching m
+    JOIN questions q ON COALESCE(m.answers ->> q.id::text, '') <> ''
+  ),
+  answered AS (
+    SELECT a.question_id, count(*) AS count
+    FROM answers a
+    GROUP BY a.question_id
+  ),
+  choice_counts AS (
+    SELECT c.question_id, jsonb_agg(jsonb_build_object('value', c.value, 'count', c.count) ORDER BY c.value) AS counts
+    FROM (
+      SELECT a.question_id, v.value, count(*) AS count
+      FROM answers a
+      CROSS JOIN LATERAL unnest(
+        CASE WHEN a.question_type = 'checkboxes' THEN public.parse_multi_answer(a.answer) ELSE ARRAY[a.answer] END
+      ) AS v(value)
+      WHERE a.kind = 'choice'
+      GROUP BY a.question_id, v.value
+    ) c
+    GROUP BY c.question_id
+  ),
+  numbers AS (
+    SELECT a.question_id, a.question_type, btrim(a.answer)::numeric AS value
+    FROM answers a
+    WHERE a.kind = 'numeric'
+      AND btrim(a.answer) ~ '^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$'
+  ),
+  number_stats AS (
+    SELECT
+      n.question_id,
+      n.question_type = 'number' AND count(DISTINCT n.value) > 10 AS binned,
+      min(n.value) AS min,
+      max(n.value) AS max,
+      avg(n.value) AS mean,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY n.value) AS median
+    FROM numbers n
+    GROUP BY n.question_id, n.question_type
+  ),
+  number_counts AS (
+    SELECT c.question_id, jsonb_agg(jsonb_build_object('value', c.value, 'count', c.count) ORDER BY c.value) AS counts
+    FROM (
+      SELECT
+        n.question_id,
+        CASE WHEN s.binned THEN LEAST(width_bucket(n.value, s.min, s.max, 10), 10) - 1 ELSE n.value END AS value,
+        count(*) AS count
+      FROM numbers n
+      JOIN number_stats s ON s.question_id = n.question_id
+      GROUP BY 1, 2
+    ) c
+    GROUP BY c.question_id
+  ),
+  -- The stop words are left out as they say nothing about the answers
+  words AS (
+    SELECT
+      a.question_id,
+      w.word,
+      count(*) AS count,
+      row_number() OVER (PARTITION BY a.question_id ORDER BY count(*) DESC, w.word) AS rank
+    FROM answers a
+    CROSS JOIN LATERAL regexp_split_to_table(lower(a.answer), '[^[:alnum:]'']+') AS w(word)
+    WHERE a.kind = 'text'
+      AND length(w.word) >= 3
+      AND w.word <> ALL (ARRAY[
+        'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i',
+        'in', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'this',
+        'to', 'was', 'we', 'were', 'with', 'you', 'your', 'our', 'they', 'them', 'very', 'just'
+      ])
+    GROUP BY a.question_id, w.word
+  ),
+  word_counts AS (
+    SELECT w.question_id, jsonb_agg(jsonb_build_object('label', w.word, 'count', w.count) ORDER BY w.rank) AS words
+    FROM words w
+    WHERE w.rank <= 10
+    GROUP BY w.question_id
+  ),
+  recent AS (
+    SELECT r.question_id, jsonb_agg(r.answer ORDER BY r.rank) AS recent
+    FROM (
+      SELECT
+        a.question_id,
+        a.answer,
+        row_number() OVER (PARTITION BY a.question_id ORDER BY a.submitted_at DESC) AS rank
+      FROM answers a
+      WHERE a.kind IN ('text', 'other')
+    ) r
+    WHERE r.rank <= 5
+    GROUP BY r.question_id
+  ),
+  by_day AS (
+    SELECT jsonb_agg(jsonb_build_object('day', d.day, 'count', d.count) ORDER BY d.day) AS days
+    FROM (
+      SELECT (m.submitted_at AT TIME ZONE 'UTC')::date AS day, count(*) AS count
+      FROM matching m
+      GROUP BY 1
+    ) d
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matching),
+    'by_day', COALESCE((SELECT days FROM by_day), '[]'::jsonb),
+    'questions', COALESCE((
+      SELECT jsonb_object_agg(q.id, jsonb_build_object(
+        'answered', COALESCE(a.count, 0),
+        'counts', COALESCE(cc.counts, nc.counts, '[]'::jsonb),
+        'binned', COALESCE(ns.binned, false),
+        'min', ns.min,
+        'max', ns.max,
+        'mean', ns.mean,
+        'median', ns.median,
+        'words', COALESCE(wc.words, '[]'::jsonb),
+        'recent', COALESCE(r.recent, '[]'::jsonb)
+      ))
+      FROM questions q
+      LEFT JOIN answered a ON a.question_id = q.id
+      LEFT JOIN choice_counts cc ON cc.question_id = q.id
+      LEFT JOIN number_stats ns ON ns.question_id = q.id
+      LEFT JOIN number_counts nc ON nc.question_id = q.id
+      LEFT JOIN word_counts wc ON wc.question_id = q.id
+      LEFT JOIN recent r ON r.question_id = q.id
+    ), '{}'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_response_summary(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,83 @@
+-- Uploaded files that are never cleaned up:
+--
+-- - list_response_files returned its rows in no particular order, so callers
+--   could not page through more than PostgREST's row limit. Deleting a form
+--   with more files than that left the rest behind for good, since only the
+--   form's creator may delete them and the form was gone.
+-- - Files uploaded to responses that are never submitted, or taken out of an
+--   answer when it was edited, stayed in Storage forever. The
+--   cleanup-response-files Edge Function, run on a schedule, now removes files
+--   that nothing refers to once they are old enough, see
+--   list_stale_response_files.
+
+-- Same as before, ordered so callers can page through the files
+CREATE OR REPLACE FUNCTION public.list_response_files(_form_id UUID, _response_id UUID DEFAULT NULL)
+RETURNS SETOF TEXT AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE id = _form_id AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'response-files'
+    AND o.name LIKE _form_id::text || '/%'
+    AND (
+      _response_id IS NULL
+      OR (storage.foldername(o.name))[2] = _response_id::text
+      OR (storage.foldername(o.name))[2] IN (
+        SELECT unnest(r.upload_folders)::text
+        FROM public.form_responses r
+        WHERE r.id = _response_id AND r.form_id = _form_id
+      )
+    )
+  ORDER BY o.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The paths of uploaded files referenced in a stored answer, draft or edit
+-- snapshot. Works on the raw text, so answers that aren't valid JSON and the
+-- escaped JSON inside JSONB snapshots are read the same way.
+CREATE OR REPLACE FUNCTION public.referenced_file_paths(_text TEXT)
+RETURNS SETOF TEXT AS $$
+  SELECT m[1]
+  FROM regexp_matches(_text, '\\?"path\\?"\s*:\s*\\?"([^"\\]+)', 'g') AS m;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Files in the response-files bucket older than _older_than that no submitted
+-- answer, saved draft or edit history refers to, oldest first. Respondents
+-- still filling in a form without a draft have until then to submit.
+CREATE OR REPLACE FUNCTION public.list_stale_response_files(
+  _older_than INTERVAL DEFAULT interval '24 hours',
+  _limit INTEGER DEFAULT 1000
+)
+RETURNS SETOF TEXT AS $$
+  WITH referenced AS (
+    SELECT p.path
+    FROM public.question_responses qr
+    JOIN public.form_questions q ON q.id = qr.question_id AND q.question_type = 'file_upload'
+    CROSS JOIN LATERAL public.referenced_file_paths(qr.answer_text) AS p(path)
+    UNION
+    SELECT p.path
+    FROM public.form_drafts d
+    CROSS JOIN LATERAL public.referenced_file_paths(d.answers::text) AS p(path)
+    UNION
+    SELECT p.path
+    FROM public.response_edits e
+    CROSS JOIN LATERAL public.referenced_file_paths(e.previous_answers::text) AS p(path)
+  )
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'response-files'
+    AND o.created_at < now() - _older_than
+    AND NOT EXISTS (SELECT 1 FROM referenced r WHERE r.path = o.name)
+  ORDER BY o.created_at
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.list_stale_response_files(INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_stale_response_files(INTERVAL, INTEGER) TO service_role;
@@ -0,0 +1,85 @@
+-- Editing a response to {} passed validation on forms without required
+-- questions and left the response without any answers. Edits that answer
+-- nothing are now rejected like any other invalid answer.
+--
+-- validate_form_answers is SECURITY DEFINER and only meant for the functions
+-- that submit and edit responses, so it is no longer callable through the API.
+
+REVOKE EXECUTE ON FUNCTION public.validate_form_answers(UUID, JSONB, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Whether _answers answer at least one question of the form, counting the
+-- same answers that get stored as question_responses.
+CREATE OR REPLACE FUNCTION public.has_any_answer(_form_id UUID, _answers JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.form_questions fq
+    WHERE fq.form_id = _form_id
+      AND fq.question_type <> 'section'
+      AND COALESCE(btrim(_answers ->> fq.id::text), '') NOT IN ('', '[]')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.has_any_answer(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, rejecting edits that leave the response without answers
+CREATE OR REPLACE FUNCTION public.update_form_response(
+  _form_id UUID,
+  _token TEXT,
+  _answers JSONB,
+  _upload_folder UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB;
+  response RECORD;
+BEGIN
+  SELECT r.id, r.upload_folders, f.allow_response_edits
+  INTO response
+  FROM public.form_responses r
+  JOIN public.forms f ON f.id = r.form_id
+  WHERE r.form_id = _form_id
+    AND r.edit_token_hash = public.hash_draft_token(_token);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This edit link is not valid'
+      ))
+    );
+  ELSIF NOT response.allow_response_edits OR public.get_form_availability(_form_id) NOT IN ('open', 'full') THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This response can no longer be edited'
+      ))
+    );
+  ELSIF NOT public.is_available_upload_folder(response.id, _upload_folder) THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+    );
+  END IF;
+
+  errors := public.validate_form_answers(
+    _form_id,
+    answers,
+    ARRAY[_upload_folder, response.id] || response.upload_folders
+  );
+  IF jsonb_array_length(errors) = 0 AND NOT public.has_any_answer(_form_id, answers) THEN
+    errors := jsonb_build_array(jsonb_build_object(
+      'question_id', NULL,
+      'message', 'Please answer at least one question'
+    ));
+  END IF;
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'errors', errors);
+  END IF;
+
+  PERFORM public.save_response_edit(response.id, answers, _upload_folder);
+  RETURN jsonb_build_object('response_id', response.id, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,57 @@
+-- "Public can view active forms" let anyone read every column of an active
+-- form, including its creator and notification settings, when the public form
+-- page only needs a few of them. Respondents now read those through
+-- get_public_form and the forms table is private to each form's creator again.
+
+DROP POLICY "Public can view active forms" ON public.forms;
+
+-- Whether a form is switched on. SECURITY DEFINER so policies on other tables
+-- can check it without respondents being able to read forms.
+CREATE OR REPLACE FUNCTION public.is_active_form(_form_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.forms WHERE id = _form_id AND is_active = true);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_active_form(UUID) TO anon, authenticated;
+
+-- Same as before, checking the form through is_active_form now that
+-- respondents can't read it
+DROP POLICY "Public can view questions for active forms" ON public.form_questions;
+
+CREATE POLICY "Public can view questions for active forms"
+ON public.form_questions
+FOR SELECT
+USING (public.is_active_form(form_id));
+
+-- The settings of an active form that the public form page shows or acts on,
+-- or no rows.
+CREATE OR REPLACE FUNCTION public.get_public_form(_form_id UUID)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  opens_at TIMESTAMPTZ,
+  draft_expiry_days INTEGER,
+  captcha_required BOOLEAN,
+  one_response_per TEXT,
+  allow_response_edits BOOLEAN,
+  theme JSONB,
+  confirmation JSONB
+) AS $$
+  SELECT
+    f.id,
+    f.title,
+    f.description,
+    f.opens_at,
+    f.draft_expiry_days,
+    f.captcha_required,
+    f.one_response_per,
+    f.allow_response_edits,
+    f.theme,
+    f.confirmation
+  FROM public.forms f
+  WHERE f.id = _form_id
+    AND f.is_active = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_public_form(UUID) TO anon, authenticated;
@@ -0,0 +1,40 @@
+-- Confirmation messages recalled answers with "{{Q1}}"-style placeholders,
+-- numbered by position, so they pointed at another question once questions
+-- were reordered, added or removed. They now use the same
+-- "{{question:<id>}}" placeholders as question text. Rewrites the stored
+-- messages to the question each number currently points to; numbers without
+-- a question showed nothing and are dropped.
+DO $$
+DECLARE
+  form RECORD;
+  numbered UUID[];
+  message TEXT;
+  placeholder TEXT[];
+BEGIN
+  FOR form IN
+    SELECT id, confirmation ->> 'message' AS message
+    FROM public.forms
+    WHERE confirmation ->> 'message' ~* '\{\{\s*Q\d+\s*\}\}'
+  LOOP
+    SELECT array_agg(id ORDER BY order_index) INTO numbered
+    FROM public.form_questions
+    WHERE form_id = form.id
+      AND question_type <> 'section';
+
+    message := form.message;
+    FOR placeholder IN
+      SELECT regexp_matches(form.message, '(\{\{\s*Q(\d{1,9})\s*\}\})', 'gi')
+    LOOP
+      message := replace(
+        message,
+        placeholder[1],
+        COALESCE('{{question:' || numbered[placeholder[2]::int] || '}}', '')
+      );
+    END LOOP;
+
+    UPDATE public.forms
+    SET confirmation = jsonb_set(confirmation, '{message}', to_jsonb(message))
+    WHERE id = form.id;
+  END LOOP;
+END;
+$$;
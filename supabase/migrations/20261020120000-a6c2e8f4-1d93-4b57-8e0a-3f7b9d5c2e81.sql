@@ -0,0 +1,205 @@
+-- The per-network rate limit counted recent responses and inserted the new
+-- one later without holding anything in between, so parallel requests from
+-- one address all saw a count under the limit and were all accepted.
+-- Submissions from the same address to the same form now wait for each other
+-- from the count until they commit.
+
+-- Same as before, holding a lock per form and address across the rate limit
+CREATE OR REPLACE FUNCTION public.submit_form_response(
+  _form_id UUID,
+  _answers JSONB,
+  _response_id UUID DEFAULT NULL,
+  _honeypot TEXT DEFAULT NULL,
+  _fill_seconds NUMERIC DEFAULT NULL,
+  _captcha_token TEXT DEFAULT NULL,
+  _browser_token TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  answers JSONB := COALESCE(_answers, '{}'::jsonb);
+  errors JSONB;
+  new_response_id UUID;
+  form RECORD;
+  respondent TEXT;
+  previous_id UUID;
+  previous_folders UUID[];
+  file_folders UUID[] := ARRAY[_response_id];
+  client_ip INET := public.get_request_ip();
+  spam_reasons TEXT[] := '{}';
+  edit_token TEXT;
+  rate_limit CONSTANT INTEGER := 10;
+  min_fill_seconds CONSTANT NUMERIC := 3;
+BEGIN
+  SELECT is_active, captcha_required, one_response_per, allow_response_edits
+  INTO form
+  FROM public.forms
+  WHERE id = _form_id;
+
+  IF NOT FOUND OR NOT form.is_active THEN
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'edit_token', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'This form is no longer accepting responses'
+      ))
+    );
+  END IF;
+
+  IF form.one_response_per IS NOT NULL THEN
+    respondent := public.get_respondent_key(form.one_response_per, _browser_token);
+    IF respondent IS NULL THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'edit_token', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', CASE form.one_response_per
+            WHEN 'user' THEN 'Please sign in to respond to this form'
+            ELSE 'Your response could not be submitted from this browser'
+          END
+        ))
+      );
+    END IF;
+
+    SELECT id, upload_folders INTO previous_id, previous_folders
+    FROM public.form_responses
+    WHERE form_id = _form_id
+      AND respondent_key = respondent;
+
+    IF FOUND AND NOT (form.allow_response_edits AND form.one_response_per <> 'ip') THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'edit_token', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'You have already responded to this form'
+        ))
+      );
+    ELSIF FOUND THEN
+      -- Edits are allowed while the form is open, even once it is full
+      IF public.get_form_availability(_form_id) NOT IN ('open', 'full') THEN
+        RETURN jsonb_build_object(
+          'response_id', NULL,
+          'edit_token', NULL,
+          'errors', jsonb_build_array(jsonb_build_object(
+            'question_id', NULL,
+            'message', 'This form is no longer accepting responses'
+          ))
+        );
+      ELSIF NOT public.is_available_upload_folder(previous_id, _response_id) THEN
+        RETURN jsonb_build_object(
+          'response_id', NULL,
+          'edit_token', NULL,
+          'errors', jsonb_build_array(jsonb_build_object('question_id', NULL, 'message', 'Invalid submission'))
+        );
+      END IF;
+      file_folders := file_folders || previous_id || previous_folders;
+    END IF;
+  END IF;
+
+  IF previous_id IS NULL AND client_ip IS NOT NULL THEN
+    -- Held until the transaction ends, so the response this one inserts is
+    -- counted by the next submission from the same address
+    PERFORM pg_advisory_xact_lock(hashtextextended(_form_id::text || client_ip::text, 0));
+
+    IF (
+      SELECT count(*) FROM public.form_responses
+      WHERE form_id = _form_id
+        AND ip_address = client_ip
+        AND submitted_at > now() - interval '1 hour'
+    ) >= rate_limit THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'edit_token', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'Too many responses have been submitted from your network. Please try again later.'
+        ))
+      );
+    END IF;
+  END IF;
+
+  errors := public.validate_form_answers(_form_id, answers, file_folders);
+  IF jsonb_array_length(errors) = 0 AND NOT public.has_any_answer(_form_id, answers) THEN
+    errors := jsonb_build_array(jsonb_build_object(
+      'question_id', NULL,
+      'message', 'Please answer at least one question'
+    ));
+  END IF;
+  IF jsonb_array_length(errors) > 0 THEN
+    RETURN jsonb_build_object('response_id', NULL, 'edit_token', NULL, 'errors', errors);
+  END IF;
+
+  IF form.captcha_required THEN
+    DELETE FROM public.captcha_passes
+    WHERE form_id = _form_id
+      AND token_hash = public.hash_draft_token(COALESCE(_captcha_token, ''))
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'response_id', NULL,
+        'edit_token', NULL,
+        'errors', jsonb_build_array(jsonb_build_object(
+          'question_id', NULL,
+          'message', 'Please complete the CAPTCHA again'
+        ))
+      );
+    END IF;
+  END IF;
+
+  IF previous_id IS NOT NULL THEN
+    PERFORM public.save_response_edit(previous_id, answers, _response_id);
+    RETURN jsonb_build_object('response_id', previous_id, 'edit_token', NULL, 'errors', '[]'::jsonb);
+  END IF;
+
+  IF COALESCE(_honeypot, '') <> '' THEN
+    spam_reasons := spam_reasons || 'honeypot';
+  END IF;
+  IF _fill_seconds IS NULL OR _fill_seconds < min_fill_seconds THEN
+    spam_reasons := spam_reasons || 'too_fast';
+  END IF;
+
+  edit_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  BEGIN
+    INSERT INTO public.form_responses (
+      id, form_id, ip_address, user_agent, is_spam, spam_reasons, respondent_key, edit_token_hash
+    )
+    VALUES (
+      COALESCE(_response_id, gen_random_uuid()),
+      _form_id,
+      client_ip,
+      public.get_request_user_agent(),
+      cardinality(spam_reasons) > 0,
+      spam_reasons,
+      respondent,
+      public.hash_draft_token(edit_token)
+    )
+    RETURNING id INTO new_response_id;
+  EXCEPTION WHEN unique_violation THEN
+    IF respondent IS NULL THEN
+      RAISE;
+    END IF;
+    -- Another submission from the same respondent got there first
+    RETURN jsonb_build_object(
+      'response_id', NULL,
+      'edit_token', NULL,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'question_id', NULL,
+        'message', 'You have already responded to this form'
+      ))
+    );
+  END;
+
+  INSERT INTO public.question_responses (form_response_id, question_id, answer_text)
+  SELECT new_response_id, fq.id, btrim(answers ->> fq.id::text)
+  FROM public.form_questions fq
+  WHERE fq.form_id = _form_id
+    AND fq.question_type <> 'section'
+    AND COALESCE(btrim(answers ->> fq.id::text), '') NOT IN ('', '[]');
+
+  RETURN jsonb_build_object('response_id', new_response_id, 'edit_token', edit_token, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,96 @@
+-- Responses flagged as spam (honeypot, too_fast) took up places on forms with
+-- a response limit, so a bot could fill a capped form and lock real
+-- respondents out. They are still stored for the creator to review, but no
+-- longer count toward max_responses.
+
+-- Same as before, leaving spam out of the response limit
+CREATE OR REPLACE FUNCTION public.get_form_availability(_form_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  form RECORD;
+BEGIN
+  SELECT is_active, opens_at, closes_at, max_responses
+  INTO form
+  FROM public.forms
+  WHERE id = _form_id;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  ELSIF NOT form.is_active THEN
+    RETURN 'inactive';
+  ELSIF form.opens_at IS NOT NULL AND now() < form.opens_at THEN
+    RETURN 'not_yet_open';
+  ELSIF form.closes_at IS NOT NULL AND now() >= form.closes_at THEN
+    RETURN 'closed';
+  ELSIF form.max_responses IS NOT NULL AND (
+    SELECT count(*) FROM public.form_responses WHERE form_id = _form_id AND NOT is_spam
+  ) >= form.max_responses THEN
+    RETURN 'full';
+  END IF;
+
+  RETURN 'open';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as before, with spots_taken: the responses that count toward
+-- max_responses, i.e. those not flagged as spam. response_count still counts
+-- every response. Dropped first as its columns change.
+DROP FUNCTION public.get_form_overview();
+
+CREATE FUNCTION public.get_form_overview()
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  is_active BOOLEAN,
+  archived_at TIMESTAMPTZ,
+  opens_at TIMESTAMPTZ,
+  closes_at TIMESTAMPTZ,
+  max_responses INTEGER,
+  created_at TIMESTAMPTZ,
+  response_count BIGINT,
+  spots_taken BIGINT,
+  last_response_at TIMESTAMPTZ,
+  daily_counts INTEGER[]
+) AS $$
+  SELECT
+    f.id,
+    f.title,
+    f.description,
+    f.is_active,
+    f.archived_at,
+    f.opens_at,
+    f.closes_at,
+    f.max_responses,
+    f.created_at,
+    COALESCE(totals.response_count, 0),
+    COALESCE(totals.spots_taken, 0),
+    totals.last_response_at,
+    ARRAY(
+      SELECT count(r.id)::integer
+      FROM generate_series(
+        ((now() AT TIME ZONE 'UTC')::date - 6)::timestamp,
+        (now() AT TIME ZONE 'UTC')::date::timestamp,
+        interval '1 day'
+      ) AS d(day)
+      LEFT JOIN public.form_responses r
+        ON r.form_id = f.id
+        AND r.submitted_at >= d.day AT TIME ZONE 'UTC'
+        AND r.submitted_at < (d.day + interval '1 day') AT TIME ZONE 'UTC'
+      GROUP BY d.day
+      ORDER BY d.day
+    )
+  FROM public.forms f
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS response_count,
+      count(*) FILTER (WHERE NOT r.is_spam) AS spots_taken,
+      max(r.submitted_at) AS last_response_at
+    FROM public.form_responses r
+    WHERE r.form_id = f.id
+  ) totals ON true
+  WHERE f.creator_id = auth.uid()
+  ORDER BY f.created_at DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_form_overview() TO authenticated;
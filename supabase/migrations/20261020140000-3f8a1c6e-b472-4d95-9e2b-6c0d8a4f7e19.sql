@@ -0,0 +1,82 @@
+-- Saving a form in the builder took three or four separate requests: the
+-- settings, deleting removed questions, updating the existing ones and
+-- inserting new ones. A failure part way left the form half saved, e.g. with
+-- questions and their answers deleted but the new ones never written.
+-- save_form does it all in one transaction.
+
+-- Creates a form (_form_id NULL) or saves an existing one, returning its id.
+-- _settings holds the form's editable columns, _questions every question and
+-- section in display order. Questions keep their ids so their answers stay
+-- with them, questions not in the list are deleted and new ones inserted.
+-- Runs as the caller, so row level security decides whose forms can be saved.
+CREATE OR REPLACE FUNCTION public.save_form(_form_id UUID, _settings JSONB, _questions JSONB)
+RETURNS UUID AS $$
+DECLARE
+  saved_id UUID;
+BEGIN
+  IF _form_id IS NULL THEN
+    INSERT INTO public.forms (
+      creator_id, title, description, opens_at, closes_at, max_responses, draft_expiry_days,
+      captcha_required, one_response_per, allow_response_edits, notify_on_response, theme, confirmation
+    )
+    SELECT
+      auth.uid(), s.title, s.description, s.opens_at, s.closes_at, s.max_responses, s.draft_expiry_days,
+      s.captcha_required, s.one_response_per, s.allow_response_edits, s.notify_on_response, s.theme, s.confirmation
+    FROM jsonb_populate_record(NULL::public.forms, _settings) s
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.forms f
+    SET
+      title = s.title,
+      description = s.description,
+      opens_at = s.opens_at,
+      closes_at = s.closes_at,
+      max_responses = s.max_responses,
+      draft_expiry_days = s.draft_expiry_days,
+      captcha_required = s.captcha_required,
+      one_response_per = s.one_response_per,
+      allow_response_edits = s.allow_response_edits,
+      notify_on_response = s.notify_on_response,
+      theme = s.theme,
+      confirmation = s.confirmation
+    FROM jsonb_populate_record(NULL::public.forms, _settings) s
+    WHERE f.id = _form_id
+    RETURNING f.id INTO saved_id;
+
+    IF saved_id IS NULL THEN
+      RAISE EXCEPTION 'Form not found' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    DELETE FROM public.form_questions
+    WHERE form_id = saved_id
+      AND id NOT IN (
+        SELECT q.id FROM jsonb_populate_recordset(NULL::public.form_questions, _questions) q
+      );
+  END IF;
+
+  INSERT INTO public.form_questions (
+    id, form_id, question_text, question_type, description, options, is_required, order_index,
+    visibility, file_limits
+  )
+  SELECT
+    q.id, saved_id, q.question_text, q.question_type, q.description, q.options, q.is_required,
+    q.ordinality - 1, q.visibility, q.file_limits
+  FROM jsonb_populate_recordset(NULL::public.form_questions, _questions) WITH ORDINALITY q
+  ON CONFLICT (id) DO UPDATE
+  SET
+    question_text = EXCLUDED.question_text,
+    question_type = EXCLUDED.question_type,
+    description = EXCLUDED.description,
+    options = EXCLUDED.options,
+    is_required = EXCLUDED.is_required,
+    order_index = EXCLUDED.order_index,
+    visibility = EXCLUDED.visibility,
+    file_limits = EXCLUDED.file_limits
+  -- A question of another form is never moved into this one
+  WHERE form_questions.form_id = EXCLUDED.form_id;
+
+  RETURN saved_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_form(UUID, JSONB, JSONB) TO authenticated;
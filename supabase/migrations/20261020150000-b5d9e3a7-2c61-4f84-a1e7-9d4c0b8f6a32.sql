@@ -0,0 +1,21 @@
+-- Answers are stored in a format that depends on their question's type (see
+-- src/lib/questionTypes.ts), so changing the type of a question that has
+-- answers left them misread in the responses view, summary and exports. The
+-- builder no longer offers it; this keeps it from happening any other way.
+CREATE OR REPLACE FUNCTION public.prevent_answered_question_type_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.question_type <> OLD.question_type AND EXISTS (
+    SELECT 1 FROM public.question_responses WHERE question_id = OLD.id
+  ) THEN
+    RAISE EXCEPTION 'The type of a question that already has answers cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_answered_question_type_change
+  BEFORE UPDATE OF question_type ON public.form_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_answered_question_type_change();
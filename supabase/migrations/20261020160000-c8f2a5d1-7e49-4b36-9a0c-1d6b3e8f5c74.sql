@@ -0,0 +1,99 @@
+-- Nothing stopped two overlapping send-notifications runs from reading the
+-- same queued responses and emailing the creator about them twice. Runs now
+-- claim the responses they will send about with claim_due_notifications,
+-- which skips responses another run has claimed, and mark them sent or
+-- release them by that claim. A claim older than 15 minutes belongs to a run
+-- that died and is taken over by the next one.
+--
+-- 'instant' also used to group the responses queued since the last run into
+-- one email, like a digest. It now sends one email per response, as the
+-- builder describes it.
+
+ALTER TABLE public.response_notifications
+  ADD COLUMN claim_id UUID,
+  ADD COLUMN claimed_at TIMESTAMPTZ;
+
+CREATE INDEX idx_response_notifications_claim ON public.response_notifications(claim_id);
+
+DROP FUNCTION public.get_due_notifications();
+DROP FUNCTION public.mark_notifications_sent(UUID, UUID[]);
+
+-- Claims the queued responses whose creator should be emailed now and returns
+-- one row per email to send: one per response for 'instant', one per form
+-- with every response since the last email for digests, oldest first.
+-- Digests are due once the last email about the form is an hour or a day old
+-- and no other run is sending one.
+CREATE OR REPLACE FUNCTION public.claim_due_notifications()
+RETURNS TABLE (form_id UUID, frequency TEXT, claim_id UUID, response_ids UUID[]) AS $$
+  WITH due AS (
+    SELECT
+      n.id,
+      n.form_id,
+      f.notify_on_response AS frequency,
+      CASE WHEN f.notify_on_response = 'instant' THEN n.form_response_id ELSE n.form_id END AS email_key
+    FROM public.response_notifications n
+    JOIN public.forms f ON f.id = n.form_id
+    WHERE n.sent_at IS NULL
+      AND (n.claimed_at IS NULL OR n.claimed_at < now() - interval '15 minutes')
+      AND (
+        f.notify_on_response = 'instant'
+        OR (
+          f.notify_on_response IN ('hourly', 'daily')
+          AND COALESCE(
+            (SELECT max(p.sent_at) FROM public.response_notifications p WHERE p.form_id = f.id),
+            '-infinity'
+          ) <= now() - CASE f.notify_on_response WHEN 'hourly' THEN interval '1 hour' ELSE interval '1 day' END
+          AND NOT EXISTS (
+            SELECT 1 FROM public.response_notifications c
+            WHERE c.form_id = f.id
+              AND c.sent_at IS NULL
+              AND c.claimed_at >= now() - interval '15 minutes'
+          )
+        )
+      )
+    FOR UPDATE OF n SKIP LOCKED
+  ),
+  emails AS (
+    SELECT e.email_key, e.form_id, e.frequency, gen_random_uuid() AS claim_id
+    FROM (SELECT DISTINCT d.email_key, d.form_id, d.frequency FROM due d) e
+  ),
+  claimed AS (
+    UPDATE public.response_notifications n
+    SET claim_id = e.claim_id, claimed_at = now()
+    FROM due d
+    JOIN emails e ON e.email_key = d.email_key
+    WHERE n.id = d.id
+    RETURNING n.form_response_id, n.queued_at, n.claim_id
+  )
+  SELECT e.form_id, e.frequency, e.claim_id, array_agg(c.form_response_id ORDER BY c.queued_at)
+  FROM claimed c
+  JOIN emails e ON e.claim_id = c.claim_id
+  GROUP BY e.form_id, e.frequency, e.claim_id;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Records that the email for _claim_id was sent. Does nothing if the claim
+-- was taken over in the meantime.
+CREATE OR REPLACE FUNCTION public.mark_notifications_sent(_claim_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.response_notifications
+  SET sent_at = now()
+  WHERE claim_id = _claim_id
+    AND sent_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Gives the responses of _claim_id back to the queue after a failed email,
+-- so the next run retries them.
+CREATE OR REPLACE FUNCTION public.release_notification_claim(_claim_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.response_notifications
+  SET claim_id = NULL, claimed_at = NULL
+  WHERE claim_id = _claim_id
+    AND sent_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_notifications() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_sent(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_notification_claim(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_notifications() TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_sent(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_notification_claim(UUID) TO service_role;
@@ -0,0 +1,61 @@
+-- Exports read the matching responses a page at a time through
+-- search_form_responses, which filters, counts and sorts every matching
+-- response again for each page before skipping to its offset, so an export
+-- did work quadratic in the number of responses. export_form_responses
+-- returns the next page after a cursor instead, walking the responses in
+-- submission order and stopping once the page is full.
+
+CREATE INDEX idx_form_responses_form_submitted_id
+  ON public.form_responses (form_id, submitted_at, id);
+
+-- Up to _limit responses matching the same filters as search_form_responses,
+-- oldest first, that come after the response submitted at _after_submitted_at
+-- with id _after_id (NULL for the first page).
+CREATE OR REPLACE FUNCTION public.export_form_responses(
+  _form_id UUID,
+  _search TEXT DEFAULT NULL,
+  _submitted_from TIMESTAMPTZ DEFAULT NULL,
+  _submitted_to TIMESTAMPTZ DEFAULT NULL,
+  _filters JSONB DEFAULT '[]'::jsonb,
+  _status TEXT DEFAULT NULL,
+  _spam TEXT DEFAULT NULL,
+  _after_submitted_at TIMESTAMPTZ DEFAULT NULL,
+  _after_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (id UUID, submitted_at TIMESTAMPTZ, status TEXT, is_spam BOOLEAN, answers JSONB) AS $$
+  WITH question_types AS (
+    SELECT COALESCE(jsonb_object_agg(q.id::text, q.question_type), '{}'::jsonb) AS types
+    FROM public.form_questions q
+    WHERE q.form_id = _form_id
+  )
+  SELECT r.id, r.submitted_at, r.status, r.is_spam, a.answers
+  FROM public.form_responses r
+  CROSS JOIN question_types t
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(jsonb_object_agg(qr.question_id::text, qr.answer_text), '{}'::jsonb) AS answers,
+      COALESCE(string_agg(qr.answer_text, ' '), '') AS document
+    FROM public.question_responses qr
+    WHERE qr.form_response_id = r.id
+  ) a
+  WHERE r.form_id = _form_id
+    AND (_after_submitted_at IS NULL OR (r.submitted_at, r.id) > (_after_submitted_at, _after_id))
+    AND (_submitted_from IS NULL OR r.submitted_at >= _submitted_from)
+    AND (_submitted_to IS NULL OR r.submitted_at < _submitted_to)
+    AND (_status IS NULL OR r.status = _status)
+    AND (_spam IS NULL OR (_spam = 'only') = r.is_spam)
+    AND (
+      NULLIF(btrim(_search), '') IS NULL
+      OR to_tsvector('simple', a.document) @@ websearch_to_tsquery('simple', _search)
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(_filters, '[]'::jsonb)) AS f(condition)
+      WHERE NOT public.evaluate_condition(f.condition, a.answers, t.types)
+    )
+  ORDER BY r.submitted_at, r.id
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.export_form_responses(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, JSONB, TEXT, TEXT, TIMESTAMPTZ, UUID, INTEGER) TO authenticated;
@@ -0,0 +1,34 @@
+-- Forms limited to one response per network key respondents on
+-- get_request_ip. The address must come from the platform's proxies, not from
+-- the client: requests that differ only in what the client put at the front of
+-- X-Forwarded-For are the same respondent.
+--
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+SELECT set_config('request.headers', '{"x-forwarded-for": "198.51.100.1, 203.0.113.7"}', true);
+SELECT is(
+  public.get_respondent_key('ip', NULL),
+  'ip:203.0.113.7',
+  'The proxy-added X-Forwarded-For entry is the respondent'
+);
+
+SELECT set_config('request.headers', '{"x-forwarded-for": "198.51.100.2, 203.0.113.7"}', true);
+SELECT is(
+  public.get_respondent_key('ip', NULL),
+  'ip:203.0.113.7',
+  'A forged X-Forwarded-For entry does not make a new respondent'
+);
+
+SELECT set_config('request.headers', '{"x-forwarded-for": "198.51.100.3", "cf-connecting-ip": "203.0.113.9"}', true);
+SELECT is(
+  public.get_respondent_key('ip', NULL),
+  'ip:203.0.113.9',
+  'CF-Connecting-IP takes precedence over X-Forwarded-For'
+);
+
+SELECT * FROM finish();
+ROLLBACK;